@@ -0,0 +1,35 @@
+/* Service worker for medication dose reminders.
+ * The page schedules reminders and asks this worker to show them, so notifications work on
+ * mobile browsers (which do not allow `new Notification()` from a page) and can offer
+ * "Taken" / "Skip" actions. Chosen actions are posted back to open clients as
+ * `{ type: 'dose-action', doseId, status }`. If no client is open, the app is opened with
+ * `?doseId=...&doseStatus=...` instead.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const { doseId } = event.notification.data || {};
+  event.notification.close();
+
+  const status = event.action === 'taken' ? 'taken' : event.action === 'skip' ? 'skipped' : null;
+
+  event.waitUntil((async () => {
+    const windowClients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (status && doseId) {
+      windowClients.forEach((client) => client.postMessage({ type: 'dose-action', doseId, status }));
+    }
+    if (windowClients.length > 0) {
+      return windowClients[0].focus();
+    }
+    return self.clients.openWindow(
+      status && doseId ? `/?doseId=${encodeURIComponent(doseId)}&doseStatus=${status}` : '/'
+    );
+  })());
+});
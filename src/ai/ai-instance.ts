@@ -1,12 +1,11 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {resolveModelConfig} from '@/ai/model-providers';
+
+// The provider and model come from AI_PROVIDER / AI_MODEL; see `@/ai/model-providers`.
+const {plugins, model} = resolveModelConfig();
 
 export const ai = genkit({
   promptDir: './prompts',
-  plugins: [
-    googleAI({
-      apiKey: process.env.GOOGLE_GENAI_API_KEY,
-    }),
-  ],
-  model: 'googleai/gemini-2.0-flash',
+  plugins,
+  model,
 });
@@ -2,5 +2,8 @@ import '@/ai/flows/suggest-remedies-and-diet.ts';
 import '@/ai/flows/identify-symptoms.ts';
 import '@/ai/flows/suggest-medicines.ts'; // Added import
 import '@/ai/flows/analyze-prescription-flow.ts'; // Added import
+import '@/ai/flows/classify-urgency.ts';
+import '@/ai/flows/symptom-interview.ts';
+import '@/ai/flows/check-drug-interactions.ts';
 // Removed import for find-nearby-pharmacies.ts
 
@@ -0,0 +1,47 @@
+/**
+ * @jest-environment node
+ */
+import {GenerationBlockedError, GenkitError, type GenerateResponse} from 'genkit';
+import {classifyFlowError, FLOW_ERROR_MESSAGES, runFlow} from './flow-result';
+
+// Only kept as error detail, so the full response class is not needed
+const blockedResponse = {finishReason: 'blocked'} as unknown as GenerateResponse;
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+test('classifies Genkit and model plugin errors', () => {
+  expect(classifyFlowError(new GenerationBlockedError(blockedResponse, 'Generation blocked.'))).toBe('safety_blocked');
+  expect(classifyFlowError(new GenkitError({status: 'INVALID_ARGUMENT', message: 'Schema validation failed. Parse Errors: ...'}))).toBe('schema_invalid');
+  expect(classifyFlowError(new GenkitError({status: 'RESOURCE_EXHAUSTED', message: 'Out of tokens'}))).toBe('quota');
+  expect(classifyFlowError(Object.assign(new Error('[429 Too Many Requests] Resource has been exhausted'), {status: 429}))).toBe('quota');
+  expect(classifyFlowError(new GenkitError({status: 'DEADLINE_EXCEEDED', message: 'Too slow'}))).toBe('timeout');
+  expect(classifyFlowError(new Error('Something else'))).toBe('unknown');
+});
+
+test('retries transient failures with backoff', async () => {
+  let attempts = 0;
+  const result = await runFlow('test', async () => {
+    attempts++;
+    if (attempts < 3) throw new GenkitError({status: 'RESOURCE_EXHAUSTED', message: 'Quota exceeded'});
+    return 'done';
+  }, {baseDelayMs: 1});
+  expect(result).toEqual({ok: true, data: 'done'});
+  expect(attempts).toBe(3);
+});
+
+test('returns the user-facing message without retrying blocked generations', async () => {
+  let attempts = 0;
+  const result = await runFlow('test', async () => {
+    attempts++;
+    throw new GenerationBlockedError(blockedResponse, 'Generation blocked.');
+  }, {baseDelayMs: 1});
+  expect(result).toEqual({ok: false, error: {code: 'safety_blocked', message: FLOW_ERROR_MESSAGES.safety_blocked}});
+  expect(attempts).toBe(1);
+});
+
+test('times out attempts that take too long', async () => {
+  const result = await runFlow('test', () => new Promise(resolve => setTimeout(resolve, 1000)), {retries: 0, timeoutMs: 10});
+  expect(result).toEqual({ok: false, error: {code: 'timeout', message: FLOW_ERROR_MESSAGES.timeout}});
+});
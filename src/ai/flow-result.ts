@@ -0,0 +1,95 @@
+/**
+ * @fileOverview The result every user-facing flow returns instead of throwing, so the home view and
+ * the REST API can tell a blocked answer from a quota error without parsing error messages.
+ * Transient failures (quota, timeouts and malformed model output) are retried with exponential
+ * backoff before a failure is returned.
+ *
+ * - runFlow - Runs a flow with retries and wraps the outcome in a FlowResult.
+ * - classifyFlowError - The FlowErrorCode for an error thrown by Genkit or a model plugin.
+ * - FLOW_ERROR_MESSAGES - The user-facing message for each FlowErrorCode.
+ * - FlowResult / FlowError / FlowErrorCode - The result types.
+ */
+
+import {GenerationBlockedError, GenerationResponseError, GenkitError} from 'genkit';
+
+export type FlowErrorCode = 'safety_blocked' | 'schema_invalid' | 'quota' | 'timeout' | 'unknown';
+
+export interface FlowError {
+  code: FlowErrorCode;
+  // Safe to show to the user as is
+  message: string;
+}
+
+export type FlowResult<T> = {ok: true; data: T} | {ok: false; error: FlowError};
+
+export const FLOW_ERROR_MESSAGES: Record<FlowErrorCode, string> = {
+  safety_blocked: 'The AI could not answer this request for safety reasons. Try describing it differently, or consult a healthcare provider.',
+  schema_invalid: 'The AI returned an incomplete answer. Please try again.',
+  quota: 'The AI service is busy right now. Please wait a minute and try again.',
+  timeout: 'The AI took too long to respond. Please try again.',
+  unknown: 'An unexpected error occurred. Please try again.',
+};
+
+export interface RunFlowOptions {
+  // Attempts after the first one, for retryable errors only
+  retries?: number;
+  // Delay before the first retry; doubles on every further retry
+  baseDelayMs?: number;
+  // Per attempt
+  timeoutMs?: number;
+}
+
+export const FLOW_RETRIES = 2;
+export const FLOW_RETRY_BASE_DELAY_MS = 500;
+export const FLOW_TIMEOUT_MS = 60_000;
+
+const RETRYABLE_CODES: FlowErrorCode[] = ['schema_invalid', 'quota', 'timeout'];
+
+/**
+ * Model plugins report failures differently: Genkit errors carry a status name, the Google AI SDK
+ * an HTTP status code, so both are checked before falling back to the message.
+ */
+export function classifyFlowError(error: unknown): FlowErrorCode {
+  if (error instanceof GenerationBlockedError) return 'safety_blocked';
+  // Genkit throws these when the model returned no message at all
+  if (error instanceof GenerationResponseError) return 'schema_invalid';
+
+  const status = (error as {status?: unknown} | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof GenkitError && error.status === 'INVALID_ARGUMENT' && /schema validation failed/i.test(message)) {
+    return 'schema_invalid';
+  }
+  if (status === 'RESOURCE_EXHAUSTED' || status === 429 || /\b429\b|quota|rate limit/i.test(message)) return 'quota';
+  if (status === 'DEADLINE_EXCEEDED' || status === 408 || status === 504 || /timed? ?out|deadline/i.test(message)) return 'timeout';
+  return 'unknown';
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new GenkitError({status: 'DEADLINE_EXCEEDED', message: `Flow timed out after ${timeoutMs} ms.`})),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export async function runFlow<T>(
+  name: string,
+  flow: () => Promise<T>,
+  {retries = FLOW_RETRIES, baseDelayMs = FLOW_RETRY_BASE_DELAY_MS, timeoutMs = FLOW_TIMEOUT_MS}: RunFlowOptions = {}
+): Promise<FlowResult<T>> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return {ok: true, data: await withTimeout(flow(), timeoutMs)};
+    } catch (e) {
+      const code = classifyFlowError(e);
+      if (attempt >= retries || !RETRYABLE_CODES.includes(code)) {
+        console.error(`Flow ${name} failed (${code})`, e);
+        return {ok: false, error: {code, message: FLOW_ERROR_MESSAGES[code]}};
+      }
+      await new Promise(resolve => setTimeout(resolve, baseDelayMs * 2 ** attempt));
+    }
+  }
+}
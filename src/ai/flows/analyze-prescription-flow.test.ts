@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import {analyzePrescription, type AnalyzePrescriptionInput} from './analyze-prescription-flow';
+import {AnalyzePrescriptionOutputSchema} from '@/ai/schemas/analyze-prescription';
+import {getMockRequests, resetMockProvider, setMockOutput} from '@/ai/mock-provider';
+import fixture from '@/ai/fixtures/analyzePrescriptionPrompt.json';
+
+const IMAGE_DATA_URI = 'data:image/png;base64,iVBORw0KGgo=';
+
+afterEach(resetMockProvider);
+
+async function analyze(input: AnalyzePrescriptionInput) {
+  const result = await analyzePrescription(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.data;
+}
+
+test('returns output that conforms to the schema', async () => {
+  const result = await analyze({prescriptionImageDataUris: [IMAGE_DATA_URI]});
+  expect(AnalyzePrescriptionOutputSchema.parse(result)).toEqual(result);
+  expect(result.medications).toEqual(fixture.medications.map(med => ({...med, pages: [1]})));
+});
+
+test('sends the prescription image to the model', async () => {
+  await analyzePrescription({prescriptionImageDataUris: [IMAGE_DATA_URI]});
+  const [request] = getMockRequests('analyzePrescriptionPrompt');
+  const parts = request.messages.flatMap(message => message.content);
+  expect(parts).toContainEqual(expect.objectContaining({media: expect.objectContaining({url: IMAGE_DATA_URI})}));
+});
+
+test('analyzes every page and merges the medications found on several of them', async () => {
+  const secondPage = 'data:image/png;base64,AAAA';
+  const result = await analyze({prescriptionImageDataUris: [IMAGE_DATA_URI, secondPage]});
+  const pageUrls = getMockRequests('analyzePrescriptionPrompt').map(request =>
+    request.messages.flatMap(message => message.content).find(part => part.media)?.media?.url
+  );
+  expect(pageUrls).toEqual([IMAGE_DATA_URI, secondPage]);
+  expect(result.medications.map(med => med.pages)).toEqual([[1, 2], [1, 2]]);
+  expect(result.summary).toBe('Analyzed 2 pages.');
+});
+
+test('rejects requests without pages', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const result = await analyzePrescription({prescriptionImageDataUris: []});
+  expect(result.ok).toBe(false);
+});
+
+test('falls back to the default disclaimer when the model omits it', async () => {
+  const {disclaimer, ...withoutDisclaimer} = fixture;
+  setMockOutput('analyzePrescriptionPrompt', withoutDisclaimer);
+  const result = await analyze({prescriptionImageDataUris: [IMAGE_DATA_URI]});
+  expect(result.disclaimer).toMatch(/^\*\*Important Disclaimer:\*\*/);
+  expect(result.disclaimer).not.toBe(disclaimer);
+});
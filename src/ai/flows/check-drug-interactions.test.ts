@@ -0,0 +1,24 @@
+/**
+ * @jest-environment node
+ */
+import {checkDrugInteractions} from './check-drug-interactions';
+import {getMockRequests, resetMockProvider} from '@/ai/mock-provider';
+
+afterEach(resetMockProvider);
+
+test('checks long pair lists in batches instead of dropping pairs', async () => {
+  const pairs = Array.from({length: 25}, (_, index) => ({drugA: `Drug ${index}`, drugB: 'Unknownium'}));
+  const result = await checkDrugInteractions({pairs});
+  expect(result).toEqual({ok: true, data: {interactions: []}});
+
+  const prompts = getMockRequests('checkDrugInteractionsPrompt').map(request =>
+    request.messages.flatMap(message => message.content.map(part => part.text ?? '')).join('\n')
+  );
+  expect(prompts).toHaveLength(2);
+  expect(prompts[1]).toContain('Drug 24 + Unknownium');
+});
+
+test('does not call the model without pairs', async () => {
+  expect(await checkDrugInteractions({pairs: []})).toEqual({ok: true, data: {interactions: []}});
+  expect(getMockRequests('checkDrugInteractionsPrompt')).toHaveLength(0);
+});
@@ -0,0 +1,81 @@
+'use server';
+/**
+ * @fileOverview Model-based fallback for drug–drug interaction checks. Only used for pairs that the bundled
+ * dataset in `@/lib/drug-interactions-data` cannot resolve (e.g. unrecognized drug names).
+ *
+ * - checkDrugInteractions - A function that checks a list of drug pairs for interactions, wrapped in a FlowResult.
+ * - CheckDrugInteractionsInput - The input type for the checkDrugInteractions function.
+ * - CheckDrugInteractionsOutput - The return type for the checkDrugInteractions function.
+ */
+
+import {ai} from '@/ai/ai-instance';
+import {z} from 'genkit';
+import {runFlow, type FlowResult} from '@/ai/flow-result';
+
+const DrugPairSchema = z.object({
+  drugA: z.string().describe('The first medication, as written.'),
+  drugB: z.string().describe('The second medication, as written.'),
+});
+
+const CheckDrugInteractionsInputSchema = z.object({
+  pairs: z.array(DrugPairSchema).describe('The medication pairs to check.'),
+});
+export type CheckDrugInteractionsInput = z.infer<typeof CheckDrugInteractionsInputSchema>;
+
+const DrugInteractionResultSchema = z.object({
+  drugA: z.string().describe('The first medication, exactly as given in the input pair.'),
+  drugB: z.string().describe('The second medication, exactly as given in the input pair.'),
+  severity: z
+    .enum(['contraindicated', 'major', 'moderate', 'minor', 'none'])
+    .describe('The severity of the interaction, or "none" if there is no known clinically significant interaction.'),
+  description: z.string().describe('A short, plain-language explanation of the interaction and what to do.'),
+});
+
+const CheckDrugInteractionsOutputSchema = z.object({
+  interactions: z.array(DrugInteractionResultSchema).describe('One result per input pair.'),
+});
+export type CheckDrugInteractionsOutput = z.infer<typeof CheckDrugInteractionsOutputSchema>;
+
+// Keeps prompts small; longer lists are checked in several batches.
+const PAIRS_PER_BATCH = 20;
+
+export async function checkDrugInteractions(input: CheckDrugInteractionsInput): Promise<FlowResult<CheckDrugInteractionsOutput>> {
+  return runFlow('checkDrugInteractions', () => checkDrugInteractionsFlow(input));
+}
+
+const prompt = ai.definePrompt({
+  name: 'checkDrugInteractionsPrompt',
+  input: {
+    schema: CheckDrugInteractionsInputSchema,
+  },
+  output: {
+    schema: CheckDrugInteractionsOutputSchema,
+  },
+  prompt: `You are a clinical pharmacology assistant. Check each of the following medication pairs for clinically significant drug–drug interactions.
+
+  {{#each pairs}}
+  - {{{drugA}}} + {{{drugB}}}
+  {{/each}}
+
+  For *each* pair, return \`drugA\` and \`drugB\` exactly as given, a \`severity\` ("contraindicated", "major", "moderate", "minor", or "none") and a short \`description\`.
+  If you do not recognize a medication or are unsure, use "none" and say so in the description rather than guessing.
+
+  Structure your response strictly as a JSON object matching the output schema.`,
+});
+
+const checkDrugInteractionsFlow = ai.defineFlow<
+  typeof CheckDrugInteractionsInputSchema,
+  typeof CheckDrugInteractionsOutputSchema
+>({
+  name: 'checkDrugInteractionsFlow',
+  inputSchema: CheckDrugInteractionsInputSchema,
+  outputSchema: CheckDrugInteractionsOutputSchema,
+},
+async input => {
+  const batches: CheckDrugInteractionsInput['pairs'][] = [];
+  for (let start = 0; start < input.pairs.length; start += PAIRS_PER_BATCH) {
+    batches.push(input.pairs.slice(start, start + PAIRS_PER_BATCH));
+  }
+  const responses = await Promise.all(batches.map(pairs => prompt({ pairs })));
+  return { interactions: responses.flatMap(({output}) => output?.interactions ?? []) };
+});
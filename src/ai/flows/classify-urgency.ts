@@ -0,0 +1,68 @@
+'use server';
+/**
+ * @fileOverview Classifies how urgently a user should seek care based on their described symptoms.
+ * Complements the deterministic rules in `@/lib/red-flags`, which run first and never call the model.
+ *
+ * - classifyUrgency - A function that classifies the urgency of a symptom description, wrapped in a FlowResult.
+ * - ClassifyUrgencyInput - The input type for the classifyUrgency function.
+ * - ClassifyUrgencyOutput - The return type for the classifyUrgency function.
+ */
+
+import {ai} from '@/ai/ai-instance';
+import {z} from 'genkit';
+import {runFlow, type FlowResult} from '@/ai/flow-result';
+
+const ClassifyUrgencyInputSchema = z.object({
+  keywords: z
+    .string()
+    .describe('Keywords describing the symptoms experienced by the user, potentially including profile context (age, gender, pre-existing conditions).'),
+});
+export type ClassifyUrgencyInput = z.infer<typeof ClassifyUrgencyInputSchema>;
+
+const ClassifyUrgencyOutputSchema = z.object({
+  urgency: z
+    .enum(['emergency', 'see_doctor_24h', 'self_care'])
+    .describe('"emergency" if the user needs emergency care now, "see_doctor_24h" if they should see a doctor within 24 hours, "self_care" if home care is reasonable.'),
+  reason: z.string().describe('A short explanation of the classification, referencing the relevant symptoms.'),
+});
+export type ClassifyUrgencyOutput = z.infer<typeof ClassifyUrgencyOutputSchema>;
+
+export async function classifyUrgency(input: ClassifyUrgencyInput): Promise<FlowResult<ClassifyUrgencyOutput>> {
+  return runFlow('classifyUrgency', () => classifyUrgencyFlow(input));
+}
+
+const prompt = ai.definePrompt({
+  name: 'classifyUrgencyPrompt',
+  input: {
+    schema: ClassifyUrgencyInputSchema,
+  },
+  output: {
+    schema: ClassifyUrgencyOutputSchema,
+  },
+  prompt: `You are a medical triage assistant. Your only task is to decide how urgently the user should seek care. Do not diagnose.
+
+  Input: {{{keywords}}}
+
+  Classify the urgency as exactly one of:
+  *   "emergency": Symptoms that may be life-threatening or need immediate care (e.g., chest pain, stroke signs, severe breathing difficulty, severe bleeding, loss of consciousness, severe allergic reaction, thoughts of self-harm, high fever in a young infant).
+  *   "see_doctor_24h": Symptoms that are not immediately life-threatening but should be assessed by a doctor within 24 hours (e.g., persistent high fever, worsening pain, signs of infection, symptoms in a vulnerable person).
+  *   "self_care": Mild, self-limiting symptoms that can reasonably be managed at home.
+
+  **IMPORTANT:** When in doubt, choose the more urgent category. Consider the user's age and pre-existing conditions if provided.
+
+  Provide a short \`reason\` for your classification.`,
+});
+
+const classifyUrgencyFlow = ai.defineFlow<
+  typeof ClassifyUrgencyInputSchema,
+  typeof ClassifyUrgencyOutputSchema
+>({
+  name: 'classifyUrgencyFlow',
+  inputSchema: ClassifyUrgencyInputSchema,
+  outputSchema: ClassifyUrgencyOutputSchema,
+},
+async input => {
+  const {output} = await prompt(input);
+  // Fail safe: if the model does not answer, recommend seeing a doctor rather than self-care.
+  return output ?? { urgency: 'see_doctor_24h', reason: 'Urgency could not be assessed automatically. Please consult a healthcare provider.' };
+});
@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+import {identifySymptoms, streamIdentifySymptoms, type PartialIdentifySymptomsOutput} from './identify-symptoms';
+import {IdentifySymptomsOutputSchema} from '@/ai/schemas/identify-symptoms';
+import {getLastMockPromptText, getMockRequests, resetMockProvider, setMockOutput} from '@/ai/mock-provider';
+import fixture from '@/ai/fixtures/identifySymptomsPrompt.json';
+
+afterEach(resetMockProvider);
+
+test('returns output that conforms to the schema, ranked by likelihood', async () => {
+  setMockOutput('identifySymptomsPrompt', {conditions: [...fixture.conditions].reverse()});
+  const result = await identifySymptoms({keywords: 'sore throat, runny nose'});
+  if (!result.ok) throw new Error(result.error.message);
+  expect(IdentifySymptomsOutputSchema.parse(result.data)).toEqual(result.data);
+  expect(result.data.conditions.map(condition => condition.likelihoodRank)).toEqual([1, 2, 3]);
+});
+
+test('renders the profile context into the prompt only when given', async () => {
+  await identifySymptoms({keywords: 'headache', profileContext: 'Age 30. Drug allergies: penicillin.'});
+  expect(getLastMockPromptText('identifySymptomsPrompt')).toContain('Profile context: Age 30. Drug allergies: penicillin.');
+
+  await identifySymptoms({keywords: 'headache'});
+  const text = getLastMockPromptText('identifySymptomsPrompt');
+  expect(text).toContain('headache');
+  expect(text).not.toContain('Profile context');
+});
+
+test('handles an empty condition list', async () => {
+  setMockOutput('identifySymptomsPrompt', {conditions: []});
+  await expect(identifySymptoms({keywords: 'feeling off'})).resolves.toEqual({ok: true, data: {conditions: []}});
+});
+
+test('reports a schema error when the model keeps returning no output', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  setMockOutput('identifySymptomsPrompt', null);
+  const result = await identifySymptoms({keywords: 'headache'});
+  expect(result).toEqual({ok: false, error: {code: 'schema_invalid', message: expect.any(String)}});
+  // The first attempt and both retries
+  expect(getMockRequests('identifySymptomsPrompt')).toHaveLength(3);
+});
+
+test('streams the conditions as they are generated', async () => {
+  const partials: PartialIdentifySymptomsOutput[] = [];
+  const result = await streamIdentifySymptoms({keywords: 'sore throat'}, partial => partials.push(partial));
+  expect(result).toEqual({ok: true, data: fixture});
+  const streamedCounts = partials.map(partial => partial.conditions?.length ?? 0);
+  expect(streamedCounts).toContain(1);
+  expect(streamedCounts[streamedCounts.length - 1]).toBe(3);
+});
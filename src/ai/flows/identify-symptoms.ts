@@ -2,30 +2,45 @@
 /**
  * @fileOverview This file defines a Genkit flow for identifying potential health conditions based on user-provided keywords (symptoms) and optional profile context.
  *
- * - identifySymptoms - A function that takes symptom keywords and optional profile context as input and returns a list of potential health conditions.
+ * - identifySymptoms - A function that takes symptom keywords and optional profile context as input and returns a list of potential health conditions, wrapped in a FlowResult.
+ * - streamIdentifySymptoms - The same, reporting the partial list of conditions while it is generated.
  * - IdentifySymptomsInput - The input type for the identifySymptoms function, which is a string of keywords possibly including profile context.
- * - IdentifySymptomsOutput - The return type for the identifySymptoms function, which is a string of potential health conditions.
+ * - IdentifySymptomsOutput - The return type for the identifySymptoms function, which is a ranked list of candidate conditions.
+ * - PotentialCondition - A single candidate condition (name, likelihood rank, rationale, matched symptoms, severity tier).
+ * - PartialIdentifySymptomsOutput - The output generated so far, as streamed.
  */
 
 import {ai} from '@/ai/ai-instance';
 import {z} from 'genkit';
+import {runFlow, type FlowResult} from '@/ai/flow-result';
+import {
+  IdentifySymptomsInputSchema,
+  IdentifySymptomsOutputSchema,
+  IdentifySymptomsStreamSchema,
+  type IdentifySymptomsInput,
+  type IdentifySymptomsOutput,
+  type PartialIdentifySymptomsOutput,
+  type PotentialCondition,
+} from '@/ai/schemas/identify-symptoms';
 
-const IdentifySymptomsInputSchema = z.object({
-  keywords: z
-    .string()
-    .describe('Keywords describing the symptoms experienced by the user, potentially including profile context (age, gender, pre-existing conditions).'),
-});
-export type IdentifySymptomsInput = z.infer<typeof IdentifySymptomsInputSchema>;
+export type {IdentifySymptomsInput, IdentifySymptomsOutput, PartialIdentifySymptomsOutput, PotentialCondition};
 
-const IdentifySymptomsOutputSchema = z.object({
-  conditions: z
-    .string()
-    .describe('A list of potential health conditions matching the symptoms and profile context (if provided). List 2-3 most likely conditions.'),
-});
-export type IdentifySymptomsOutput = z.infer<typeof IdentifySymptomsOutputSchema>;
+export async function identifySymptoms(input: IdentifySymptomsInput): Promise<FlowResult<IdentifySymptomsOutput>> {
+  return runFlow('identifySymptoms', () => identifySymptomsFlow(input));
+}
 
-export async function identifySymptoms(input: IdentifySymptomsInput): Promise<IdentifySymptomsOutput> {
-  return identifySymptomsFlow(input);
+// Not retried: the partial output already sent would not match a second attempt.
+export async function streamIdentifySymptoms(
+  input: IdentifySymptomsInput,
+  onPartial: (partial: PartialIdentifySymptomsOutput) => void
+): Promise<FlowResult<IdentifySymptomsOutput>> {
+  return runFlow('identifySymptoms', async () => {
+    const {stream, output} = identifySymptomsFlow.stream(input);
+    for await (const partial of stream) {
+      onPartial(partial);
+    }
+    return output;
+  }, {retries: 0});
 }
 
 // Updated prompt to handle profile context
@@ -36,38 +51,50 @@ const identifySymptomsPrompt = ai.definePrompt({
       keywords: z
         .string()
         .describe('Keywords describing the symptoms experienced by the user, potentially including profile context (age, gender, pre-existing conditions).'),
+      profileContext: z.string().optional(),
     }),
   },
   output: {
-    schema: z.object({
-      conditions: z
-        .string()
-        .describe('A list of 2-3 potential health conditions matching the symptoms and profile context (if provided). Be concise.'),
-    }),
+    schema: IdentifySymptomsOutputSchema,
   },
   // Updated prompt instructions to consider profile context if available
   prompt: `You are a medical chatbot designed to identify potential health conditions based on symptoms and basic user profile information if provided.
 
-  Based on the following information, identify 2-3 potential health conditions. Consider the user's age, gender, and pre-existing conditions if mentioned in the input, as these can influence likelihood.
+  Based on the following information, identify 2-3 potential health conditions. Consider the user's age, gender, pre-existing conditions, current medications (including possible side effects), pregnancy status, BMI, smoking and alcohol use if provided, as these can influence likelihood.
 
   Input: {{{keywords}}}
+  {{#if profileContext}}Profile context: {{{profileContext}}}{{/if}}
 
-  List the potential conditions concisely.
+  For *each* condition, provide:
+  *   \`name\`: The name of the condition.
+  *   \`likelihoodRank\`: 1 for the most likely condition, 2 for the next, and so on. Ranks must be unique.
+  *   \`rationale\`: One or two short sentences explaining why it fits.
+  *   \`matchedSymptoms\`: The symptoms from the input that support it.
+  *   \`severity\`: "mild", "moderate" or "severe".
 
-  Conditions:`,
+  Structure your response strictly as a JSON object matching the output schema, with the \`conditions\` array ordered by \`likelihoodRank\`.`,
 });
 
-
 const identifySymptomsFlow = ai.defineFlow<
   typeof IdentifySymptomsInputSchema,
-  typeof IdentifySymptomsOutputSchema
+  typeof IdentifySymptomsOutputSchema,
+  typeof IdentifySymptomsStreamSchema
 >({
   name: 'identifySymptomsFlow',
   inputSchema: IdentifySymptomsInputSchema,
   outputSchema: IdentifySymptomsOutputSchema,
+  streamSchema: IdentifySymptomsStreamSchema,
 },
-async input => {
-    const {output} = await identifySymptomsPrompt(input);
-    return output!;
+async (input, {sendChunk}) => {
+    const {stream, response} = identifySymptomsPrompt.stream(input);
+    for await (const chunk of stream) {
+      if (chunk.output) sendChunk(chunk.output);
+    }
+    const {output} = await response;
+    // No output is reported as no conditions, which the caller already asks the user to rephrase.
+    // Keep the candidates ordered by likelihood, regardless of how the model listed them.
+    return {
+      conditions: [...(output?.conditions ?? [])].sort((a, b) => a.likelihoodRank - b.likelihoodRank),
+    };
   }
 );
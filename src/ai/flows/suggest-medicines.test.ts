@@ -0,0 +1,56 @@
+/**
+ * @jest-environment node
+ */
+import {suggestMedicines, type SuggestMedicinesInput} from './suggest-medicines';
+import {SuggestMedicinesOutputSchema} from '@/ai/schemas/suggest-medicines';
+import {getLastMockPromptText, resetMockProvider, setMockOutput} from '@/ai/mock-provider';
+import fixture from '@/ai/fixtures/suggestMedicinesPrompt.json';
+
+afterEach(resetMockProvider);
+
+async function suggest(input: SuggestMedicinesInput) {
+  const result = await suggestMedicines(input);
+  if (!result.ok) throw new Error(result.error.message);
+  return result.data;
+}
+
+test('returns output that conforms to the schema', async () => {
+  const result = await suggest({healthCondition: 'Common Cold'});
+  expect(SuggestMedicinesOutputSchema.parse(result)).toEqual(result);
+  expect(result.medicines).toEqual(fixture.medicines);
+  expect(result.excludedMedicines).toEqual([]);
+});
+
+test('falls back to the default disclaimer when the model omits it', async () => {
+  const {disclaimer, ...withoutDisclaimer} = fixture;
+  setMockOutput('suggestMedicinesPrompt', withoutDisclaimer);
+  const result = await suggest({healthCondition: 'Common Cold'});
+  expect(result.disclaimer).toBe(disclaimer);
+});
+
+test('filters out medicines the profile is allergic to', async () => {
+  const result = await suggest({
+    healthCondition: 'Common Cold',
+    profileContext: 'Drug allergies: aspirin.',
+    safetyProfile: {age: 35, drugAllergies: ['aspirin'], currentMedications: []},
+  });
+  expect(result.medicines.map(medicine => medicine.activeIngredient)).toEqual(['Acetaminophen', 'Loratadine']);
+  expect(result.excludedMedicines).toEqual([expect.objectContaining({activeIngredient: 'Ibuprofen', reason: 'allergy'})]);
+  expect(getLastMockPromptText('suggestMedicinesPrompt')).toContain('Profile context: Drug allergies: aspirin.');
+});
+
+test('uses weight-based doses and the child prompt for children', async () => {
+  const result = await suggest({
+    healthCondition: 'Fever',
+    safetyProfile: {age: 6, weightKg: 20, drugAllergies: [], currentMedications: []},
+  });
+  expect(result.pediatricDosing).toEqual(expect.objectContaining({weightKg: 20, calculatedFor: ['Acetaminophen', 'Ibuprofen']}));
+  expect(getLastMockPromptText('suggestMedicinesPrompt')).toContain('The person is a child under 12.');
+});
+
+test('reports a schema error when the model keeps returning no output', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  setMockOutput('suggestMedicinesPrompt', null);
+  const result = await suggestMedicines({healthCondition: 'Common Cold'});
+  expect(result).toEqual({ok: false, error: {code: 'schema_invalid', message: expect.any(String)}});
+});
@@ -1,37 +1,37 @@
 'use server';
 /**
- * @fileOverview Suggests potential over-the-counter (OTC) medicines for a given health condition.
+ * @fileOverview Suggests potential over-the-counter (OTC) medicines for a given health condition,
+ * as a structured list of active ingredients with dose ranges. Suggestions are passed through
+ * the deterministic safety filter in `@/lib/medicine-safety` before they are returned, and for
+ * children under 12 (pediatric mode) doses are replaced with weight-based ones from `@/lib/pediatric-dosing`.
  * Includes a mandatory disclaimer about consulting healthcare professionals.
  *
- * - suggestMedicines - A function that suggests OTC medicines based on a health condition.
+ * - suggestMedicines - A function that suggests OTC medicines based on a health condition, wrapped in a FlowResult.
  * - SuggestMedicinesInput - The input type for the suggestMedicines function.
  * - SuggestMedicinesOutput - The return type for the suggestMedicines function.
+ * - SuggestedMedicine - A single suggested active ingredient.
  */
 
 import {ai} from '@/ai/ai-instance';
 import {z} from 'genkit';
+import {runFlow, type FlowResult} from '@/ai/flow-result';
+import {
+  SuggestedMedicineSchema,
+  SuggestMedicinesInputSchema,
+  SuggestMedicinesOutputSchema,
+  type SuggestMedicinesInput,
+  type SuggestMedicinesOutput,
+  type SuggestedMedicine,
+} from '@/ai/schemas/suggest-medicines';
+import {filterUnsafeMedicines} from '@/lib/medicine-safety';
+import {applyPediatricDosing, isPediatric} from '@/lib/pediatric-dosing';
 
-const SuggestMedicinesInputSchema = z.object({
-  healthCondition: z
-    .string()
-    .describe('The identified health condition for which medicine suggestions are needed.'),
-});
-export type SuggestMedicinesInput = z.infer<typeof SuggestMedicinesInputSchema>;
+export type {SuggestMedicinesInput, SuggestMedicinesOutput, SuggestedMedicine};
 
-const SuggestMedicinesOutputSchema = z.object({
-  suggestedMedicines: z
-    .string()
-    .describe('A list of suggested over-the-counter medicines.'),
-  disclaimer: z
-    .string()
-    .describe(
-      'A mandatory disclaimer stating this is not medical advice.'
-    ),
-});
-export type SuggestMedicinesOutput = z.infer<typeof SuggestMedicinesOutputSchema>;
+const DEFAULT_DISCLAIMER = '**Disclaimer:** This information is AI-generated and not a substitute for professional medical advice. Always consult a doctor or pharmacist before taking any medication. Self-treating can be dangerous.';
 
-export async function suggestMedicines(input: SuggestMedicinesInput): Promise<SuggestMedicinesOutput> {
-  return suggestMedicinesFlow(input);
+export async function suggestMedicines(input: SuggestMedicinesInput): Promise<FlowResult<SuggestMedicinesOutput>> {
+  return runFlow('suggestMedicines', () => suggestMedicinesFlow(input));
 }
 
 const prompt = ai.definePrompt({
@@ -41,34 +41,41 @@ const prompt = ai.definePrompt({
       healthCondition: z
         .string()
         .describe('The identified health condition.'),
+      profileContext: z.string().optional(),
+      isChild: z.boolean().optional(),
     }),
   },
   output: {
     schema: z.object({
-        suggestedMedicines: z
+        medicines: z
+            .array(SuggestedMedicineSchema)
+            .describe('Over-the-counter (OTC) medicines appropriate for the condition, one entry per active ingredient or combination product. Focus on common, widely available OTC options. Leave empty if no OTC medicine is suitable.'),
+        notes: z
             .string()
-            .describe('A list of suggested over-the-counter (OTC) medicines appropriate for the condition. Focus on common, widely available OTC options. If no specific OTC medicines are suitable or if the condition likely requires prescription medication, state that clearly instead of suggesting inappropriate OTCs.'),
+            .optional()
+            .describe('Short general advice. If no specific OTC medicines are suitable or if the condition likely requires prescription medication, state that clearly here.'),
         disclaimer: z
             .string()
-            .default('**Disclaimer:** This information is AI-generated and not a substitute for professional medical advice. Always consult a doctor or pharmacist before taking any medication. Self-treating can be dangerous.')
+            .default(DEFAULT_DISCLAIMER)
             .describe('A mandatory disclaimer about consulting healthcare professionals.')
     }),
   },
   prompt: `You are a helpful assistant providing information about potential over-the-counter (OTC) medicines.
 
   A user has described symptoms potentially related to: {{{healthCondition}}}.
+  {{#if profileContext}}Profile context: {{{profileContext}}}{{/if}}
+  {{#if isChild}}The person is a child under 12. Only suggest products made for children of this age, such as children's acetaminophen or ibuprofen liquid. Never suggest aspirin or adult-only products.{{/if}}
 
   Suggest common, widely available OTC medicines that *might* help alleviate symptoms associated with this condition.
 
   **IMPORTANT RULES:**
   1.  **Only suggest OTC medicines.** Do not suggest prescription drugs.
   2.  If the condition likely requires a doctor's visit or prescription medication (e.g., infections, severe pain, chronic conditions), explicitly state that and do not suggest OTCs as primary treatment.
-  3.  Prioritize safety. If suggesting anything, mention general types or active ingredients (e.g., "pain relievers containing ibuprofen", "antihistamines like loratadine", "cough drops") rather than specific brand names if possible, unless a brand is extremely common and representative of a category (e.g., Tylenol for acetaminophen).
-  4.  Always include the mandatory disclaimer about consulting a healthcare professional.
+  3.  Prioritize safety. Name each suggestion by its generic active ingredient (e.g. "Ibuprofen", "Loratadine"), with the typical OTC dose range, interval and maximum daily dose. Only give brand names as examples when a brand is extremely common and representative (e.g., Tylenol for acetaminophen).
+  4.  If a profile context is given, **never suggest a medicine the person is allergic to** (including drugs from the same class, e.g. other NSAIDs for an ibuprofen allergy), or one that is contraindicated with their age, current medications, pregnancy or breastfeeding, or pre-existing conditions. Give doses appropriate for their age.
+  5.  Always include the mandatory disclaimer about consulting a healthcare professional.
 
-  Generate the response following the output schema.
-  Suggested Medicines:
-  Disclaimer:`,
+  Generate the response following the output schema.`,
 });
 
 const suggestMedicinesFlow = ai.defineFlow<
@@ -80,11 +87,20 @@ const suggestMedicinesFlow = ai.defineFlow<
   outputSchema: SuggestMedicinesOutputSchema,
 },
 async input => {
-  const {output} = await prompt(input);
-  // Ensure the disclaimer is always included, even if the model fails to generate it.
-  const finalOutput = output ?? { suggestedMedicines: "Could not generate suggestions.", disclaimer: "" };
-  if (!finalOutput.disclaimer) {
-      finalOutput.disclaimer = '**Disclaimer:** This information is AI-generated and not a substitute for professional medical advice. Always consult a doctor or pharmacist before taking any medication. Self-treating can be dangerous.';
-  }
-  return finalOutput;
+  const isChild = isPediatric(input.safetyProfile?.age);
+  const {output} = await prompt({healthCondition: input.healthCondition, profileContext: input.profileContext, isChild});
+  const medicines = output?.medicines ?? [];
+  // The prompt asks the model to respect the profile, but the filter is what guarantees it.
+  const {safe, excluded} = input.safetyProfile
+    ? filterUnsafeMedicines(medicines, input.safetyProfile)
+    : {safe: medicines, excluded: []};
+  const pediatric = isChild ? applyPediatricDosing(safe, input.safetyProfile?.weightKg) : null;
+  return {
+    medicines: pediatric ? pediatric.medicines : safe,
+    notes: output ? output.notes : 'Could not generate suggestions.',
+    excludedMedicines: excluded,
+    pediatricDosing: pediatric?.summary,
+    // Ensure the disclaimer is always included, even if the model fails to generate it.
+    disclaimer: output?.disclaimer || DEFAULT_DISCLAIMER,
+  };
 });
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import {streamSuggestRemediesAndDiet, suggestRemediesAndDiet, type PartialSuggestRemediesAndDietOutput} from './suggest-remedies-and-diet';
+import {SuggestRemediesAndDietOutputSchema} from '@/ai/schemas/suggest-remedies-and-diet';
+import {getLastMockPromptText, resetMockProvider, setMockOutput} from '@/ai/mock-provider';
+import fixture from '@/ai/fixtures/suggestRemediesAndDietPrompt.json';
+
+afterEach(resetMockProvider);
+
+test('returns output that conforms to the schema', async () => {
+  const result = await suggestRemediesAndDiet({healthCondition: 'Common Cold'});
+  if (!result.ok) throw new Error(result.error.message);
+  expect(SuggestRemediesAndDietOutputSchema.parse(result.data)).toEqual(fixture);
+});
+
+test('returns each remedy with its evidence level and who should avoid it', async () => {
+  const result = await suggestRemediesAndDiet({healthCondition: 'Common Cold'});
+  if (!result.ok) throw new Error(result.error.message);
+  const honey = result.data.homeRemedies.find(remedy => remedy.name === 'Honey in warm water');
+  expect(honey).toEqual(expect.objectContaining({evidenceLevel: 'moderate', avoidIf: expect.arrayContaining(['Babies under 1 year'])}));
+  expect(honey?.steps.length).toBeGreaterThan(0);
+});
+
+test('renders the dietary preferences into the prompt only when given', async () => {
+  await suggestRemediesAndDiet({healthCondition: 'Gastritis', dietaryPreferences: ['vegan', 'lactose_free']});
+  expect(getLastMockPromptText('suggestRemediesAndDietPrompt')).toContain('Dietary preferences: Vegan, Lactose-free.');
+
+  await suggestRemediesAndDiet({healthCondition: 'Gastritis'});
+  expect(getLastMockPromptText('suggestRemediesAndDietPrompt')).not.toContain('Dietary preferences');
+});
+
+test('renders the condition and profile context into the prompt', async () => {
+  await suggestRemediesAndDiet({healthCondition: 'Gastritis', profileContext: 'Conditions: diabetes.'});
+  const text = getLastMockPromptText('suggestRemediesAndDietPrompt');
+  expect(text).toContain('Gastritis');
+  expect(text).toContain('Conditions: diabetes.');
+});
+
+test('reports a schema error when the model keeps returning no output', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  setMockOutput('suggestRemediesAndDietPrompt', null);
+  const result = await suggestRemediesAndDiet({healthCondition: 'Common Cold'});
+  expect(result).toEqual({ok: false, error: {code: 'schema_invalid', message: expect.any(String)}});
+});
+
+test('streams the remedies and diet plan as they are generated', async () => {
+  const partials: PartialSuggestRemediesAndDietOutput[] = [];
+  const result = await streamSuggestRemediesAndDiet({healthCondition: 'Common Cold'}, partial => partials.push(partial));
+  expect(result).toEqual({ok: true, data: fixture});
+  expect(partials.length).toBeGreaterThan(2);
+  expect(partials[0].homeRemedies?.length ?? 0).toBeLessThan(fixture.homeRemedies.length);
+  expect(partials[0].dietPlan).toBeUndefined();
+  expect(partials[partials.length - 1]).toEqual(fixture);
+});
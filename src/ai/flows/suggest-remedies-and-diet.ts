@@ -1,31 +1,55 @@
 'use server';
 
 /**
- * @fileOverview Provides home remedies and diet suggestions based on identified health conditions.
+ * @fileOverview Provides structured home remedies (steps, frequency, evidence level and who should
+ * avoid them) and a structured diet plan (foods to eat and avoid, a sample
+ * meal schedule and a hydration target) based on identified health conditions, respecting the
+ * person's dietary preferences.
  *
- * - suggestRemediesAndDiet - A function that suggests home remedies and a diet plan based on identified conditions.
+ * - suggestRemediesAndDiet - A function that suggests home remedies and a diet plan based on identified conditions, wrapped in a FlowResult.
+ * - streamSuggestRemediesAndDiet - The same, reporting the partial remedies and diet plan while they are generated.
  * - SuggestRemediesAndDietInput - The input type for the suggestRemediesAndDiet function.
  * - SuggestRemediesAndDietOutput - The return type for the suggestRemediesAndDiet function.
+ * - PartialSuggestRemediesAndDietOutput - The output generated so far, as streamed.
+ * - HomeRemedy / PartialHomeRemedy - One home remedy, complete or as streamed so far.
+ * - DietPlan / PartialDietPlan - The structured diet plan, complete or as streamed so far.
  */
 
 import {ai} from '@/ai/ai-instance';
-import {z} from 'genkit';
+import {GenerationResponseError, z} from 'genkit';
+import {runFlow, type FlowResult} from '@/ai/flow-result';
+import {
+  SuggestRemediesAndDietInputSchema,
+  SuggestRemediesAndDietOutputSchema,
+  SuggestRemediesAndDietStreamSchema,
+  type DietPlan,
+  type HomeRemedy,
+  type PartialDietPlan,
+  type PartialHomeRemedy,
+  type PartialSuggestRemediesAndDietOutput,
+  type SuggestRemediesAndDietInput,
+  type SuggestRemediesAndDietOutput,
+} from '@/ai/schemas/suggest-remedies-and-diet';
+import {DIETARY_PREFERENCE_LABELS} from '@/lib/user-profile';
 
-const SuggestRemediesAndDietInputSchema = z.object({
-  healthCondition: z
-    .string()
-    .describe('The identified health condition for which remedies and diet are needed.'),
-});
-export type SuggestRemediesAndDietInput = z.infer<typeof SuggestRemediesAndDietInputSchema>;
+export type {DietPlan, HomeRemedy, PartialDietPlan, PartialHomeRemedy, PartialSuggestRemediesAndDietOutput, SuggestRemediesAndDietInput, SuggestRemediesAndDietOutput};
 
-const SuggestRemediesAndDietOutputSchema = z.object({
-  homeRemedies: z.string().describe('A list of suggested home remedies.'),
-  dietSuggestions: z.string().describe('A suggested diet plan.'),
-});
-export type SuggestRemediesAndDietOutput = z.infer<typeof SuggestRemediesAndDietOutputSchema>;
+export async function suggestRemediesAndDiet(input: SuggestRemediesAndDietInput): Promise<FlowResult<SuggestRemediesAndDietOutput>> {
+  return runFlow('suggestRemediesAndDiet', () => suggestRemediesAndDietFlow(input));
+}
 
-export async function suggestRemediesAndDiet(input: SuggestRemediesAndDietInput): Promise<SuggestRemediesAndDietOutput> {
-  return suggestRemediesAndDietFlow(input);
+// Not retried: the partial output already sent would not match a second attempt.
+export async function streamSuggestRemediesAndDiet(
+  input: SuggestRemediesAndDietInput,
+  onPartial: (partial: PartialSuggestRemediesAndDietOutput) => void
+): Promise<FlowResult<SuggestRemediesAndDietOutput>> {
+  return runFlow('suggestRemediesAndDiet', async () => {
+    const {stream, output} = suggestRemediesAndDietFlow.stream(input);
+    for await (const partial of stream) {
+      onPartial(partial);
+    }
+    return output;
+  }, {retries: 0});
 }
 
 const prompt = ai.definePrompt({
@@ -35,26 +59,55 @@ const prompt = ai.definePrompt({
       healthCondition: z
         .string()
         .describe('The identified health condition for which remedies and diet are needed.'),
+      profileContext: z.string().optional(),
+      dietaryPreferences: z.string().optional(),
     }),
   },
-  output: {
-    schema: z.object({
-      homeRemedies: z.string().describe('A list of suggested home remedies.'),
-      dietSuggestions: z.string().describe('A suggested diet plan.'),
-    }),
-  },
-  prompt: `You are a healthcare assistant. A user has been identified as suffering from the following condition: {{{healthCondition}}}.\n\nSuggest home remedies and a diet plan to help them manage their condition at home.`,
+  output: {schema: SuggestRemediesAndDietOutputSchema},
+  prompt: `You are a healthcare assistant. A user has been identified as suffering from the following condition: {{{healthCondition}}}.
+{{#if profileContext}}
+Profile context: {{{profileContext}}}
+Tailor the suggestions to this person: avoid remedies or herbal products that interact with their current medications or that they are allergic to, respect pregnancy or breastfeeding, and adapt the diet to their conditions and BMI.
+{{/if}}
+{{#if dietaryPreferences}}
+Dietary preferences: {{{dietaryPreferences}}}. Every food, meal and drink you suggest must fit all of these: no meat, fish or gelatin for vegetarian; no animal products at all for vegan; no pork, alcohol or non-halal meat for halal; no milk products unless lactose-free for lactose-free.
+{{/if}}
+Suggest 3 to 5 home remedies and a diet plan to help them manage their condition at home. For each remedy give:
+*   \`steps\`: how to prepare and use it, one instruction per step, with amounts where they matter.
+*   \`frequency\`: how often and for how long to use it.
+*   \`evidenceLevel\`: be honest about the evidence. Use \`strong\` only when clinical trials consistently support it, \`moderate\` for some trial support, \`limited\` for small or mixed studies and \`traditional\` for customary use without clinical evidence.
+*   \`avoidIf\`: who should not use it, e.g. infants, pregnant women, people with specific conditions or on specific medications. Leave it empty only if the remedy is safe for everyone.
+*   \`stopIf\`: the signs that mean they should stop and see a doctor.
+
+The diet plan has:
+*   \`foodsToEat\` and \`foodsToAvoid\`: each food with a one-sentence reason tied to the condition.
+*   \`mealPlan\`: a sample schedule for 1 to 3 days (fewer days for short illnesses), with breakfast, lunch, dinner and optional snacks.
+*   \`hydration\`: the daily fluid target in litres and what to drink.`,
 });
 
 const suggestRemediesAndDietFlow = ai.defineFlow<
   typeof SuggestRemediesAndDietInputSchema,
-  typeof SuggestRemediesAndDietOutputSchema
+  typeof SuggestRemediesAndDietOutputSchema,
+  typeof SuggestRemediesAndDietStreamSchema
 >({
   name: 'suggestRemediesAndDietFlow',
   inputSchema: SuggestRemediesAndDietInputSchema,
   outputSchema: SuggestRemediesAndDietOutputSchema,
+  streamSchema: SuggestRemediesAndDietStreamSchema,
 },
-async input => {
-  const {output} = await prompt(input);
-  return output!;
+async (input, {sendChunk}) => {
+  const {stream, response: pendingResponse} = prompt.stream({
+    healthCondition: input.healthCondition,
+    profileContext: input.profileContext,
+    dietaryPreferences: input.dietaryPreferences?.map(preference => DIETARY_PREFERENCE_LABELS[preference]).join(', '),
+  });
+  for await (const chunk of stream) {
+    if (chunk.output) sendChunk(chunk.output);
+  }
+  const response = await pendingResponse;
+  // There is nothing sensible to fall back to, so this is reported like any other empty model response.
+  if (!response.output) {
+    throw new GenerationResponseError(response, 'The model returned no remedies or diet suggestions.');
+  }
+  return response.output;
 });
\ No newline at end of file
@@ -0,0 +1,155 @@
+'use server';
+/**
+ * @fileOverview Runs a multi-turn symptom interview, asking clarifying follow-up questions (onset, duration,
+ * severity, location, associated symptoms, aggravating/relieving factors) until there is enough structured
+ * information to hand over to identifySymptoms.
+ *
+ * The conversation state lives on the client and is sent back with every turn, so the flow itself is stateless.
+ *
+ * - interviewSymptoms - A function that processes one interview turn and returns the next question or a final summary, wrapped in a FlowResult.
+ * - SymptomInterviewInput - The input type for the interviewSymptoms function.
+ * - SymptomInterviewOutput - The return type for the interviewSymptoms function.
+ * - SymptomDetails - The structured symptom information collected so far.
+ * - InterviewMessage - A single message in the interview transcript.
+ */
+
+import {ai} from '@/ai/ai-instance';
+import {z} from 'genkit';
+import {runFlow, type FlowResult} from '@/ai/flow-result';
+
+const InterviewMessageSchema = z.object({
+  role: z.enum(['assistant', 'user']),
+  content: z.string(),
+});
+export type InterviewMessage = z.infer<typeof InterviewMessageSchema>;
+
+const SymptomDetailsSchema = z.object({
+  chiefComplaint: z.string().optional().describe('The main symptom or problem, in the user\'s words.'),
+  onset: z.string().optional().describe('When and how the symptoms started (e.g., "suddenly yesterday morning").'),
+  duration: z.string().optional().describe('How long the symptoms have lasted (e.g., "3 days").'),
+  severity: z.number().int().min(1).max(10).optional().describe('Severity on a scale of 1 (very mild) to 10 (worst imaginable).'),
+  location: z.string().optional().describe('Where in the body the symptoms are felt.'),
+  associatedSymptoms: z.array(z.string()).optional().describe('Other symptoms occurring alongside the main complaint.'),
+  aggravatingFactors: z.string().optional().describe('What makes the symptoms worse.'),
+  relievingFactors: z.string().optional().describe('What makes the symptoms better.'),
+});
+export type SymptomDetails = z.infer<typeof SymptomDetailsSchema>;
+
+const SymptomInterviewInputSchema = z.object({
+  transcript: z.array(InterviewMessageSchema).describe('The conversation so far, oldest message first. The last message is the user\'s latest reply.'),
+  details: SymptomDetailsSchema.describe('Structured details collected in previous turns.'),
+  profileContext: z.string().optional().describe('Optional profile context (age, gender, pre-existing conditions).'),
+});
+export type SymptomInterviewInput = z.infer<typeof SymptomInterviewInputSchema>;
+
+const SymptomInterviewOutputSchema = z.object({
+  details: SymptomDetailsSchema.describe('All structured details known after this turn.'),
+  isComplete: z.boolean().describe('Whether enough information has been collected to identify potential conditions.'),
+  nextQuestion: z.string().optional().describe('The next follow-up question to ask, when the interview is not complete.'),
+  summary: z.string().optional().describe('A symptom summary to pass to identifySymptoms, when the interview is complete.'),
+});
+export type SymptomInterviewOutput = z.infer<typeof SymptomInterviewOutputSchema>;
+
+// Never ask more than this many follow-up questions, even if some details are still missing.
+const MAX_USER_TURNS = 7;
+
+// Deterministic fallback questions, asked in order for whichever detail is still missing.
+const FALLBACK_QUESTIONS: [keyof SymptomDetails, string][] = [
+  ['chiefComplaint', 'What is the main symptom that is bothering you?'],
+  ['onset', 'When did it start, and did it come on suddenly or gradually?'],
+  ['duration', 'How long have you had it?'],
+  ['severity', 'On a scale of 1 to 10, how bad is it?'],
+  ['location', 'Where exactly do you feel it?'],
+  ['associatedSymptoms', 'Have you noticed any other symptoms along with it?'],
+  ['aggravatingFactors', 'Does anything make it better or worse?'],
+];
+
+export async function interviewSymptoms(input: SymptomInterviewInput): Promise<FlowResult<SymptomInterviewOutput>> {
+  return runFlow('interviewSymptoms', () => symptomInterviewFlow(input));
+}
+
+const prompt = ai.definePrompt({
+  name: 'symptomInterviewPrompt',
+  input: {
+    schema: z.object({
+      transcript: z.array(InterviewMessageSchema),
+      knownDetails: z.string().describe('JSON of the structured details collected so far.'),
+      profileContext: z.string().optional(),
+    }),
+  },
+  output: {
+    schema: z.object({
+      details: SymptomDetailsSchema,
+      nextQuestion: z.string().optional(),
+    }),
+  },
+  prompt: `You are a friendly medical intake assistant interviewing a user about their symptoms. You do NOT diagnose.
+
+  {{#if profileContext}}Profile context: {{{profileContext}}}{{/if}}
+
+  Details collected so far (JSON): {{{knownDetails}}}
+
+  Conversation so far:
+  {{#each transcript}}
+  {{role}}: {{{content}}}
+  {{/each}}
+
+  1.  **Update Details:** Using the whole conversation, return the complete \`details\` object, keeping previously known values unless the user corrected them. Only fill in fields the user has actually told you about. \`severity\` must be an integer from 1 to 10.
+  2.  **Ask One Question:** If any of onset, duration, severity, location, associated symptoms, or what makes it better or worse is still unknown, set \`nextQuestion\` to ONE short, clear follow-up question about the most important missing detail. Do not repeat questions the user already answered. If the user said they don't know, move on.
+  3.  Structure your response strictly as a JSON object matching the output schema.`,
+});
+
+function hasEnoughInformation(details: SymptomDetails): boolean {
+  return Boolean(
+    details.chiefComplaint &&
+    (details.onset || details.duration) &&
+    details.severity &&
+    details.location &&
+    details.associatedSymptoms
+  );
+}
+
+function buildSymptomSummary(details: SymptomDetails, transcript: InterviewMessage[]): string {
+  const parts = [
+    details.chiefComplaint && `Main symptom: ${details.chiefComplaint}`,
+    details.onset && `Onset: ${details.onset}`,
+    details.duration && `Duration: ${details.duration}`,
+    details.severity && `Severity: ${details.severity}/10`,
+    details.location && `Location: ${details.location}`,
+    details.associatedSymptoms?.length && `Associated symptoms: ${details.associatedSymptoms.join(', ')}`,
+    details.aggravatingFactors && `Worse with: ${details.aggravatingFactors}`,
+    details.relievingFactors && `Better with: ${details.relievingFactors}`,
+  ].filter(Boolean);
+  // Fall back to the user's own words if nothing could be structured.
+  if (parts.length === 0) {
+    return transcript.filter(message => message.role === 'user').map(message => message.content).join('. ');
+  }
+  return parts.join('. ');
+}
+
+const symptomInterviewFlow = ai.defineFlow<
+  typeof SymptomInterviewInputSchema,
+  typeof SymptomInterviewOutputSchema
+>({
+  name: 'symptomInterviewFlow',
+  inputSchema: SymptomInterviewInputSchema,
+  outputSchema: SymptomInterviewOutputSchema,
+},
+async input => {
+  const {output} = await prompt({
+    transcript: input.transcript,
+    knownDetails: JSON.stringify(input.details),
+    profileContext: input.profileContext,
+  });
+
+  const details: SymptomDetails = { ...input.details, ...output?.details };
+  const userTurns = input.transcript.filter(message => message.role === 'user').length;
+
+  if (hasEnoughInformation(details) || userTurns >= MAX_USER_TURNS) {
+    return { details, isComplete: true, summary: buildSymptomSummary(details, input.transcript) };
+  }
+
+  const fallbackQuestion = FALLBACK_QUESTIONS.find(([field]) => details[field] === undefined)?.[1]
+    ?? 'Is there anything else you would like to tell me about your symptoms?';
+  return { details, isComplete: false, nextQuestion: output?.nextQuestion || fallbackQuestion };
+});
@@ -0,0 +1,32 @@
+/**
+ * @jest-environment node
+ */
+import {genkit, z} from 'genkit';
+import {findMockFixture, mockProvider, MOCK_MODEL} from './mock-provider';
+import identifySymptomsFixture from './fixtures/identifySymptomsPrompt.json';
+
+const ai = genkit({plugins: [mockProvider()], model: MOCK_MODEL});
+
+test('answers a prompt with the fixture matching its output schema', async () => {
+  const prompt = ai.definePrompt({
+    name: 'testPrompt',
+    input: {schema: z.object({keywords: z.string()})},
+    output: {
+      schema: z.object({
+        conditions: z.array(z.object({name: z.string(), likelihoodRank: z.number()}).passthrough()),
+      }),
+    },
+    prompt: 'Identify conditions for {{{keywords}}}',
+  });
+  const {output} = await prompt({keywords: 'sore throat'});
+  expect(output).toEqual(identifySymptomsFixture);
+});
+
+test('picks fixtures by schema properties and rejects unknown schemas', () => {
+  expect(findMockFixture({properties: {homeRemedies: {}, dietPlan: {}}})?.prompt).toBe('suggestRemediesAndDietPrompt');
+  expect(findMockFixture({properties: {details: {}, nextQuestion: {}}, required: ['details']})?.prompt).toBe('symptomInterviewPrompt');
+  expect(findMockFixture({properties: {medicines: {}, notes: {}, disclaimer: {}}})?.prompt).toBe('suggestMedicinesPrompt');
+  expect(findMockFixture({properties: {somethingElse: {}}, required: ['somethingElse']})).toBeNull();
+  expect(findMockFixture(undefined)).toBeNull();
+  expect(findMockFixture({properties: {medicines: {}}, required: 'medicines'})).toBeNull();
+});
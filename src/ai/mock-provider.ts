@@ -0,0 +1,122 @@
+/**
+ * @fileOverview A deterministic, fixture-backed model provider for offline development and tests.
+ * It never calls the network: every prompt gets the canned JSON output stored for it in
+ * `src/ai/fixtures/<promptName>.json`.
+ *
+ * Model requests do not carry the prompt name, so the fixture is picked by the top-level
+ * properties of the requested output schema, which differ between every prompt. Streaming
+ * requests receive the JSON text in small chunks, like a real model would send it.
+ *
+ * - mockProvider - Genkit plugin registering the `mock/fixtures` model.
+ * - findMockFixture - The fixture for a requested output schema.
+ * - setMockOutput / resetMockProvider - Per-prompt output overrides, for simulating model misbehaviour in tests.
+ * - getMockRequests / getLastMockPromptText - Requests the mock model has received, for asserting on rendered prompts.
+ * - MOCK_MODEL - Name of the mock model.
+ */
+
+import {z} from 'genkit';
+import {genkitPlugin} from 'genkit/plugin';
+import type {GenerateRequest} from 'genkit/model';
+import analyzePrescriptionPrompt from '@/ai/fixtures/analyzePrescriptionPrompt.json';
+import checkDrugInteractionsPrompt from '@/ai/fixtures/checkDrugInteractionsPrompt.json';
+import classifyUrgencyPrompt from '@/ai/fixtures/classifyUrgencyPrompt.json';
+import identifySymptomsPrompt from '@/ai/fixtures/identifySymptomsPrompt.json';
+import suggestMedicinesPrompt from '@/ai/fixtures/suggestMedicinesPrompt.json';
+import suggestRemediesAndDietPrompt from '@/ai/fixtures/suggestRemediesAndDietPrompt.json';
+import symptomInterviewPrompt from '@/ai/fixtures/symptomInterviewPrompt.json';
+
+export const MOCK_MODEL = 'mock/fixtures';
+
+// Characters per streamed chunk
+const MOCK_CHUNK_SIZE = 48;
+
+// The parts of a JSON schema used to pick a fixture
+const ObjectSchemaShape = z.object({
+  properties: z.record(z.unknown()).optional(),
+  required: z.array(z.string()).optional(),
+});
+
+export interface MockFixture {
+  prompt: string;
+  output: Record<string, unknown>;
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {prompt: 'identifySymptomsPrompt', output: identifySymptomsPrompt},
+  {prompt: 'suggestRemediesAndDietPrompt', output: suggestRemediesAndDietPrompt},
+  {prompt: 'suggestMedicinesPrompt', output: suggestMedicinesPrompt},
+  {prompt: 'analyzePrescriptionPrompt', output: analyzePrescriptionPrompt},
+  {prompt: 'classifyUrgencyPrompt', output: classifyUrgencyPrompt},
+  {prompt: 'symptomInterviewPrompt', output: symptomInterviewPrompt},
+  {prompt: 'checkDrugInteractionsPrompt', output: checkDrugInteractionsPrompt},
+];
+
+// null makes the model return no output at all
+const outputOverrides = new Map<string, Record<string, unknown> | null>();
+const receivedRequests: {prompt: string; request: GenerateRequest}[] = [];
+
+export function setMockOutput(prompt: string, output: Record<string, unknown> | null) {
+  outputOverrides.set(prompt, output);
+}
+
+export function getMockRequests(prompt?: string): GenerateRequest[] {
+  return receivedRequests.filter(entry => !prompt || entry.prompt === prompt).map(entry => entry.request);
+}
+
+// Text of the last request rendered for a prompt
+export function getLastMockPromptText(prompt: string): string {
+  const request = getMockRequests(prompt).at(-1);
+  return request?.messages.flatMap(message => message.content.map(part => part.text ?? '')).join('\n') ?? '';
+}
+
+export function resetMockProvider() {
+  outputOverrides.clear();
+  receivedRequests.length = 0;
+}
+
+/**
+ * Matches on the schema's property names, so optional fields a fixture leaves out (e.g. `notes`)
+ * are allowed but every fixture field must exist in the schema.
+ */
+export function findMockFixture(outputSchema: unknown): MockFixture | null {
+  const shape = ObjectSchemaShape.safeParse(outputSchema);
+  if (!shape.success) return null;
+  const properties = Object.keys(shape.data.properties ?? {});
+  const required = shape.data.required ?? [];
+  const candidates = MOCK_FIXTURES.filter(fixture => {
+    const fixtureKeys = Object.keys(fixture.output);
+    return fixtureKeys.every(key => properties.includes(key)) && required.every(key => fixtureKeys.includes(key));
+  });
+  // Prefer the fixture that covers the most of the schema.
+  return candidates.sort((a, b) => Object.keys(b.output).length - Object.keys(a.output).length)[0] ?? null;
+}
+
+export function mockProvider() {
+  return genkitPlugin('mock', async ai => {
+    ai.defineModel(
+      {
+        name: MOCK_MODEL,
+        label: 'Mock (offline fixtures)',
+        supports: {multiturn: true, media: true, systemRole: true, output: ['text', 'json'], constrained: 'all'},
+      },
+      async (request: GenerateRequest, streamingCallback) => {
+        const fixture = findMockFixture(request.output?.schema);
+        if (!fixture) {
+          throw new Error('The mock provider has no fixture for the requested output schema.');
+        }
+        receivedRequests.push({prompt: fixture.prompt, request});
+        const output = outputOverrides.has(fixture.prompt) ? outputOverrides.get(fixture.prompt) : fixture.output;
+        const text = output ? JSON.stringify(output) : '';
+        if (streamingCallback) {
+          for (let start = 0; start < text.length; start += MOCK_CHUNK_SIZE) {
+            streamingCallback({content: [{text: text.slice(start, start + MOCK_CHUNK_SIZE)}]});
+          }
+        }
+        return {
+          message: {role: 'model', content: output ? [{text}] : []},
+          finishReason: 'stop',
+        };
+      }
+    );
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * @jest-environment node
+ */
+import {MOCK_MODEL} from './mock-provider';
+import {resolveModelConfig} from './model-providers';
+
+test('defaults to Gemini on Google AI', () => {
+  const config = resolveModelConfig({GOOGLE_GENAI_API_KEY: 'test-key'});
+  expect(config.providerId).toBe('googleai');
+  expect(config.model).toBe('googleai/gemini-2.0-flash');
+  expect(config.plugins).toHaveLength(1);
+});
+
+test('selects the mock provider and model overrides from configuration', () => {
+  expect(resolveModelConfig({AI_PROVIDER: 'mock'})).toEqual(expect.objectContaining({providerId: 'mock', model: MOCK_MODEL}));
+  expect(resolveModelConfig({AI_PROVIDER: 'googleai', AI_MODEL: 'googleai/gemini-2.5-flash'}).model).toBe('googleai/gemini-2.5-flash');
+});
+
+test('rejects unknown providers', () => {
+  expect(() => resolveModelConfig({AI_PROVIDER: 'openai'})).toThrow('Unknown AI_PROVIDER "openai"');
+});
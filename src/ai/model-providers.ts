@@ -0,0 +1,59 @@
+/**
+ * @fileOverview Registry of the model providers the app can run on. The provider and model are
+ * picked from configuration, so tests and offline runs can use the mock provider instead of Gemini.
+ *
+ * Configuration (environment variables):
+ * - AI_PROVIDER - "googleai" (default) or "mock".
+ * - AI_MODEL - Overrides the provider's default model, e.g. "googleai/gemini-2.5-flash".
+ *
+ * - MODEL_PROVIDERS - Every available provider.
+ * - resolveModelConfig - The provider, plugins and model selected by the environment.
+ */
+
+import type {GenkitPlugin} from 'genkit/plugin';
+import {googleAI} from '@genkit-ai/googleai';
+import {mockProvider, MOCK_MODEL} from '@/ai/mock-provider';
+
+export type ModelProviderId = 'googleai' | 'mock';
+
+export interface ModelProvider {
+  defaultModel: string;
+  // Plugins are created lazily so an unused provider never checks for its API key.
+  createPlugins: () => GenkitPlugin[];
+}
+
+export const DEFAULT_MODEL_PROVIDER: ModelProviderId = 'googleai';
+
+export const MODEL_PROVIDERS: Record<ModelProviderId, ModelProvider> = {
+  googleai: {
+    defaultModel: 'googleai/gemini-2.0-flash',
+    createPlugins: () => [googleAI({apiKey: process.env.GOOGLE_GENAI_API_KEY})],
+  },
+  mock: {
+    defaultModel: MOCK_MODEL,
+    createPlugins: () => [mockProvider()],
+  },
+};
+
+export interface ModelConfig {
+  providerId: ModelProviderId;
+  plugins: GenkitPlugin[];
+  model: string;
+}
+
+function isModelProviderId(value: string): value is ModelProviderId {
+  return value in MODEL_PROVIDERS;
+}
+
+export function resolveModelConfig(env: Record<string, string | undefined> = process.env): ModelConfig {
+  const providerId = env.AI_PROVIDER?.trim() || DEFAULT_MODEL_PROVIDER;
+  if (!isModelProviderId(providerId)) {
+    throw new Error(`Unknown AI_PROVIDER "${providerId}". Expected one of: ${Object.keys(MODEL_PROVIDERS).join(', ')}.`);
+  }
+  const provider = MODEL_PROVIDERS[providerId];
+  return {
+    providerId,
+    plugins: provider.createPlugins(),
+    model: env.AI_MODEL?.trim() || provider.defaultModel,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileOverview Request and response schemas for the analyzePrescription flow, shared by the
+ * server action and the REST API route.
+ *
+ * - AnalyzePrescriptionInputSchema / AnalyzePrescriptionInput - The prescription pages, in order, as image data URIs.
+ * - AnalyzePrescriptionOutputSchema / AnalyzePrescriptionOutput - Medications merged across the pages, instructions and the disclaimer.
+ * - PrescriptionMedicationSchema / PrescriptionMedication - A single medication and the pages it was found on.
+ * - AnalyzePrescriptionPageInputSchema / AnalyzePrescriptionPageOutputSchema - What the model reads and returns for one page.
+ * - MedicationSchema / PageMedication - A single medication extracted from one page, with how sure each field is.
+ * - MedicationFieldConfidenceSchema / MedicationFieldConfidence - A confidence score per extracted field.
+ * - MAX_PRESCRIPTION_PAGES - The most pages analyzed in one request.
+ */
+
+import {z} from 'genkit';
+
+export const MAX_PRESCRIPTION_PAGES = 10;
+
+const pageImageDataUri = z
+  .string()
+  .describe(
+    "A photo of a medical prescription page, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+  );
+
+// Input Schema
+export const AnalyzePrescriptionInputSchema = z.object({
+  prescriptionImageDataUris: z
+    .array(pageImageDataUri)
+    .min(1)
+    .max(MAX_PRESCRIPTION_PAGES)
+    .describe('The pages of the prescription or discharge sheet, in page order.'),
+});
+export type AnalyzePrescriptionInput = z.infer<typeof AnalyzePrescriptionInputSchema>;
+
+// Each page is read by the model on its own; the flow merges the results.
+export const AnalyzePrescriptionPageInputSchema = z.object({
+  prescriptionImageDataUri: pageImageDataUri,
+});
+
+// 0 means a guess, 1 means clearly printed or written
+const confidenceScore = z.number().min(0).max(1);
+
+export const MedicationFieldConfidenceSchema = z.object({
+    name: confidenceScore.describe('How sure the reading of the medication name is.'),
+    dosage: confidenceScore.describe('How sure the reading of the dosage is.'),
+    frequency: confidenceScore.optional().describe('How sure the reading of the frequency is. Omit when there is no frequency.'),
+    duration: confidenceScore.optional().describe('How sure the reading of the duration is. Omit when there is no duration.'),
+    notes: confidenceScore.optional().describe('How sure the reading of the notes is. Omit when there are no notes.'),
+});
+export type MedicationFieldConfidence = z.infer<typeof MedicationFieldConfidenceSchema>;
+
+// Schema for individual medication details
+export const MedicationSchema = z.object({
+    name: z.string().describe('The name of the medication.'),
+    dosage: z.string().describe('The dosage of the medication (e.g., "500mg", "1 tablet").'),
+    frequency: z.string().optional().describe('How often the medication should be taken (e.g., "twice a day", "before food").'),
+    duration: z.string().optional().describe('How long the medication should be taken for (e.g., "10 days", "until finished").'),
+    notes: z.string().optional().describe('Any other relevant instructions or notes for this specific medication.'),
+    confidence: MedicationFieldConfidenceSchema.describe('How sure the reading of each extracted field is, from 0 (a guess) to 1 (clearly printed or written).'),
+    uncertain: z.boolean().describe('True when any part of this medication may be misread, e.g. smudged handwriting or a name that resembles another drug.'),
+});
+export type PageMedication = z.infer<typeof MedicationSchema>;
+
+export const PrescriptionMedicationSchema = MedicationSchema.extend({
+    pages: z.array(z.number().int().min(1)).describe('The pages (1-based) the medication was found on.'),
+});
+export type PrescriptionMedication = z.infer<typeof PrescriptionMedicationSchema>;
+
+// Output of the model for a single page
+export const AnalyzePrescriptionPageOutputSchema = z.object({
+  medications: z.array(MedicationSchema)
+      .describe('An array containing details for each identified medication. If the image is unclear or not a prescription, this array should be empty.'),
+  overall_instructions: z.string().optional().describe('Any general instructions from the doctor not specific to a single medication.'),
+  legibility: confidenceScore.describe('How legible the page is as a whole, from 0 (unreadable) to 1 (clearly printed and in focus).'),
+  summary: z.string().describe('A brief confirmation that the prescription was analyzed, or a clear statement if it could not be analyzed (e.g., "Image unclear", "Not a prescription").'),
+  disclaimer: z.string().default(
+    '**Important Disclaimer:** This analysis is AI-generated and for informational purposes only. It is NOT a substitute for professional medical advice, diagnosis, or treatment. ALWAYS consult with a qualified healthcare provider or pharmacist regarding any medical condition or treatment. Do not disregard professional medical advice or delay in seeking it because of something you have read or interpreted from this AI-generated analysis. Reliance on any information provided by this AI is solely at your own risk.'
+  ).describe('Mandatory disclaimer.'),
+});
+export type AnalyzePrescriptionPageOutput = z.infer<typeof AnalyzePrescriptionPageOutputSchema>;
+
+// Output Schema
+export const AnalyzePrescriptionOutputSchema = AnalyzePrescriptionPageOutputSchema.extend({
+  medications: z.array(PrescriptionMedicationSchema)
+      .describe('Every medication found on any page, once each, with the pages it appears on.'),
+  legibility: confidenceScore.describe('Legibility of the least legible page, from 0 (unreadable) to 1 (clearly printed and in focus).'),
+});
+export type AnalyzePrescriptionOutput = z.infer<typeof AnalyzePrescriptionOutputSchema>;
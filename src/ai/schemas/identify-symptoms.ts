@@ -0,0 +1,42 @@
+/**
+ * @fileOverview Request and response schemas for the identifySymptoms flow, shared by the
+ * server action and the REST API route.
+ *
+ * - IdentifySymptomsInputSchema / IdentifySymptomsInput - Symptom keywords and optional profile context.
+ * - IdentifySymptomsOutputSchema / IdentifySymptomsOutput - Ranked candidate conditions.
+ * - PotentialConditionSchema / PotentialCondition - A single candidate condition.
+ * - IdentifySymptomsStreamSchema / PartialIdentifySymptomsOutput - The output so far, while it is streamed.
+ */
+
+import {z} from 'genkit';
+
+export const IdentifySymptomsInputSchema = z.object({
+  keywords: z
+    .string()
+    .describe('Keywords describing the symptoms experienced by the user, potentially including profile context (age, gender, pre-existing conditions).'),
+  profileContext: z
+    .string()
+    .optional()
+    .describe('Optional clinical profile: age, gender, conditions, drug allergies, current medications, pregnancy status, BMI, smoking and alcohol use.'),
+});
+export type IdentifySymptomsInput = z.infer<typeof IdentifySymptomsInputSchema>;
+
+// Schema for a single candidate condition
+export const PotentialConditionSchema = z.object({
+  name: z.string().describe('The name of the potential health condition.'),
+  likelihoodRank: z.number().int().min(1).describe('Rank of this condition by likelihood, where 1 is the most likely.'),
+  rationale: z.string().describe('A short (one or two sentence) explanation of why this condition fits the symptoms.'),
+  matchedSymptoms: z.array(z.string()).describe('The symptoms from the input that support this condition.'),
+  severity: z.enum(['mild', 'moderate', 'severe']).describe('Typical severity tier of this condition: "mild" (usually self-limiting), "moderate" (may need a doctor), "severe" (needs prompt medical attention).'),
+});
+export type PotentialCondition = z.infer<typeof PotentialConditionSchema>;
+
+export const IdentifySymptomsOutputSchema = z.object({
+  conditions: z
+    .array(PotentialConditionSchema)
+    .describe('The 2-3 most likely health conditions matching the symptoms and profile context (if provided), ordered by likelihoodRank.'),
+});
+export type IdentifySymptomsOutput = z.infer<typeof IdentifySymptomsOutputSchema>;
+
+export const IdentifySymptomsStreamSchema = IdentifySymptomsOutputSchema.deepPartial();
+export type PartialIdentifySymptomsOutput = z.infer<typeof IdentifySymptomsStreamSchema>;
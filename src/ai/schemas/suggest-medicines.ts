@@ -0,0 +1,87 @@
+/**
+ * @fileOverview Request and response schemas for the suggestMedicines flow, shared by the
+ * server action and the REST API route.
+ *
+ * - SuggestMedicinesInputSchema / SuggestMedicinesInput - The condition, profile context and structured safety profile.
+ * - SuggestMedicinesOutputSchema / SuggestMedicinesOutput - Filtered suggestions, exclusions and the disclaimer.
+ * - SuggestedMedicineSchema / SuggestedMedicine - A single suggested active ingredient.
+ */
+
+import {z} from 'genkit';
+
+export const MedicineSafetyProfileSchema = z.object({
+  age: z.number().optional().describe('Age in years.'),
+  weightKg: z.number().optional().describe('Weight in kilograms, used for children\'s doses.'),
+  drugAllergies: z.array(z.string()).describe('Drugs or drug classes the person is allergic to.'),
+  pregnancyStatus: z.enum(['not_pregnant', 'pregnant', 'breastfeeding']).optional(),
+  conditions: z.string().optional().describe('Pre-existing conditions, as free text.'),
+  currentMedications: z.array(z.string()).describe('Names of medications the person already takes.'),
+});
+
+export const SuggestedMedicineSchema = z.object({
+  activeIngredient: z
+    .string()
+    .describe('The generic active ingredient, e.g. "Ibuprofen". Combination products list every ingredient, e.g. "Acetaminophen and dextromethorphan".'),
+  purpose: z
+    .string()
+    .describe('What the medicine helps with for this condition, e.g. "Relieves pain and fever".'),
+  doseRange: z
+    .string()
+    .describe('Typical adult OTC dose range and interval, e.g. "200-400 mg every 4-6 hours".'),
+  maxDailyDose: z
+    .string()
+    .optional()
+    .describe('Maximum OTC dose in 24 hours, e.g. "1200 mg".'),
+  exampleBrands: z
+    .array(z.string())
+    .optional()
+    .describe('One or two common brand names, if widely known.'),
+});
+export type SuggestedMedicine = z.infer<typeof SuggestedMedicineSchema>;
+
+export const ExcludedMedicineSchema = z.object({
+  activeIngredient: z.string(),
+  reason: z.enum(['allergy', 'age', 'pregnancy', 'condition', 'interaction']),
+  explanation: z.string().describe('Why the suggestion was removed, in plain language.'),
+});
+
+export const SuggestMedicinesInputSchema = z.object({
+  healthCondition: z
+    .string()
+    .describe('The identified health condition for which medicine suggestions are needed.'),
+  profileContext: z
+    .string()
+    .optional()
+    .describe('Optional clinical profile of the person: age, gender, conditions, drug allergies, current medications, pregnancy status, BMI, smoking and alcohol use.'),
+  safetyProfile: MedicineSafetyProfileSchema
+    .optional()
+    .describe('Structured profile fields used to filter out unsafe suggestions after generation.'),
+});
+export type SuggestMedicinesInput = z.infer<typeof SuggestMedicinesInputSchema>;
+
+export const SuggestMedicinesOutputSchema = z.object({
+  medicines: z
+    .array(SuggestedMedicineSchema)
+    .describe('Suggested over-the-counter medicines that passed the safety filter.'),
+  notes: z
+    .string()
+    .optional()
+    .describe('General advice, or why no OTC medicine is appropriate.'),
+  excludedMedicines: z
+    .array(ExcludedMedicineSchema)
+    .describe('Suggestions removed by the safety filter, with the reason.'),
+  pediatricDosing: z
+    .object({
+      tableVersion: z.string(),
+      weightKg: z.number().optional(),
+      calculatedFor: z.array(z.string()),
+    })
+    .optional()
+    .describe('Present in pediatric mode: the dosing table version and which doses were calculated from weight.'),
+  disclaimer: z
+    .string()
+    .describe(
+      'A mandatory disclaimer stating this is not medical advice.'
+    ),
+});
+export type SuggestMedicinesOutput = z.infer<typeof SuggestMedicinesOutputSchema>;
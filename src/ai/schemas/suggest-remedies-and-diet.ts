@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Request and response schemas for the suggestRemediesAndDiet flow, shared by
+ * the server action and the REST API route.
+ *
+ * - SuggestRemediesAndDietInputSchema / SuggestRemediesAndDietInput - The condition, optional profile context and dietary preferences.
+ * - SuggestRemediesAndDietOutputSchema / SuggestRemediesAndDietOutput - Home remedies and the structured diet plan.
+ * - HomeRemedySchema / HomeRemedy - One remedy with its steps, frequency, evidence level and safety notes.
+ * - DietPlanSchema / DietPlan - Foods to eat and avoid, a sample meal schedule and hydration target.
+ * - SuggestRemediesAndDietStreamSchema / PartialSuggestRemediesAndDietOutput - The output so far, while it is streamed.
+ */
+
+import {z} from 'genkit';
+import {DIETARY_PREFERENCES} from '@/lib/user-profile';
+
+export const DietaryPreferenceSchema = z.enum(DIETARY_PREFERENCES);
+
+export const SuggestRemediesAndDietInputSchema = z.object({
+  healthCondition: z
+    .string()
+    .describe('The identified health condition for which remedies and diet are needed.'),
+  profileContext: z
+    .string()
+    .optional()
+    .describe('Optional clinical profile of the person: age, gender, conditions, drug allergies, current medications, pregnancy status, BMI, smoking and alcohol use.'),
+  dietaryPreferences: z
+    .array(DietaryPreferenceSchema)
+    .optional()
+    .describe('Dietary preferences every suggested food must respect.'),
+});
+export type SuggestRemediesAndDietInput = z.infer<typeof SuggestRemediesAndDietInputSchema>;
+
+export const EvidenceLevelSchema = z.enum(['strong', 'moderate', 'limited', 'traditional']);
+export type EvidenceLevel = z.infer<typeof EvidenceLevelSchema>;
+
+export const HomeRemedySchema = z.object({
+  name: z.string().describe('Short name of the remedy, e.g. "Warm salt water gargle".'),
+  steps: z.array(z.string()).describe('How to prepare and use it, one instruction per step.'),
+  frequency: z.string().describe('How often and for how long to use it, e.g. "3-4 times a day for up to a week".'),
+  evidenceLevel: EvidenceLevelSchema.describe(
+    'How well the remedy is supported: strong (consistent clinical trials), moderate (some trials), limited (small or mixed studies) or traditional (customary use only).'
+  ),
+  avoidIf: z.array(z.string()).describe('Who should not use it, e.g. "Children under 1 year", "People on blood thinners". Empty if nobody.'),
+  stopIf: z.string().describe('When to stop using it and see a doctor.'),
+});
+export type HomeRemedy = z.infer<typeof HomeRemedySchema>;
+
+export const FoodAdviceSchema = z.object({
+  food: z.string().describe('A food or drink, e.g. "Clear vegetable soup".'),
+  reason: z.string().describe('Why it helps, or why to avoid it, with this condition, in one sentence.'),
+});
+export type FoodAdvice = z.infer<typeof FoodAdviceSchema>;
+
+export const MealSchema = z.object({
+  meal: z.enum(['breakfast', 'lunch', 'dinner', 'snack']),
+  description: z.string().describe('What to eat, e.g. "Oat porridge with sliced banana".'),
+});
+export type Meal = z.infer<typeof MealSchema>;
+
+export const DietPlanSchema = z.object({
+  foodsToEat: z.array(FoodAdviceSchema).describe('4-8 foods and drinks that help with the condition.'),
+  foodsToAvoid: z.array(FoodAdviceSchema).describe('3-6 foods and drinks to avoid with the condition.'),
+  mealPlan: z
+    .array(z.object({
+      day: z.number().int().min(1).max(3),
+      meals: z.array(MealSchema),
+    }))
+    .describe('A sample meal schedule for 1-3 days, one entry per day.'),
+  hydration: z.object({
+    dailyLiters: z.number().describe('Target fluid intake per day, in litres.'),
+    tips: z.string().optional().describe('What and how to drink, e.g. "Sip warm fluids through the day".'),
+  }),
+});
+export type DietPlan = z.infer<typeof DietPlanSchema>;
+
+export const SuggestRemediesAndDietOutputSchema = z.object({
+  homeRemedies: z.array(HomeRemedySchema).describe('3-5 suggested home remedies.'),
+  dietPlan: DietPlanSchema,
+});
+export type SuggestRemediesAndDietOutput = z.infer<typeof SuggestRemediesAndDietOutputSchema>;
+
+export const SuggestRemediesAndDietStreamSchema = SuggestRemediesAndDietOutputSchema.deepPartial();
+export type PartialSuggestRemediesAndDietOutput = z.infer<typeof SuggestRemediesAndDietStreamSchema>;
+export type PartialDietPlan = NonNullable<PartialSuggestRemediesAndDietOutput['dietPlan']>;
+export type PartialHomeRemedy = NonNullable<PartialSuggestRemediesAndDietOutput['homeRemedies']>[number];
@@ -0,0 +1,10 @@
+import { suggestMedicines } from '@/ai/flows/suggest-medicines';
+import { SuggestMedicinesInputSchema } from '@/ai/schemas/suggest-medicines';
+import { createFlowRoute } from '@/lib/api/flow-route';
+
+// POST /api/v1/medicines - safety-filtered OTC medicine suggestions for a condition
+export const POST = createFlowRoute({
+  name: 'medicines',
+  schema: SuggestMedicinesInputSchema,
+  run: suggestMedicines,
+});
@@ -0,0 +1,12 @@
+import { analyzePrescription } from '@/ai/flows/analyze-prescription-flow';
+import { AnalyzePrescriptionInputSchema } from '@/ai/schemas/analyze-prescription';
+import { DEFAULT_MAX_BODY_BYTES, createFlowRoute } from '@/lib/api/flow-route';
+
+// POST /api/v1/prescription - medications extracted from the page images (data URIs) of a prescription
+export const POST = createFlowRoute({
+  name: 'prescription',
+  schema: AnalyzePrescriptionInputSchema,
+  run: analyzePrescription,
+  // A discharge sheet can be several pages
+  maxBodyBytes: 4 * DEFAULT_MAX_BODY_BYTES,
+});
@@ -0,0 +1,10 @@
+import { suggestRemediesAndDiet } from '@/ai/flows/suggest-remedies-and-diet';
+import { SuggestRemediesAndDietInputSchema } from '@/ai/schemas/suggest-remedies-and-diet';
+import { createFlowRoute } from '@/lib/api/flow-route';
+
+// POST /api/v1/remedies - home remedies and diet suggestions for a condition
+export const POST = createFlowRoute({
+  name: 'remedies',
+  schema: SuggestRemediesAndDietInputSchema,
+  run: suggestRemediesAndDiet,
+});
@@ -0,0 +1,10 @@
+import { streamSuggestRemediesAndDiet } from '@/ai/flows/suggest-remedies-and-diet';
+import { SuggestRemediesAndDietInputSchema } from '@/ai/schemas/suggest-remedies-and-diet';
+import { createFlowStreamRoute } from '@/lib/api/flow-route';
+
+// POST /api/v1/remedies/stream - home remedies and diet suggestions, streamed as they are generated
+export const POST = createFlowStreamRoute({
+  name: 'remedies/stream',
+  schema: SuggestRemediesAndDietInputSchema,
+  stream: streamSuggestRemediesAndDiet,
+});
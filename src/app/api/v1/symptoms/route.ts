@@ -0,0 +1,10 @@
+import { identifySymptoms } from '@/ai/flows/identify-symptoms';
+import { IdentifySymptomsInputSchema } from '@/ai/schemas/identify-symptoms';
+import { createFlowRoute } from '@/lib/api/flow-route';
+
+// POST /api/v1/symptoms - ranked candidate conditions for a symptom description
+export const POST = createFlowRoute({
+  name: 'symptoms',
+  schema: IdentifySymptomsInputSchema,
+  run: identifySymptoms,
+});
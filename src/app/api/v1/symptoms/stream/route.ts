@@ -0,0 +1,10 @@
+import { streamIdentifySymptoms } from '@/ai/flows/identify-symptoms';
+import { IdentifySymptomsInputSchema } from '@/ai/schemas/identify-symptoms';
+import { createFlowStreamRoute } from '@/lib/api/flow-route';
+
+// POST /api/v1/symptoms/stream - candidate conditions, streamed as they are generated
+export const POST = createFlowStreamRoute({
+  name: 'symptoms/stream',
+  schema: IdentifySymptomsInputSchema,
+  stream: streamIdentifySymptoms,
+});
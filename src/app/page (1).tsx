@@ -1,12 +1,12 @@
 
 'use client';
 
-import React, { useState, useTransition, useEffect, useRef } from 'react';
+import React, { useState, useTransition, useEffect, useRef, useMemo, useCallback } from 'react';
 import Image from 'next/image'; // Import next/image
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm, Controller } from 'react-hook-form'; // Added Controller
-import { z } from 'zod';
-import { Loader2, Sparkles, Stethoscope, Leaf, Utensils, Bookmark, Trash2, Info, User, Pill, ScanLine, Camera, Upload, FileText } from 'lucide-react'; // Added ScanLine, Camera, Upload, FileText
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Loader2, Sparkles, Stethoscope, Leaf, Utensils, Bookmark, Trash2, Info, User, Pill, ScanLine, Camera, Upload, FileText, CalendarPlus, X, RefreshCw } from 'lucide-react'; // Added ScanLine, Camera, Upload, FileText
 
 import { Button } from '@/components/ui/button';
 import {
@@ -22,153 +22,288 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Input } from "@/components/ui/input";
-import { identifySymptoms } from '@/ai/flows/identify-symptoms';
-import { suggestRemediesAndDiet } from '@/ai/flows/suggest-remedies-and-diet';
-import { suggestMedicines } from '@/ai/flows/suggest-medicines';
+import type { IdentifySymptomsOutput, PartialIdentifySymptomsOutput, PotentialCondition } from '@/ai/flows/identify-symptoms';
+import type { DietPlan, HomeRemedy, PartialDietPlan, PartialHomeRemedy, PartialSuggestRemediesAndDietOutput, SuggestRemediesAndDietOutput } from '@/ai/flows/suggest-remedies-and-diet';
+import { suggestMedicines, type SuggestMedicinesOutput } from '@/ai/flows/suggest-medicines';
+import { classifyUrgency, type ClassifyUrgencyOutput } from '@/ai/flows/classify-urgency';
+import { checkDrugInteractions } from '@/ai/flows/check-drug-interactions';
 import { analyzePrescription, type AnalyzePrescriptionOutput } from '@/ai/flows/analyze-prescription-flow'; // Removed AnalyzePrescriptionOutputSchema import
+import { MAX_PRESCRIPTION_PAGES } from '@/ai/schemas/analyze-prescription';
+import type { FlowResult } from '@/ai/flow-result';
 import { useToast } from "@/hooks/use-toast";
+import { useMedicationReminders } from '@/hooks/use-medication-reminders';
+import { useIdleTimer } from '@/hooks/use-idle-timer';
 import BottomNav from '@/components/BottomNav';
+import ProfileSwitcher from '@/components/ProfileSwitcher';
+import ClinicalProfileFields from '@/components/ClinicalProfileFields';
+import ConditionCards from '@/components/ConditionCards';
+import DietPlanner from '@/components/DietPlanner';
+import HomeRemedies from '@/components/HomeRemedies';
+import EmergencyGuidance from '@/components/EmergencyGuidance';
+import SymptomInterview from '@/components/SymptomInterview';
+import MedicineSuggestions from '@/components/MedicineSuggestions';
+import MedicationSchedulePanel from '@/components/MedicationSchedulePanel';
+import PdfPagePicker from '@/components/PdfPagePicker';
+import PrescriptionMedicationsTable from '@/components/PrescriptionMedicationsTable';
+import ScanPageList, { type ScanPage } from '@/components/ScanPageList';
+import SavedItemsView from '@/components/SavedItemsView';
+import StorageUsageIndicator from '@/components/StorageUsageIndicator';
+import EncryptionSettingsPanel from '@/components/EncryptionSettingsPanel';
+import LockScreen from '@/components/LockScreen';
+import { detectRedFlagsForAge, type RedFlagMatch } from '@/lib/red-flags';
+import { toMedicineSafetyProfile } from '@/lib/medicine-safety';
+import {
+  checkInteractions,
+  findKnownDrugsInText,
+  pairsMissingFromModelResults,
+  warningsFromModelResults,
+  type InteractionWarning,
+  type MedicationEntry,
+} from '@/lib/drug-interactions';
+import { getScanImageIds, type SavedItem } from '@/lib/saved-items';
+import { addReviewedMedication, createPrescriptionReview, toSavedMedications, type PrescriptionReview } from '@/lib/prescription-review';
+import { fetchFlowStream, type FlowStreamError } from '@/lib/api/flow-stream-client';
+import { FLOW_CACHE_TTL_MS, createRequestCache, requestCacheKey } from '@/lib/request-cache';
+import { createThumbnail, dataUriToBlob, preprocessScanImage, type PreprocessOptions } from '@/lib/image-utils';
+import { isPdfFile } from '@/lib/pdf-document';
+import { loadPdf } from '@/lib/pdf-render';
+import { UserProfileSchema, createProfileId, getActiveProfile, type HouseholdProfile, type UserProfile } from '@/lib/user-profile';
+import {
+  medicationSchedulesRepository,
+  profilesRepository,
+  savedItemsRepository,
+  scanImagesRepository,
+} from '@/lib/storage/repositories';
+import { migrateFromLocalStorage } from '@/lib/storage/local-storage-migration';
+import { deleteDatabase } from '@/lib/storage/database';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  isLocked as isStorageLocked,
+  loadEncryptionSettings,
+  lock,
+  setAutoLockMinutes,
+  unlock,
+  type EncryptionSettings,
+} from '@/lib/storage/encryption';
+import { createMedicationSchedule, logDose, type DoseStatus, type MedicationSchedule } from '@/lib/medication-schedule';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"; // Import Table components
-
-// ----- Zod Schemas -----
-const SymptomFormSchema = z.object({
-  symptoms: z.string().min(10, {
-    message: 'Please describe your symptoms in at least 10 characters.',
-  }),
-});
-
-const ProfileFormSchema = z.object({
-  name: z.string().min(1, { message: "Name is required."}),
-  age: z.coerce.number().min(1, { message: "Age must be positive."}).max(120, { message: "Age seems unlikely."}),
-  gender: z.enum(["male", "female", "other", "prefer_not_to_say"], {
-      required_error: "Please select a gender option."
-  }),
-  conditions: z.string().optional(),
-});
 
+// Blank profile form, for new household members
+const EMPTY_PROFILE: Partial<UserProfile> = {
+  name: '',
+  age: undefined,
+  gender: undefined,
+  conditions: '',
+  drugAllergies: [],
+  currentMedications: [],
+  pregnancyStatus: undefined,
+  heightCm: undefined,
+  weightKg: undefined,
+  smoking: undefined,
+  alcohol: undefined,
+  dietaryPreferences: [],
+};
+
+// Alert and toast titles for failed flows and rejected API requests; the message comes with the error
+const FLOW_ERROR_TITLES: Record<FlowStreamError['code'], string> = {
+  safety_blocked: 'Request Blocked',
+  schema_invalid: 'Incomplete Answer',
+  quota: 'Service Busy',
+  timeout: 'Request Timed Out',
+  unknown: 'Error',
+  invalid_json: 'Invalid Request',
+  validation_failed: 'Check Your Input',
+  payload_too_large: 'Request Too Large',
+  rate_limited: 'Too Many Requests',
+  model_output_invalid: 'Incomplete Answer',
+  model_quota_exceeded: 'Service Busy',
+  model_timeout: 'Request Timed Out',
+  internal_error: 'Error',
+};
+
+// Every streamed condition but the last one is complete, so those can be shown while the rest arrive.
+const completedConditions = (partial: PartialIdentifySymptomsOutput) =>
+  ((partial.conditions ?? []).slice(0, -1) as PotentialCondition[]).sort((a, b) => a.likelihoodRank - b.likelihoodRank);
+
+// Flow results for this session, reused across view switches; cleared when the app locks.
+const remediesCache = createRequestCache<SuggestRemediesAndDietOutput>({ ttlMs: FLOW_CACHE_TTL_MS });
+const medicinesCache = createRequestCache<FlowResult<SuggestMedicinesOutput>>({ ttlMs: FLOW_CACHE_TTL_MS, shouldCache: result => result.ok });
+
+// The flows only see the profile through the rest of their input, so that is what the key hashes.
+const flowCacheKey = ({ healthCondition, ...profileInputs }: { healthCondition: string; [input: string]: unknown }) =>
+  requestCacheKey(healthCondition, profileInputs);
 
 // ----- Type Definitions -----
-type SymptomFormData = z.infer<typeof SymptomFormSchema>;
-type ProfileFormData = z.infer<typeof ProfileFormSchema>;
-
 interface HealthInfo {
-  conditions: string;
-  remedies: string;
-  diet: string;
-}
-
-interface SavedItem {
-  id: string;
   condition: string;
-  remedies?: string;
-  diet?: string;
-  timestamp: number;
+  // Both partial while they are streaming
+  remedies: PartialHomeRemedy[];
+  dietPlan?: PartialDietPlan;
 }
 
-interface MedicineInfo {
-    suggestions: string;
-    disclaimer: string;
+// Result of the triage layer that runs ahead of every symptom analysis
+interface TriageResult {
+  urgency: ClassifyUrgencyOutput['urgency'];
+  redFlags: RedFlagMatch[];
+  reason?: string;
 }
 
-interface UserProfile extends ProfileFormData {}
+interface MedicineInfo extends SuggestMedicinesOutput {
+    // Set when the suggestions could not be loaded
+    failed?: boolean;
+}
 
 // Added 'scan' view
 type ActiveView = 'home' | 'saved' | 'meds' | 'profile' | 'scan';
 
+// Shown in place of suggestions when they could not be loaded
+const FAILED_MEDICINE_INFO: MedicineInfo = { medicines: [], excludedMedicines: [], notes: "Error loading suggestions.", disclaimer: "Please consult a healthcare professional.", failed: true };
+
+// An analysis with no medications, matching AnalyzePrescriptionOutput, so the scan view can show the error
+const failedPrescriptionAnalysis = (errorMessage: string): AnalyzePrescriptionOutput => ({
+  medications: [],
+  summary: `Analysis Error: ${errorMessage}`,
+  legibility: 0,
+  disclaimer: '**Important Disclaimer:** This analysis is AI-generated and for informational purposes only. It is NOT a substitute for professional medical advice, diagnosis, or treatment. ALWAYS consult with a qualified healthcare provider or pharmacist regarding any medical condition or treatment. Do not disregard professional medical advice or delay in seeking it because of something you have read or interpreted from this AI-generated analysis. Reliance on any information provided by this AI is solely at your own risk.',
+});
+
 
 // ----- Component -----
 export default function Home() {
   const [isPending, startTransition] = useTransition();
+  const [isRemediesPending, startRemediesTransition] = useTransition();
   const [isProfilePending, startProfileTransition] = useTransition();
   const [isMedicinePending, startMedicineTransition] = useTransition();
   const [isAnalyzingPrescription, startAnalyzingPrescriptionTransition] = useTransition(); // Added for prescription analysis
+  const [triageResult, setTriageResult] = useState<TriageResult | null>(null);
+  const [candidateConditions, setCandidateConditions] = useState<PotentialCondition[] | null>(null);
   const [healthInfo, setHealthInfo] = useState<HealthInfo | null>(null);
   const [medicineInfo, setMedicineInfo] = useState<MedicineInfo | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<FlowStreamError | null>(null);
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [profiles, setProfiles] = useState<HouseholdProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isAddingProfile, setIsAddingProfile] = useState(false); // Profile form creates a new household member
   const [activeView, setActiveView] = useState<ActiveView>('home');
   const [lastIdentifiedCondition, setLastIdentifiedCondition] = useState<string | null>(null);
+  const [interviewKey, setInterviewKey] = useState(0); // Bumped to restart the symptom interview
 
   // State for scanning feature
   const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
-  const [capturedImage, setCapturedImage] = useState<string | null>(null);
+  const [scanPages, setScanPages] = useState<ScanPage[]>([]); // Pages of the document being scanned, in order
+  const [isPreparingPages, setIsPreparingPages] = useState(false); // Newly added pages are being cropped and enhanced
+  const [pdfToPick, setPdfToPick] = useState<{ pdf: PDFDocumentProxy; fileName: string } | null>(null); // Uploaded PDF whose pages are being picked
   const [prescriptionAnalysis, setPrescriptionAnalysis] = useState<AnalyzePrescriptionOutput | null>(null); // Use the updated type
+  const [prescriptionReview, setPrescriptionReview] = useState<PrescriptionReview | null>(null); // The user's corrections to the analysis, and whether they verified it
+  const [otcMedicineNames, setOtcMedicineNames] = useState<string[]>([]); // Known drugs mentioned in the last OTC suggestions
+  const [modelInteractionWarnings, setModelInteractionWarnings] = useState<InteractionWarning[]>([]);
+  const [isCheckingInteractions, setIsCheckingInteractions] = useState(false);
+  // Pairs neither the dataset nor the model could check
+  const [notCheckedInteractionPairs, setNotCheckedInteractionPairs] = useState<[MedicationEntry, MedicationEntry][]>([]);
+  const [medicationSchedules, setMedicationSchedules] = useState<MedicationSchedule[]>([]);
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  const [encryptionSettings, setEncryptionSettings] = useState<EncryptionSettings>({ enabled: false, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES });
+  const [isLocked, setIsLocked] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null); // To hold the stream for stopping later
+  const generationRef = useRef<AbortController | null>(null); // In-flight streamed generation, for cancelling
 
   const { toast } = useToast();
 
-  // Forms
-  const symptomForm = useForm<SymptomFormData>({
-    resolver: zodResolver(SymptomFormSchema),
-    defaultValues: {
-      symptoms: '',
-    },
-  });
+  const { profile: userProfile, profileContext } = getActiveProfile(profiles, activeProfileId);
+  // Records saved before household profiles existed belong to no profile until one is active.
+  const activeSavedItems = useMemo(
+    () => savedItems.filter(item => (item.profileId ?? null) === activeProfileId),
+    [savedItems, activeProfileId]
+  );
+  const activeMedicationSchedules = useMemo(
+    () => medicationSchedules.filter(schedule => (schedule.profileId ?? null) === activeProfileId),
+    [medicationSchedules, activeProfileId]
+  );
 
-  const profileForm = useForm<ProfileFormData>({
-      resolver: zodResolver(ProfileFormSchema),
-      defaultValues: {
-        name: '',
-        age: undefined,
-        gender: undefined,
-        conditions: '',
-      },
+  // Forms
+  const profileForm = useForm<UserProfile>({
+      resolver: zodResolver(UserProfileSchema),
+      defaultValues: EMPTY_PROFILE,
     });
 
-  // ----- Effects for localStorage -----
-  useEffect(() => {
+  // ----- Effects for IndexedDB persistence -----
+  const loadStoredData = useCallback(async () => {
     try {
-      const storedItems = localStorage.getItem('healthWiseSavedItems');
-      if (storedItems) setSavedItems(JSON.parse(storedItems));
+      setSavedItems(await savedItemsRepository.getAll());
     } catch (e) { console.error("Failed to load saved items", e); }
 
     try {
-        const storedProfile = localStorage.getItem('healthWiseUserProfile');
-        if (storedProfile) {
-            const parsedProfile = JSON.parse(storedProfile);
-            setUserProfile(parsedProfile);
-            profileForm.reset(parsedProfile);
-        }
-    } catch (e) { console.error("Failed to load profile", e); }
+      const storedProfiles = await profilesRepository.getAll();
+      const storedActiveId = await profilesRepository.getActiveId();
+      const activeProfile = storedProfiles.find(profile => profile.id === storedActiveId) ?? storedProfiles[0];
+      setProfiles(storedProfiles);
+      if (activeProfile) {
+        setActiveProfileId(activeProfile.id);
+        profileForm.reset(activeProfile);
+      }
+    } catch (e) { console.error("Failed to load profiles", e); }
+
+    try {
+      setMedicationSchedules(await medicationSchedulesRepository.getAll());
+    } catch (e) { console.error("Failed to load medication schedules", e); }
+
+    setIsStorageLoaded(true);
   }, [profileForm]);
 
   useEffect(() => {
-    try {
-      if (savedItems.length > 0) {
-        localStorage.setItem('healthWiseSavedItems', JSON.stringify(savedItems));
+    (async () => {
+      try {
+        await migrateFromLocalStorage();
+      } catch (e) { console.error("Failed to migrate data from localStorage", e); }
+
+      try {
+        setEncryptionSettings(await loadEncryptionSettings());
+      } catch (e) { console.error("Failed to load encryption settings", e); }
+
+      if (isStorageLocked()) {
+        setIsLocked(true);
       } else {
-        localStorage.removeItem('healthWiseSavedItems');
+        await loadStoredData();
       }
-    } catch (e) { console.error("Failed to save items", e); }
-  }, [savedItems]);
+    })();
+  }, [loadStoredData]);
 
+  // Writes wait for the initial load so the empty initial state never overwrites stored data.
   useEffect(() => {
-    try {
-        if (userProfile) {
-            localStorage.setItem('healthWiseUserProfile', JSON.stringify(userProfile));
-        } else {
-             localStorage.removeItem('healthWiseUserProfile');
-        }
-    } catch (e) { console.error("Failed to save profile", e); }
-  }, [userProfile]);
+    if (!isStorageLoaded) return;
+    savedItemsRepository.replaceAll(savedItems).catch(e => console.error("Failed to save items", e));
+  }, [savedItems, isStorageLoaded]);
+
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    profilesRepository.replaceAll(profiles).catch(e => console.error("Failed to save profiles", e));
+  }, [profiles, isStorageLoaded]);
 
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    profilesRepository.setActiveId(activeProfileId).catch(e => console.error("Failed to save active profile", e));
+  }, [activeProfileId, isStorageLoaded]);
 
-  // Effect to handle 'meds' view change
-   useEffect(() => {
-    if (activeView === 'meds') {
-        if (lastIdentifiedCondition) {
-            fetchMedicineSuggestions(lastIdentifiedCondition);
-        } else {
-             setMedicineInfo(null);
-        }
-    } else {
-         setMedicineInfo(null); // Clear medicine info when leaving meds view
+  // Records from before household profiles are adopted by the first profile that becomes active.
+  useEffect(() => {
+    if (!isStorageLoaded || !activeProfileId) return;
+    if (savedItems.some(item => !item.profileId)) {
+      setSavedItems(prev => prev.map(item => item.profileId ? item : { ...item, profileId: activeProfileId }));
+    }
+    if (medicationSchedules.some(schedule => !schedule.profileId)) {
+      setMedicationSchedules(prev => prev.map(schedule => schedule.profileId ? schedule : { ...schedule, profileId: activeProfileId }));
     }
-   }, [activeView, lastIdentifiedCondition]);
+  }, [savedItems, medicationSchedules, activeProfileId, isStorageLoaded]);
+
+  useEffect(() => {
+    if (!isStorageLoaded) return;
+    medicationSchedulesRepository.replaceAll(medicationSchedules).catch(e => console.error("Failed to save medication schedules", e));
+  }, [medicationSchedules, isStorageLoaded]);
 
 
    // Effect for camera permission and cleanup
@@ -196,7 +331,8 @@ export default function Home() {
     // Only request permission if the scan view is active
     if (activeView === 'scan') {
       getCameraPermission();
-      setCapturedImage(null); // Reset captured image when entering scan view
+      setScanPages([]); // Reset scanned pages when entering scan view
+      setPdfToPick(null);
       setPrescriptionAnalysis(null); // Reset analysis when entering scan view
     }
 
@@ -213,37 +349,298 @@ export default function Home() {
     };
   }, [activeView, toast]); // Dependency array includes activeView
 
+  // pdf.js keeps the parsed document in a worker until it is destroyed.
+  useEffect(() => () => { pdfToPick?.pdf.destroy(); }, [pdfToPick]);
+
+
+  // ----- Encryption & lock -----
+  const unlockStorage = async (passphrase: string) => {
+    if (!(await unlock(passphrase))) return false;
+    setIsLocked(false);
+    await loadStoredData();
+    return true;
+  };
+
+  // Forgets the key and clears every piece of health data held in memory.
+  const lockStorage = useCallback(() => {
+    lock();
+    setIsStorageLoaded(false);
+    setSavedItems([]);
+    setProfiles([]);
+    setActiveProfileId(null);
+    setIsAddingProfile(false);
+    setMedicationSchedules([]);
+    profileForm.reset(EMPTY_PROFILE);
+    setTriageResult(null);
+    setCandidateConditions(null);
+    setHealthInfo(null);
+    setMedicineInfo(null);
+    setLastIdentifiedCondition(null);
+    setScanPages([]);
+    setPdfToPick(null);
+    setPrescriptionAnalysis(null);
+    setOtcMedicineNames([]);
+    remediesCache.invalidate();
+    medicinesCache.invalidate();
+    setActiveView('home');
+    setIsLocked(true);
+  }, [profileForm]);
+
+  useIdleTimer(encryptionSettings.autoLockMinutes * 60 * 1000, lockStorage, encryptionSettings.enabled && !isLocked);
+
+  const enableStorageEncryption = async (passphrase: string) => {
+    await enableEncryption(passphrase, encryptionSettings.autoLockMinutes);
+    setEncryptionSettings(prev => ({ ...prev, enabled: true }));
+    toast({ title: "Encryption Enabled", description: "Your health data is now encrypted on this device." });
+  };
+
+  const changeStoragePassphrase = async (currentPassphrase: string, nextPassphrase: string) => {
+    const changed = await changePassphrase(currentPassphrase, nextPassphrase);
+    if (changed) toast({ title: "Passphrase Changed", description: "Your data has been re-encrypted with the new passphrase." });
+    return changed;
+  };
+
+  const disableStorageEncryption = async (passphrase: string) => {
+    const disabled = await disableEncryption(passphrase);
+    if (disabled) {
+      setEncryptionSettings(prev => ({ ...prev, enabled: false }));
+      toast({ title: "Encryption Turned Off", description: "Your health data is no longer encrypted." });
+    }
+    return disabled;
+  };
+
+  const updateAutoLock = (minutes: number) => {
+    setEncryptionSettings(prev => ({ ...prev, autoLockMinutes: minutes }));
+    setAutoLockMinutes(minutes).catch(e => console.error("Failed to save auto-lock setting", e));
+  };
+
+  const eraseAllData = async () => {
+    try {
+      await deleteDatabase();
+      window.location.reload();
+    } catch (e) {
+      console.error("Failed to erase data", e);
+      toast({ variant: "destructive", title: "Erase Failed", description: "Could not erase your data. Close other tabs of this app and try again." });
+    }
+  };
+
+
+  // ----- Medication schedule & reminders -----
+  const logScheduledDose = (doseId: string, status: DoseStatus) => {
+    const scheduleId = doseId.split(':')[0];
+    setMedicationSchedules(prev => prev.map(schedule => schedule.id === scheduleId ? logDose(schedule, doseId, status) : schedule));
+  };
+
+  const completeCourse = (scheduleId: string) => {
+    const schedule = medicationSchedules.find(item => item.id === scheduleId);
+    setMedicationSchedules(prev => prev.map(item => item.id === scheduleId ? { ...item, completedAt: Date.now() } : item));
+    if (schedule) {
+      toast({ title: "Course Complete", description: `You have reached the end of your ${schedule.medicationName} course.` });
+    }
+  };
+
+  const { permission: notificationPermission, requestPermission: requestNotificationPermission, now: scheduleNow } = useMedicationReminders({
+    schedules: medicationSchedules,
+    ready: isStorageLoaded,
+    onDoseAction: logScheduledDose,
+    onCourseComplete: completeCourse,
+  });
+
+
+  // Every new analysis starts an unverified review of its medications
+  useEffect(() => {
+    setPrescriptionReview(prescriptionAnalysis ? createPrescriptionReview(prescriptionAnalysis.medications) : null);
+  }, [prescriptionAnalysis]);
+
+  // The prescription's medications as corrected by the user, once verified; nothing is acted on before that
+  const verifiedMedications = useMemo(
+    () => (prescriptionReview?.verifiedAt ? toSavedMedications(prescriptionReview) : null),
+    [prescriptionReview]
+  );
+
+  // ----- Drug interaction checks -----
+  // Every medication from the verified prescription, the profile and the last OTC suggestions
+  const medicationEntries = useMemo<MedicationEntry[]>(() => {
+    if (!verifiedMedications || verifiedMedications.length === 0) return [];
+    const profileMedications = userProfile?.currentMedications ?? [];
+    return [
+      ...verifiedMedications.map(med => ({ name: med.name, source: 'prescription' as const })),
+      ...profileMedications.map(med => ({ name: med.name, source: 'profile' as const })),
+      ...otcMedicineNames.map(name => ({ name, source: 'otc' as const })),
+    ];
+  }, [verifiedMedications, userProfile?.currentMedications, otcMedicineNames]);
+
+  const datasetInteractionCheck = useMemo(() => checkInteractions(medicationEntries), [medicationEntries]);
+  const interactionWarnings = useMemo(
+    () => [...datasetInteractionCheck.warnings, ...modelInteractionWarnings],
+    [datasetInteractionCheck, modelInteractionWarnings]
+  );
+
+  // The model is only consulted for pairs the bundled dataset could not resolve
+  useEffect(() => {
+    setModelInteractionWarnings([]);
+    setNotCheckedInteractionPairs([]);
+    const { uncheckedPairs } = datasetInteractionCheck;
+    if (uncheckedPairs.length === 0) return;
+
+    let cancelled = false;
+    setIsCheckingInteractions(true);
+    checkDrugInteractions({ pairs: uncheckedPairs.map(([first, second]) => ({ drugA: first.name, drugB: second.name })) })
+      .then(result => {
+        if (cancelled) return;
+        if (!result.ok) {
+          console.error('Error checking drug interactions:', result.error.message);
+          setNotCheckedInteractionPairs(uncheckedPairs);
+          return;
+        }
+        setModelInteractionWarnings(warningsFromModelResults(uncheckedPairs, result.data.interactions));
+        setNotCheckedInteractionPairs(pairsMissingFromModelResults(uncheckedPairs, result.data.interactions));
+      })
+      .catch(e => {
+        console.error('Error checking drug interactions:', e);
+        if (!cancelled) setNotCheckedInteractionPairs(uncheckedPairs);
+      })
+      .finally(() => {
+        if (!cancelled) setIsCheckingInteractions(false);
+      });
+    return () => {
+      cancelled = true;
+      setIsCheckingInteractions(false);
+    };
+  }, [datasetInteractionCheck]);
+
 
   // ----- API Call Functions -----
-  async function onSubmitSymptoms(data: SymptomFormData) {
+
+  // Starts a streamed generation, cancelling the one in flight
+  const startGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = new AbortController();
+    return generationRef.current.signal;
+  };
+
+  // Partial results are incomplete, so they are dropped rather than left on screen.
+  const cancelGeneration = () => {
+    generationRef.current?.abort();
+    generationRef.current = null;
+    if (isRemediesPending) {
+      setHealthInfo(null);
+      setLastIdentifiedCondition(null);
+    } else {
+      setTriageResult(null);
+      setCandidateConditions(null);
+    }
+  };
+
+  // The inline alert belongs to the symptom check; flows in other views only get the toast.
+  const showFlowError = useCallback((flowError: FlowStreamError, { inline = true }: { inline?: boolean } = {}) => {
+    if (inline) setError(flowError);
+    toast({ variant: "destructive", title: FLOW_ERROR_TITLES[flowError.code], description: flowError.message });
+  }, [toast]);
+
+  // Called with the structured summary once the symptom interview has enough information
+  async function onSubmitSymptoms(symptoms: string) {
     setError(null);
+    setTriageResult(null);
+    setCandidateConditions(null);
     setHealthInfo(null);
     setMedicineInfo(null);
     setLastIdentifiedCondition(null);
 
+    // Deterministic red-flag rules run first and short-circuit without calling the model.
+    // Child profiles also get the pediatric rules.
+    const redFlags = detectRedFlagsForAge(symptoms, userProfile?.age);
+    if (redFlags.length > 0) {
+      setTriageResult({ urgency: 'emergency', redFlags });
+      return;
+    }
+
     startTransition(async () => {
+      const signal = startGeneration();
       try {
-        const contextKeywords = userProfile ?
-        `Symptoms: ${data.symptoms}. Profile context: Age ${userProfile.age}, Gender ${userProfile.gender}${userProfile.conditions ? `, Pre-existing conditions: ${userProfile.conditions}` : ''}.`
-        : data.symptoms;
+        const contextKeywords = profileContext ? `Symptoms: ${symptoms}. Profile context: ${profileContext}.` : symptoms;
 
 
-        const symptomsResult = await identifySymptoms({ keywords: contextKeywords });
-        if (!symptomsResult || !symptomsResult.conditions) {
+        const urgencyResult = await classifyUrgency({ keywords: contextKeywords });
+        if (signal.aborted) return;
+        if (!urgencyResult.ok) {
+          showFlowError(urgencyResult.error);
+          return;
+        }
+        const { urgency, reason } = urgencyResult.data;
+        setTriageResult({ urgency, reason, redFlags: [] });
+        if (urgency === 'emergency') {
+          return;
+        }
+
+        const symptomsResult = await fetchFlowStream<IdentifySymptomsOutput, PartialIdentifySymptomsOutput>(
+          '/api/v1/symptoms/stream',
+          { keywords: symptoms, profileContext },
+          { signal, onPartial: partial => setCandidateConditions(completedConditions(partial)) }
+        );
+        if (!symptomsResult.ok) {
+          showFlowError(symptomsResult.error);
+          return;
+        }
+        if (symptomsResult.data.conditions.length === 0) {
           throw new Error('Could not identify potential conditions. Please try rephrasing your symptoms.');
         }
-        const identifiedCondition = symptomsResult.conditions;
-        setLastIdentifiedCondition(identifiedCondition);
+        setCandidateConditions(symptomsResult.data.conditions);
+
+        toast({
+          title: "Conditions Identified",
+          description: "Select the condition that fits best to see remedies and diet suggestions.",
+        });
 
-        const remediesDietResult = await suggestRemediesAndDiet({ healthCondition: identifiedCondition });
-        if (!remediesDietResult || !remediesDietResult.homeRemedies || !remediesDietResult.dietSuggestions) {
-           throw new Error('Could not fetch remedies and diet suggestions. Please try again.');
+      } catch (e: any) {
+        if (signal.aborted) return;
+        console.error('Error during health check:', e);
+        showFlowError({ code: 'unknown', message: e instanceof Error ? e.message : 'An unexpected error occurred. Please try again.' });
+      }
+    });
+  }
+
+  // Runs the downstream flows against the condition the user picked
+  async function onSelectCondition(condition: PotentialCondition) {
+    if (condition.name === lastIdentifiedCondition) return;
+    setError(null);
+    setHealthInfo(null);
+    setMedicineInfo(null);
+    setLastIdentifiedCondition(condition.name);
+
+    const remediesInput = { healthCondition: condition.name, profileContext, dietaryPreferences: userProfile?.dietaryPreferences };
+    const cachedRemedies = remediesCache.get(flowCacheKey(remediesInput));
+    if (cachedRemedies) {
+      setHealthInfo({ condition: condition.name, remedies: cachedRemedies.homeRemedies, dietPlan: cachedRemedies.dietPlan });
+      return;
+    }
+
+    startRemediesTransition(async () => {
+      const signal = startGeneration();
+      try {
+        const remediesDietResult = await fetchFlowStream<SuggestRemediesAndDietOutput, PartialSuggestRemediesAndDietOutput>(
+          '/api/v1/remedies/stream',
+          remediesInput,
+          {
+            signal,
+            onPartial: partial => setHealthInfo({
+              condition: condition.name,
+              remedies: partial.homeRemedies ?? [],
+              dietPlan: partial.dietPlan,
+            }),
+          }
+        );
+        if (!remediesDietResult.ok) {
+          setHealthInfo(null);
+          showFlowError(remediesDietResult.error);
+          return;
         }
+        remediesCache.set(flowCacheKey(remediesInput), remediesDietResult.data);
 
         setHealthInfo({
-          conditions: identifiedCondition,
-          remedies: remediesDietResult.homeRemedies,
-          diet: remediesDietResult.dietSuggestions,
+          condition: condition.name,
+          remedies: remediesDietResult.data.homeRemedies,
+          dietPlan: remediesDietResult.data.dietPlan,
         });
 
         toast({
@@ -252,25 +649,99 @@ export default function Home() {
         });
 
       } catch (e: any) {
-        console.error('Error during health check:', e);
-        const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred. Please try again.';
-        setError(errorMessage);
-        toast({
-          variant: "destructive",
-          title: "Error",
-          description: errorMessage,
-        });
+        if (signal.aborted) return;
+        setHealthInfo(null);
+        console.error('Error fetching remedies and diet:', e);
+        showFlowError({ code: 'unknown', message: e instanceof Error ? e.message : 'An unexpected error occurred. Please try again.' });
       }
     });
   }
 
-  async function onSubmitProfile(data: ProfileFormData) {
+  const onInterviewRedFlags = (redFlags: RedFlagMatch[]) => {
+    setError(null);
+    setCandidateConditions(null);
+    setHealthInfo(null);
+    setMedicineInfo(null);
+    setLastIdentifiedCondition(null);
+    setTriageResult({ urgency: 'emergency', redFlags });
+  };
+
+  const resetTriage = () => {
+    generationRef.current?.abort();
+    setError(null);
+    setTriageResult(null);
+    setCandidateConditions(null);
+    setHealthInfo(null);
+    setLastIdentifiedCondition(null);
+  };
+
+  // ----- Household profiles -----
+  // Results on screen belong to the previous profile, so they are cleared on every switch.
+  const switchProfile = (profileId: string, profile = profiles.find(item => item.id === profileId)) => {
+    if (!profile) return;
+    generationRef.current?.abort();
+    setActiveProfileId(profileId);
+    setIsAddingProfile(false);
+    profileForm.reset(profile);
+    setError(null);
+    setTriageResult(null);
+    setCandidateConditions(null);
+    setHealthInfo(null);
+    setMedicineInfo(null);
+    setLastIdentifiedCondition(null);
+    setOtcMedicineNames([]);
+    setPrescriptionAnalysis(null);
+    setScanPages([]);
+    setPdfToPick(null);
+    setInterviewKey(key => key + 1);
+  };
+
+  const startAddingProfile = () => {
+    setIsAddingProfile(true);
+    profileForm.reset(EMPTY_PROFILE);
+    setActiveView('profile');
+  };
+
+  const cancelAddingProfile = () => {
+    setIsAddingProfile(false);
+    profileForm.reset(userProfile ?? undefined);
+  };
+
+  // Removes the profile together with its saved items, scans and medication schedules.
+  const removeProfile = (profileId: string) => {
+    const profile = profiles.find(item => item.id === profileId);
+    if (!profile || !window.confirm(`Remove ${profile.name}'s profile and all of their saved items and medication schedules?`)) return;
+    savedItems.forEach(item => {
+      if (item.profileId === profileId && item.type === 'prescription_scan') {
+        getScanImageIds(item).forEach(imageId => scanImagesRepository.delete(imageId).catch(e => console.error("Failed to delete scan image", e)));
+      }
+    });
+    setSavedItems(prev => prev.filter(item => item.profileId !== profileId));
+    setMedicationSchedules(prev => prev.filter(schedule => schedule.profileId !== profileId));
+    const remainingProfiles = profiles.filter(item => item.id !== profileId);
+    setProfiles(remainingProfiles);
+    if (remainingProfiles.length > 0) {
+      switchProfile(remainingProfiles[0].id, remainingProfiles[0]);
+    } else {
+      setActiveProfileId(null);
+      profileForm.reset(EMPTY_PROFILE);
+    }
+    toast({ title: "Profile Removed", description: `${profile.name}'s profile has been removed.` });
+  };
+
+  async function onSubmitProfile(data: UserProfile) {
      startProfileTransition(async () => {
         try {
-            setUserProfile(data);
+            if (isAddingProfile || !userProfile) {
+              const profile = { ...data, id: createProfileId() };
+              setProfiles(prev => [...prev, profile]);
+              switchProfile(profile.id, profile);
+            } else {
+              setProfiles(prev => prev.map(profile => profile.id === userProfile.id ? { ...data, id: profile.id } : profile));
+            }
             toast({
                 title: "Profile Saved",
-                description: "Your profile information has been updated.",
+                description: `${data.name}'s profile has been saved.`,
             });
              setActiveView('home');
 
@@ -285,52 +756,78 @@ export default function Home() {
      });
   }
 
-  async function fetchMedicineSuggestions(condition: string) {
-    setMedicineInfo(null);
+  // isCurrent guards against a slower, older request overwriting the suggestions on screen.
+  const fetchMedicineSuggestions = useCallback((condition: string, isCurrent: () => boolean = () => true) => {
+    const input = {
+        healthCondition: condition,
+        profileContext,
+        safetyProfile: userProfile ? toMedicineSafetyProfile(userProfile) : undefined,
+    };
+    if (!medicinesCache.get(flowCacheKey(input))) setMedicineInfo(null);
     startMedicineTransition(async () => {
         try {
-            const result = await suggestMedicines({ healthCondition: condition });
-            if (!result || !result.suggestedMedicines || !result.disclaimer) {
-                throw new Error("Could not fetch medicine suggestions.");
+            const result = await medicinesCache.getOrLoad(flowCacheKey(input), () => suggestMedicines(input));
+            if (!isCurrent()) return;
+            if (!result.ok) {
+                showFlowError(result.error);
+                setMedicineInfo(FAILED_MEDICINE_INFO);
+                return;
             }
-            setMedicineInfo({
-                suggestions: result.suggestedMedicines,
-                disclaimer: result.disclaimer,
-            });
+            setMedicineInfo(result.data);
+            setOtcMedicineNames(findKnownDrugsInText(result.data.medicines.map(medicine => medicine.activeIngredient).join(', ')).map(drug => drug.id));
         } catch (e: any) {
+             if (!isCurrent()) return;
              console.error("Error fetching medicine suggestions:", e);
             toast({
                 variant: "destructive",
                 title: "Medicine Suggestion Error",
                 description: e.message || "Failed to load medicine suggestions."
             });
-            setMedicineInfo({suggestions: "Error loading suggestions.", disclaimer: "Please consult a healthcare professional."});
+            setMedicineInfo(FAILED_MEDICINE_INFO);
         }
     });
-  }
+  }, [profileContext, userProfile, showFlowError, toast]);
+
+  // Medicine suggestions load as soon as a condition is picked, alongside the remedies, and stay
+  // loaded across view switches.
+  useEffect(() => {
+    if (!lastIdentifiedCondition) {
+        setMedicineInfo(null);
+        return;
+    }
+    let isCurrent = true;
+    fetchMedicineSuggestions(lastIdentifiedCondition, () => isCurrent);
+    return () => { isCurrent = false; };
+  }, [lastIdentifiedCondition, fetchMedicineSuggestions]);
+
+  // Drops the cached suggestions for the current condition and asks the model again
+  const refreshMedicineSuggestions = () => {
+    if (!lastIdentifiedCondition) return;
+    medicinesCache.invalidate(flowCacheKey({ healthCondition: lastIdentifiedCondition, profileContext, safetyProfile: userProfile ? toMedicineSafetyProfile(userProfile) : undefined }));
+    fetchMedicineSuggestions(lastIdentifiedCondition);
+  };
 
   // Function to process the captured/uploaded image
   async function handleProcessImage() {
-    if (!capturedImage) {
-      toast({ variant: "destructive", title: "No Image", description: "Please capture or upload an image first."});
+    if (scanPages.length === 0) {
+      toast({ variant: "destructive", title: "No Image", description: "Please capture or upload at least one page first."});
       return;
     }
     setPrescriptionAnalysis(null);
     startAnalyzingPrescriptionTransition(async () => {
       try {
-        const result = await analyzePrescription({ prescriptionImageDataUri: capturedImage });
-        setPrescriptionAnalysis(result); // Set the structured result
-        toast({ title: "Analysis Complete", description: result.summary || "Prescription analysis finished."});
+        const result = await analyzePrescription({ prescriptionImageDataUris: scanPages.map(page => page.processed) });
+        if (!result.ok) {
+          showFlowError(result.error, { inline: false });
+          setPrescriptionAnalysis(failedPrescriptionAnalysis(result.error.message));
+          return;
+        }
+        setPrescriptionAnalysis(result.data); // Set the structured result
+        toast({ title: "Analysis Complete", description: result.data.summary || "Prescription analysis finished."});
       } catch (e: any) {
         console.error("Error analyzing prescription:", e);
         const errorMessage = e instanceof Error ? e.message : 'An unexpected error occurred during analysis.';
-        // Set a default error structure matching AnalyzePrescriptionOutput
-        const defaultDisclaimerText = '**Important Disclaimer:** This analysis is AI-generated and for informational purposes only. It is NOT a substitute for professional medical advice, diagnosis, or treatment. ALWAYS consult with a qualified healthcare provider or pharmacist regarding any medical condition or treatment. Do not disregard professional medical advice or delay in seeking it because of something you have read or interpreted from this AI-generated analysis. Reliance on any information provided by this AI is solely at your own risk.';
-        setPrescriptionAnalysis({
-            medications: [],
-            summary: `Analysis Error: ${errorMessage}`,
-            disclaimer: defaultDisclaimerText,
-        });
+        setPrescriptionAnalysis(failedPrescriptionAnalysis(errorMessage));
         toast({
             variant: "destructive",
             title: "Analysis Error",
@@ -344,29 +841,93 @@ export default function Home() {
   // ----- Helper Functions -----
   const saveCurrentInfo = () => {
     if (!healthInfo) return;
-    const newItem: SavedItem = {
-      id: Date.now().toString(),
-      condition: healthInfo.conditions,
-      remedies: healthInfo.remedies,
-      diet: healthInfo.diet,
-      timestamp: Date.now(),
-    };
-    const isDuplicate = savedItems.some(item => item.condition === newItem.condition && item.remedies === newItem.remedies && item.diet === newItem.diet);
+    const isDuplicate = activeSavedItems.some(item => item.type === 'symptom_check' && item.condition === healthInfo.condition && JSON.stringify(item.homeRemedies) === JSON.stringify(healthInfo.remedies) && JSON.stringify(item.dietPlan) === JSON.stringify(healthInfo.dietPlan));
     if (isDuplicate) {
       toast({ variant: "destructive", title: "Already Saved", description: "These suggestions are already saved." });
       return;
     }
-    setSavedItems(prevItems => [newItem, ...prevItems]);
+    setSavedItems(prevItems => [{
+      type: 'symptom_check',
+      id: Date.now().toString(),
+      profileId: activeProfileId ?? undefined,
+      condition: healthInfo.condition,
+      // Saving is disabled until the suggestions have finished streaming, so they are complete here
+      homeRemedies: healthInfo.remedies as HomeRemedy[],
+      dietPlan: healthInfo.dietPlan as DietPlan | undefined,
+      timestamp: Date.now(),
+    }, ...prevItems]);
     toast({ title: "Saved!", description: "Health suggestions saved." });
   };
 
+  const saveMedicineSuggestion = () => {
+    if (!medicineInfo || !lastIdentifiedCondition) return;
+    const isDuplicate = activeSavedItems.some(item => item.type === 'medicine_suggestion' && item.condition === lastIdentifiedCondition && JSON.stringify(item.medicines) === JSON.stringify(medicineInfo.medicines));
+    if (isDuplicate) {
+      toast({ variant: "destructive", title: "Already Saved", description: "These medicine suggestions are already saved." });
+      return;
+    }
+    setSavedItems(prevItems => [{
+      type: 'medicine_suggestion',
+      id: Date.now().toString(),
+      profileId: activeProfileId ?? undefined,
+      condition: lastIdentifiedCondition,
+      medicines: medicineInfo.medicines,
+      excludedMedicines: medicineInfo.excludedMedicines,
+      notes: medicineInfo.notes,
+      pediatricDosing: medicineInfo.pediatricDosing,
+      disclaimer: medicineInfo.disclaimer,
+      timestamp: Date.now(),
+    }, ...prevItems]);
+    toast({ title: "Saved!", description: "Medicine suggestions saved." });
+  };
+
+  const savePrescriptionAnalysis = async () => {
+    if (!prescriptionAnalysis) return;
+    if (!verifiedMedications || !prescriptionReview?.verifiedAt) {
+      toast({ variant: "destructive", title: "Not Verified", description: "Check the medications against your prescription and verify them before saving." });
+      return;
+    }
+    const isDuplicate = activeSavedItems.some(item => item.type === 'prescription_scan' && JSON.stringify(item.medications) === JSON.stringify(verifiedMedications) && item.summary === prescriptionAnalysis.summary);
+    if (isDuplicate) {
+      toast({ variant: "destructive", title: "Already Saved", description: "This prescription analysis is already saved." });
+      return;
+    }
+    let thumbnail: string | undefined;
+    let imageIds: string[] | undefined;
+    if (scanPages.length > 0) {
+      try {
+        thumbnail = await createThumbnail(scanPages[0].processed);
+      } catch (e) { console.error("Failed to create scan thumbnail", e); }
+      try {
+        imageIds = await Promise.all(scanPages.map(async page => scanImagesRepository.put(await dataUriToBlob(page.processed))));
+      } catch (e) { console.error("Failed to store scan images", e); }
+    }
+    setSavedItems(prevItems => [{
+      type: 'prescription_scan',
+      id: Date.now().toString(),
+      profileId: activeProfileId ?? undefined,
+      thumbnail,
+      imageIds,
+      summary: prescriptionAnalysis.summary,
+      medications: verifiedMedications,
+      overallInstructions: prescriptionAnalysis.overall_instructions,
+      verifiedAt: prescriptionReview.verifiedAt,
+      timestamp: Date.now(),
+    }, ...prevItems]);
+    toast({ title: "Saved!", description: "Prescription analysis saved to your medication history." });
+  };
+
   const removeSavedItem = (idToRemove: string) => {
+    const item = savedItems.find(savedItem => savedItem.id === idToRemove);
+    if (item?.type === 'prescription_scan') {
+      getScanImageIds(item).forEach(imageId => scanImagesRepository.delete(imageId).catch(e => console.error("Failed to delete scan image", e)));
+    }
     setSavedItems(prevItems => prevItems.filter(item => item.id !== idToRemove));
     toast({ title: "Removed", description: "Saved item removed." });
   };
 
   // Function to capture image from video stream
-  const captureImage = () => {
+  const captureImage = async () => {
     if (videoRef.current && canvasRef.current && hasCameraPermission) {
       const video = videoRef.current;
       const canvas = canvasRef.current;
@@ -375,37 +936,133 @@ export default function Home() {
       const context = canvas.getContext('2d');
       if (context) {
         context.drawImage(video, 0, 0, video.videoWidth, video.videoHeight);
-        const dataUri = canvas.toDataURL('image/png');
-        setCapturedImage(dataUri);
-        setPrescriptionAnalysis(null); // Clear previous analysis on new capture
-        toast({ title: "Image Captured", description: "Document scan captured successfully." });
+        const dataUri = canvas.toDataURL('image/jpeg', 0.92);
+        await addScanPages([dataUri]);
+        toast({ title: "Page Captured", description: `Page ${scanPages.length + 1} captured. Capture the next page or analyze the document.` });
       }
     } else {
         toast({ variant: "destructive", title: "Capture Error", description: "Could not capture image. Ensure camera access is enabled." });
     }
   };
 
-  // Function to handle file input change (alternative to camera)
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  // Appends pages to the document being scanned, up to the page limit, after cropping and enhancing them.
+  // A page that cannot be processed is kept as it is. Any change to the pages invalidates the analysis.
+  const addScanPages = async (pages: string[], options?: PreprocessOptions) => {
+    const room = MAX_PRESCRIPTION_PAGES - scanPages.length;
+    if (pages.length > room) {
+      toast({ variant: "destructive", title: "Too Many Pages", description: `A document can have at most ${MAX_PRESCRIPTION_PAGES} pages.` });
+    }
+    if (room <= 0) return;
+    setIsPreparingPages(true);
+    try {
+      // One page at a time keeps memory use down on phones
+      const prepared: ScanPage[] = [];
+      for (const original of pages.slice(0, room)) {
+        let processed = original;
+        try {
+          processed = await preprocessScanImage(original, options);
+        } catch (e) { console.error("Failed to preprocess scanned page", e); }
+        prepared.push({ original, processed });
+      }
+      setScanPages(prev => [...prev, ...prepared].slice(0, MAX_PRESCRIPTION_PAGES));
+      setPrescriptionAnalysis(null);
+    } finally {
+      setIsPreparingPages(false);
+    }
+  };
+
+  const moveScanPage = (from: number, to: number) => {
+    setScanPages(prev => {
+      const next = [...prev];
+      const [page] = next.splice(from, 1);
+      next.splice(to, 0, page);
+      return next;
+    });
+    setPrescriptionAnalysis(null);
+  };
+
+  const removeScanPage = (index: number) => {
+    setScanPages(prev => prev.filter((_, pageIndex) => pageIndex !== index));
+    setPrescriptionAnalysis(null);
+  };
+
+  // Function to handle file input change (alternative to camera); several images become pages in the order selected,
+  // while a PDF opens the page picker
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Allow picking the same file again
+    const pdfFiles = files.filter(isPdfFile);
+    const imageFiles = files.filter(file => !isPdfFile(file));
+    if (pdfFiles.length > 0) {
+      if (pdfFiles.length > 1) {
+        toast({ variant: "destructive", title: "One PDF at a Time", description: `Only ${pdfFiles[0].name} was opened. Upload the other PDFs after adding its pages.` });
+      }
+      openPdf(pdfFiles[0]);
+    }
+    if (imageFiles.length === 0) return;
+    try {
+      const pages = await Promise.all(imageFiles.map(file => new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
-        reader.onloadend = () => {
-            setCapturedImage(reader.result as string);
-            setPrescriptionAnalysis(null); // Clear previous analysis on new upload
-            toast({ title: "Image Uploaded", description: "Document uploaded successfully." });
-        }
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
         reader.readAsDataURL(file);
+      })));
+      await addScanPages(pages);
+      toast({ title: "Image Uploaded", description: `${pages.length} page(s) added.` });
+    } catch (e) {
+      console.error("Failed to read uploaded image", e);
+      toast({ variant: "destructive", title: "Upload Error", description: "Could not read the selected image." });
+    }
+  };
+
+  const openPdf = async (file: File) => {
+    setPdfToPick(null);
+    const result = await loadPdf(file);
+    if (!result.ok) {
+      toast({ variant: "destructive", title: "Cannot Use This PDF", description: result.error.message });
+      return;
     }
+    setPdfToPick({ pdf: result.pdf, fileName: file.name });
+  };
+
+  const addPdfPages = async (pages: string[]) => {
+    // Rendered PDF pages are already flat and cropped
+    await addScanPages(pages, { detectDocument: false });
+    setPdfToPick(null);
+    toast({ title: "PDF Pages Added", description: `${pages.length} page(s) added.` });
+  };
+
+  const addPrescriptionToSchedule = () => {
+    if (!verifiedMedications || verifiedMedications.length === 0) return;
+    const activeNames = new Set(activeMedicationSchedules.filter(schedule => !schedule.completedAt).map(schedule => schedule.medicationName.toLowerCase()));
+    const newSchedules = verifiedMedications
+      .filter(med => !activeNames.has(med.name.toLowerCase()))
+      .map(med => ({ ...createMedicationSchedule(med), profileId: activeProfileId ?? undefined }));
+    if (newSchedules.length === 0) {
+      toast({ variant: "destructive", title: "Already Scheduled", description: "These medications are already in your schedule." });
+      return;
+    }
+    setMedicationSchedules(prev => [...newSchedules, ...prev]);
+    toast({ title: "Added to Schedule", description: `${newSchedules.length} medication(s) added. Open Meds to track your doses.` });
+  };
+
+  const removeMedicationSchedule = (scheduleId: string) => {
+    setMedicationSchedules(prev => prev.filter(schedule => schedule.id !== scheduleId));
+    toast({ title: "Removed", description: "Medication removed from your schedule." });
   };
 
   const resetScanView = () => {
-    setCapturedImage(null);
+    setScanPages([]);
+    setPdfToPick(null);
     setPrescriptionAnalysis(null);
   }
 
 
   // ----- Render Logic -----
+  if (isLocked) {
+    return <LockScreen onUnlock={unlockStorage} onEraseData={eraseAllData} />;
+  }
+
   return (
     <div className="flex flex-col min-h-screen bg-background text-foreground">
       <main className="flex-grow flex flex-col items-center p-6 md:p-12 pb-24">
@@ -430,6 +1087,9 @@ export default function Home() {
                    AI care at your fingertips. {userProfile ? `Welcome back, ${userProfile.name}!` : 'Create a profile for personalized experience!'}
                 </p>
               </div>
+              <div className="absolute top-2 right-2 z-10">
+                <ProfileSwitcher profiles={profiles} activeProfileId={activeProfileId} onSwitch={switchProfile} onAddProfile={startAddingProfile} />
+              </div>
           </header>
 
           {/* ----- View Rendering ----- */}
@@ -444,73 +1104,95 @@ export default function Home() {
                     Describe Your Symptoms
                   </CardTitle>
                    <CardDescription className="text-muted-foreground">
-                        Enter your symptoms below. {userProfile ? 'Your saved profile details will be considered.' : 'Creating a profile can help tailor suggestions.'}
+                        Answer a few quick questions about your symptoms. {userProfile ? 'Your saved profile details will be considered.' : 'Creating a profile can help tailor suggestions.'}
                    </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <Form {...symptomForm}>
-                    <form onSubmit={symptomForm.handleSubmit(onSubmitSymptoms)} className="space-y-6">
-                      <FormField
-                        control={symptomForm.control}
-                        name="symptoms"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel className="text-foreground">Symptoms Description</FormLabel>
-                            <FormControl>
-                              <Textarea
-                                placeholder="e.g., persistent headache, feeling tired, sore throat..."
-                                className="resize-none bg-input text-foreground border-border"
-                                rows={4}
-                                {...field}
-                                aria-label="Symptom Description Input"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                       {error && (
-                        <Alert variant="destructive">
-                           <Info className="h-4 w-4" />
-                          <AlertTitle>Error</AlertTitle>
-                          <AlertDescription>{error}</AlertDescription>
-                        </Alert>
-                      )}
-                      <Button type="submit" disabled={isPending} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
-                        {isPending ? ( <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Analyzing...</> ) : 'Get Health Suggestions'}
-                      </Button>
-                    </form>
-                  </Form>
+                  <SymptomInterview
+                    key={interviewKey}
+                    profileContext={profileContext}
+                    age={userProfile?.age}
+                    disabled={isPending}
+                    onRedFlags={onInterviewRedFlags}
+                    onComplete={onSubmitSymptoms}
+                    onRestart={resetTriage}
+                  />
+                  {error && (
+                    <Alert variant="destructive" className="mt-4">
+                       <Info className="h-4 w-4" />
+                      <AlertTitle>{FLOW_ERROR_TITLES[error.code]}</AlertTitle>
+                      <AlertDescription>{error.message}</AlertDescription>
+                    </Alert>
+                  )}
                 </CardContent>
               </Card>
 
-              {isPending && ( <div className="flex justify-center items-center py-6"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> <p className="ml-2 text-muted-foreground">Generating suggestions...</p> </div> )}
+              {isPending && !candidateConditions?.length && ( <div className="flex justify-center items-center py-6"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> <p className="ml-2 text-muted-foreground">Identifying potential conditions...</p> </div> )}
 
-              {healthInfo && !isPending && (
+              {(isPending || isRemediesPending) && (
+                <div className="flex justify-center">
+                  <Button variant="outline" size="sm" onClick={cancelGeneration}> <X className="mr-1 w-4 h-4" /> Cancel </Button>
+                </div>
+              )}
+
+              {triageResult?.urgency === 'emergency' && (
+                <EmergencyGuidance redFlags={triageResult.redFlags} reason={triageResult.reason} onDismiss={() => { resetTriage(); setInterviewKey(key => key + 1); }} />
+              )}
+
+              {triageResult?.urgency === 'see_doctor_24h' && !isPending && (
+                <Alert variant="destructive">
+                  <Info className="h-4 w-4" />
+                  <AlertTitle>See a Doctor Within 24 Hours</AlertTitle>
+                  <AlertDescription>{triageResult.reason}</AlertDescription>
+                </Alert>
+              )}
+
+              {candidateConditions && candidateConditions.length > 0 && triageResult?.urgency !== 'emergency' && (
                 <div className="space-y-6 mt-6">
                    <Card className="shadow-md bg-card text-card-foreground">
                      <CardHeader>
-                      <CardTitle className="text-xl flex items-center justify-between gap-2">
-                         <div className="flex items-center gap-2 text-primary"> <Stethoscope className="w-5 h-5 text-primary" /> Potential Condition(s) </div>
-                        <Button variant="ghost" size="icon" onClick={saveCurrentInfo} title="Save Suggestions"> <Bookmark className="w-5 h-5 text-primary hover:fill-primary" /> <span className="sr-only">Save</span> </Button>
+                      <CardTitle className="text-xl flex items-center gap-2 text-primary">
+                         <Stethoscope className="w-5 h-5 text-primary" /> Potential Condition(s)
                       </CardTitle>
+                       <CardDescription className="text-muted-foreground">Select the condition that best matches your situation to get remedies, diet and medicine suggestions for it.</CardDescription>
                        <CardDescription className="text-xs text-muted-foreground pt-1 italic"> *Disclaimer: This is AI-generated information and not a substitute for professional medical advice. Always consult a qualified healthcare provider for diagnosis and treatment. </CardDescription>
                     </CardHeader>
-                    <CardContent> <p className="text-foreground whitespace-pre-wrap">{healthInfo.conditions}</p> </CardContent>
+                    <CardContent>
+                      <ConditionCards
+                        conditions={candidateConditions}
+                        selectedCondition={lastIdentifiedCondition}
+                        onSelect={onSelectCondition}
+                        disabled={isPending || isRemediesPending}
+                      />
+                    </CardContent>
                   </Card>
+                </div>
+              )}
+
+              {isRemediesPending && !healthInfo && ( <div className="flex justify-center items-center py-6"> <Loader2 className="h-8 w-8 animate-spin text-primary" /> <p className="ml-2 text-muted-foreground">Generating suggestions...</p> </div> )}
+
+              {/* Filled in progressively while the suggestions stream in */}
+              {healthInfo && !isPending && (
+                <div className="space-y-6 mt-6">
                    <Card className="shadow-md bg-card text-card-foreground">
                      <CardHeader>
-                        <CardTitle className="text-xl flex items-center gap-2 text-accent"> <Leaf className="w-5 h-5 text-accent" /> Suggested Home Remedies </CardTitle>
+                        <CardTitle className="text-xl flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 text-accent"> <Leaf className="w-5 h-5 text-accent" /> Suggested Home Remedies </div>
+                          <Button variant="ghost" size="icon" onClick={saveCurrentInfo} disabled={isRemediesPending} title="Save Suggestions"> <Bookmark className="w-5 h-5 text-primary hover:fill-primary" /> <span className="sr-only">Save</span> </Button>
+                        </CardTitle>
+                        <CardDescription className="text-muted-foreground">For: <span className="font-semibold text-primary">{healthInfo.condition}</span></CardDescription>
                         <CardDescription className="text-xs text-muted-foreground pt-1 italic"> *Disclaimer: These are general suggestions. Effectiveness varies. Consult a professional before trying home remedies, especially if you have underlying health conditions. </CardDescription>
                     </CardHeader>
-                     <CardContent> <p className="text-foreground whitespace-pre-wrap">{healthInfo.remedies}</p> </CardContent>
+                     <CardContent> <HomeRemedies remedies={healthInfo.remedies} /> </CardContent>
                   </Card>
                   <Card className="shadow-md bg-card text-card-foreground">
                     <CardHeader>
-                        <CardTitle className="text-xl flex items-center gap-2 text-accent"> <Utensils className="w-5 h-5 text-accent" /> Diet Suggestions </CardTitle>
+                        <CardTitle className="text-xl flex items-center gap-2 text-accent"> <Utensils className="w-5 h-5 text-accent" /> Diet Plan </CardTitle>
                          <CardDescription className="text-xs text-muted-foreground pt-1 italic"> *Disclaimer: Dietary needs are individual. This is a general suggestion, not a personalized plan. Consult a doctor or registered dietitian for specific advice. </CardDescription>
                     </CardHeader>
-                    <CardContent> <p className="text-foreground whitespace-pre-wrap">{healthInfo.diet}</p> </CardContent>
+                    <CardContent>
+                      {healthInfo.dietPlan ? <DietPlanner plan={healthInfo.dietPlan} /> : <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                    </CardContent>
                   </Card>
                 </div>
               )}
@@ -519,38 +1201,13 @@ export default function Home() {
 
           {/* Saved Suggestions View */}
           {activeView === 'saved' && (
-             <Card className="shadow-md bg-card text-card-foreground">
-              <CardHeader>
-                <CardTitle className="text-xl flex items-center gap-2 text-primary">
-                  <Bookmark className="w-5 h-5 text-primary fill-primary" /> Saved Suggestions
-                </CardTitle>
-                 <CardDescription className="text-muted-foreground">Your saved health suggestions are listed here.</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                  {savedItems.length > 0 ? (
-                      savedItems.map((item) => (
-                          <Card key={item.id} className="bg-muted/30 border border-border">
-                              <CardHeader className="pb-2 pt-4">
-                                  <div className="flex justify-between items-start">
-                                      <CardTitle className="text-lg font-semibold text-primary">{item.condition}</CardTitle>
-                                      <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 -mt-2 -mr-2" onClick={() => removeSavedItem(item.id)} title="Remove"> <Trash2 className="w-4 h-4" /> <span className="sr-only">Remove</span> </Button>
-                                  </div>
-                                  <p className="text-xs text-muted-foreground">Saved: {new Date(item.timestamp).toLocaleDateString()}</p>
-                              </CardHeader>
-                              <CardContent className="text-sm space-y-3 pt-2 pb-4 text-foreground">
-                                  {item.remedies && ( <div> <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><Leaf size={14} /> Remedies:</h4> <p className="whitespace-pre-wrap text-foreground/90 pl-1">{item.remedies}</p> </div> )}
-                                   {item.diet && ( <div> <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><Utensils size={14} /> Diet:</h4> <p className="whitespace-pre-wrap text-foreground/90 pl-1">{item.diet}</p> </div> )}
-                              </CardContent>
-                          </Card>
-                      ))
-                  ) : ( <p className="text-muted-foreground text-center py-4">No saved suggestions yet.</p> )}
-              </CardContent>
-            </Card>
+            <SavedItemsView savedItems={activeSavedItems} onRemove={removeSavedItem} />
           )}
 
 
            {/* Meds View */}
            {activeView === 'meds' && (
+             <>
                <Card className="bg-card text-card-foreground shadow-md">
                  <CardHeader>
                     <CardTitle className="text-xl flex items-center gap-2 text-primary">
@@ -576,11 +1233,19 @@ export default function Home() {
                     )}
                      {medicineInfo && !isMedicinePending && (
                         <div className="space-y-4">
-                             <Alert variant={medicineInfo.suggestions.toLowerCase().includes("error") || medicineInfo.suggestions.toLowerCase().includes("could not generate") ? "destructive" : "default"} className={medicineInfo.suggestions.toLowerCase().includes("error") || medicineInfo.suggestions.toLowerCase().includes("could not generate") ? "" : "bg-background border border-border text-foreground"}>
+                             {lastIdentifiedCondition && (
+                               <div className="flex justify-end gap-1">
+                                 <Button variant="ghost" size="sm" onClick={refreshMedicineSuggestions} title="Get New Suggestions"> <RefreshCw className="mr-1 w-4 h-4 text-primary" /> Refresh </Button>
+                                 {!medicineInfo.failed && (
+                                   <Button variant="ghost" size="sm" onClick={saveMedicineSuggestion} title="Save Medicine Suggestions"> <Bookmark className="mr-1 w-4 h-4 text-primary" /> Save </Button>
+                                 )}
+                               </div>
+                             )}
+                             <Alert variant={medicineInfo.failed ? "destructive" : "default"} className={medicineInfo.failed ? "" : "bg-background border border-border text-foreground"}>
                                <Pill className="h-4 w-4" />
                                 <AlertTitle>Suggested OTC Medicines for: <span className="font-semibold text-primary">{lastIdentifiedCondition || "your condition"}</span></AlertTitle>
-                                <AlertDescription className="whitespace-pre-wrap pt-2 text-foreground/90">
-                                    {medicineInfo.suggestions}
+                                <AlertDescription className="pt-2 text-foreground/90">
+                                    <MedicineSuggestions medicines={medicineInfo.medicines} excludedMedicines={medicineInfo.excludedMedicines} notes={medicineInfo.notes} pediatricDosing={medicineInfo.pediatricDosing} />
                                 </AlertDescription>
                             </Alert>
                             <Alert variant="destructive" className="mt-4">
@@ -594,6 +1259,16 @@ export default function Home() {
                      )}
                  </CardContent>
               </Card>
+
+               <MedicationSchedulePanel
+                 schedules={activeMedicationSchedules}
+                 now={scheduleNow}
+                 notificationPermission={notificationPermission}
+                 onEnableReminders={requestNotificationPermission}
+                 onLogDose={logScheduledDose}
+                 onRemove={removeMedicationSchedule}
+               />
+             </>
            )}
 
            {/* Profile View */}
@@ -601,9 +1276,13 @@ export default function Home() {
             <Card className="shadow-md bg-card text-card-foreground">
               <CardHeader>
                 <CardTitle className="text-xl flex items-center gap-2 text-primary">
-                  <User className="w-5 h-5 text-primary" /> User Profile
+                  <User className="w-5 h-5 text-primary" /> {isAddingProfile ? 'Add Family Member' : 'User Profile'}
                 </CardTitle>
-                <CardDescription className="text-muted-foreground">Enter your basic details for a better experience and more personalized suggestions.</CardDescription>
+                <CardDescription className="text-muted-foreground">
+                  {isAddingProfile
+                    ? 'Add a child, parent or anyone else you check symptoms for. Each profile keeps its own history.'
+                    : 'Enter your basic details for a better experience and more personalized suggestions.'}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <Form {...profileForm}>
@@ -702,12 +1381,32 @@ export default function Home() {
                         </FormItem>
                       )}
                     />
+                    <ClinicalProfileFields form={profileForm} />
                     <Button type="submit" disabled={isProfilePending} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
-                      {isProfilePending ? (<><Loader2 className="mr-2 h-4 w-4 animate-spin" />Saving...</>) : (userProfile ? 'Update Profile' : 'Save Profile')}
+                      {isProfilePending ? (<><Loader2 className="mr-2 h-4 w-4 animate-spin" />Saving...</>) : (userProfile && !isAddingProfile ? 'Update Profile' : 'Save Profile')}
                     </Button>
+                    {isAddingProfile && userProfile && (
+                      <Button type="button" variant="outline" onClick={cancelAddingProfile} className="w-full">Cancel</Button>
+                    )}
+                    {!isAddingProfile && userProfile && (
+                      <Button type="button" variant="ghost" onClick={() => removeProfile(userProfile.id)} className="w-full text-destructive hover:text-destructive hover:bg-destructive/10">
+                        <Trash2 className="mr-2 h-4 w-4" /> Remove {userProfile.name}&apos;s Profile
+                      </Button>
+                    )}
                   </form>
                 </Form>
               </CardContent>
+              <CardFooter className="flex flex-col gap-4">
+                <EncryptionSettingsPanel
+                  settings={encryptionSettings}
+                  onEnable={enableStorageEncryption}
+                  onChangePassphrase={changeStoragePassphrase}
+                  onDisable={disableStorageEncryption}
+                  onAutoLockChange={updateAutoLock}
+                  onLockNow={lockStorage}
+                />
+                <StorageUsageIndicator />
+              </CardFooter>
             </Card>
             )}
 
@@ -719,16 +1418,16 @@ export default function Home() {
                          <ScanLine className="w-5 h-5 text-primary" /> Scan Document
                      </CardTitle>
                      <CardDescription className="text-muted-foreground">
-                         Scan a prescription or test report using your camera, or upload an image. The AI will try to analyze it.
+                         Scan a prescription or test report using your camera, or upload images or a PDF. Add every page of a multi-page document, in order, and the AI will analyze them together.
                      </CardDescription>
                  </CardHeader>
                  <CardContent className="space-y-4">
                      {/* Hidden canvas for capturing frame */}
                      <canvas ref={canvasRef} style={{ display: 'none' }}></canvas>
 
-                     {/* Video Preview Area */}
-                     {!capturedImage && (
-                        <div className="relative aspect-video w-full bg-muted rounded-md overflow-hidden border border-border">
+                     {/* Video Preview Area, kept mounted so the camera stream stays attached while the page limit is reached */}
+                     {(
+                        <div className={`relative aspect-video w-full bg-muted rounded-md overflow-hidden border border-border ${scanPages.length >= MAX_PRESCRIPTION_PAGES ? 'hidden' : ''}`}>
                             <video ref={videoRef} className="w-full h-full object-cover" autoPlay muted playsInline />
                             {hasCameraPermission === false && (
                                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/70 text-destructive-foreground p-4 text-center">
@@ -747,42 +1446,51 @@ export default function Home() {
 
 
                      {/* Action Buttons */}
-                     {!capturedImage && (
+                     {scanPages.length < MAX_PRESCRIPTION_PAGES && (
                         <div className="flex flex-col sm:flex-row gap-4">
-                            <Button onClick={captureImage} disabled={!hasCameraPermission} className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground">
+                            <Button onClick={captureImage} disabled={!hasCameraPermission || isAnalyzingPrescription || isPreparingPages} className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground">
                                 <Camera className="mr-2 h-4 w-4"/>
-                                Capture Image
+                                {scanPages.length === 0 ? 'Capture Image' : 'Capture Next Page'}
                             </Button>
                             <Button asChild variant="outline" className="flex-1">
                               <label className="cursor-pointer flex items-center justify-center"> {/* Ensure label takes full button space and centers content */}
-                                  <Upload className="mr-2 h-4 w-4"/> Upload Image
-                                  <input type="file" accept="image/*" onChange={handleFileUpload} className="hidden"/>
+                                  <Upload className="mr-2 h-4 w-4"/> {scanPages.length === 0 ? 'Upload Images or PDF' : 'Upload More Pages'}
+                                  <input type="file" accept="image/*,application/pdf" multiple onChange={handleFileUpload} className="hidden" disabled={isAnalyzingPrescription || isPreparingPages}/>
                               </label>
                             </Button>
                         </div>
                      )}
 
 
-                     {/* Display Captured/Uploaded Image & Analysis */}
-                     {capturedImage && (
+                     {pdfToPick && scanPages.length < MAX_PRESCRIPTION_PAGES && (
+                         <PdfPagePicker
+                             key={pdfToPick.fileName}
+                             pdf={pdfToPick.pdf}
+                             fileName={pdfToPick.fileName}
+                             maxPages={MAX_PRESCRIPTION_PAGES - scanPages.length}
+                             onAdd={addPdfPages}
+                             onCancel={() => setPdfToPick(null)}
+                         />
+                     )}
+
+                     {isPreparingPages && (
+                        <p className="flex items-center gap-2 text-sm text-muted-foreground"><Loader2 className="h-4 w-4 animate-spin"/>Cropping and enhancing pages...</p>
+                     )}
+
+                     {/* Captured/Uploaded Pages */}
+                     {scanPages.length > 0 && (
                          <div className="mt-4 border border-border rounded-md p-4 space-y-4">
                              <div>
-                                 <p className="text-sm font-medium text-muted-foreground mb-2">Preview:</p>
-                                 <Image
-                                    src={capturedImage}
-                                    alt="Captured document"
-                                    width={400}
-                                    height={300}
-                                    className="rounded-md object-contain max-h-60 w-auto mx-auto border border-border"
-                                 />
+                                 <p className="text-sm font-medium text-muted-foreground mb-2">Pages ({scanPages.length} of at most {MAX_PRESCRIPTION_PAGES}):</p>
+                                 <ScanPageList pages={scanPages} onMove={moveScanPage} onRemove={removeScanPage} disabled={isAnalyzingPrescription || isPreparingPages} />
                              </div>
 
                              <div className="flex flex-col sm:flex-row gap-2">
-                                <Button onClick={handleProcessImage} disabled={isAnalyzingPrescription} className="flex-1 bg-accent hover:bg-accent/90 text-accent-foreground">
+                                <Button onClick={handleProcessImage} disabled={isAnalyzingPrescription || isPreparingPages} className="flex-1 bg-accent hover:bg-accent/90 text-accent-foreground">
                                     {isAnalyzingPrescription ? <><Loader2 className="mr-2 h-4 w-4 animate-spin"/>Analyzing...</> : <><FileText className="mr-2 h-4 w-4"/>Analyze Prescription</>}
                                 </Button>
-                                <Button variant="ghost" onClick={resetScanView} className="text-destructive hover:text-destructive">
-                                     <Trash2 className="mr-1 h-3 w-3"/> Retake/Remove Image
+                                <Button variant="ghost" onClick={resetScanView} disabled={isAnalyzingPrescription} className="text-destructive hover:text-destructive">
+                                     <Trash2 className="mr-1 h-3 w-3"/> Remove All Pages
                                 </Button>
                              </div>
                          </div>
@@ -799,38 +1507,40 @@ export default function Home() {
                      {prescriptionAnalysis && !isAnalyzingPrescription && (
                          <Card className="mt-4 bg-muted/30 border-border">
                              <CardHeader>
-                                 <CardTitle className="text-lg flex items-center gap-2 text-primary">
-                                     <FileText className="w-5 h-5 text-primary"/> Prescription Analysis
+                                 <CardTitle className="text-lg flex items-center justify-between gap-2">
+                                     <div className="flex items-center gap-2 text-primary"> <FileText className="w-5 h-5 text-primary"/> Prescription Analysis </div>
+                                     <Button variant="ghost" size="icon" onClick={savePrescriptionAnalysis} disabled={!verifiedMedications} title={verifiedMedications ? "Save Analysis" : "Verify the medications to save"}> <Bookmark className="w-5 h-5 text-primary hover:fill-primary" /> <span className="sr-only">Save</span> </Button>
                                  </CardTitle>
                                  <CardDescription className="text-muted-foreground pt-1">{prescriptionAnalysis.summary}</CardDescription>
                              </CardHeader>
                              <CardContent className="space-y-4">
+                                 {/* Interaction summary */}
+                                 {interactionWarnings.some(warning => warning.severity === 'contraindicated' || warning.severity === 'major') && (
+                                     <Alert variant="destructive">
+                                         <Info className="h-4 w-4" />
+                                         <AlertTitle>Serious Drug Interactions Found</AlertTitle>
+                                         <AlertDescription>
+                                             Some of these medications may interact seriously with each other or with medicines you already take. Check with your doctor or pharmacist before taking them together.
+                                         </AlertDescription>
+                                     </Alert>
+                                 )}
+                                 {isCheckingInteractions && (
+                                     <p className="text-xs text-muted-foreground flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" /> Checking additional drug interactions...</p>
+                                 )}
+                                 {notCheckedInteractionPairs.length > 0 && (
+                                     <p className="text-xs text-muted-foreground">{notCheckedInteractionPairs.length} medication pair(s) could not be checked for interactions. Ask your pharmacist about them.</p>
+                                 )}
+
                                  {/* Display Medications Table */}
-                                 {prescriptionAnalysis.medications && prescriptionAnalysis.medications.length > 0 ? (
-                                     <div className="overflow-x-auto">
-                                         <Table>
-                                             <TableHeader>
-                                                 <TableRow>
-                                                     <TableHead>Medication</TableHead>
-                                                     <TableHead>Dosage</TableHead>
-                                                     <TableHead>Frequency</TableHead>
-                                                     <TableHead>Duration</TableHead>
-                                                     <TableHead>Notes</TableHead>
-                                                 </TableRow>
-                                             </TableHeader>
-                                             <TableBody>
-                                                 {prescriptionAnalysis.medications.map((med, index) => (
-                                                     <TableRow key={index}>
-                                                         <TableCell className="font-medium">{med.name}</TableCell>
-                                                         <TableCell>{med.dosage}</TableCell>
-                                                         <TableCell>{med.frequency || '-'}</TableCell>
-                                                         <TableCell>{med.duration || '-'}</TableCell>
-                                                         <TableCell>{med.notes || '-'}</TableCell>
-                                                     </TableRow>
-                                                 ))}
-                                             </TableBody>
-                                         </Table>
-                                     </div>
+                                 {prescriptionReview && (prescriptionReview.medications.length > 0 || prescriptionAnalysis.medications.length > 0) ? (
+                                     <PrescriptionMedicationsTable
+                                         review={prescriptionReview}
+                                         onChange={setPrescriptionReview}
+                                         legibility={prescriptionAnalysis.legibility}
+                                         showPages={scanPages.length > 1}
+                                         interactionWarnings={interactionWarnings}
+                                         notCheckedInteractionPairs={notCheckedInteractionPairs}
+                                     />
                                  ) : (
                                      <Alert variant="default" className="bg-background border-border text-foreground">
                                          <Info className="h-4 w-4" />
@@ -840,9 +1550,20 @@ export default function Home() {
                                               ? "The AI could not extract medication details."
                                               : "No specific medications were identified in the analysis."}
                                          </AlertDescription>
+                                         {prescriptionReview && (
+                                             <Button variant="outline" size="sm" onClick={() => setPrescriptionReview(addReviewedMedication(prescriptionReview))} className="mt-2">
+                                                 Enter Medications Yourself
+                                             </Button>
+                                         )}
                                      </Alert>
                                  )}
 
+                                 {prescriptionReview && prescriptionReview.medications.length > 0 && (
+                                     <Button variant="outline" onClick={addPrescriptionToSchedule} disabled={!verifiedMedications} className="w-full">
+                                         <CalendarPlus className="mr-2 h-4 w-4"/> Add to Medication Schedule
+                                     </Button>
+                                 )}
+
                                  {/* Display Overall Instructions */}
                                  {prescriptionAnalysis.overall_instructions && (
                                      <Alert variant="default" className="bg-background border-border text-foreground mt-4">
@@ -867,7 +1588,7 @@ export default function Home() {
 
 
                      {/* Show alert if camera access is explicitly denied */}
-                     {hasCameraPermission === false && activeView === 'scan' && !capturedImage && (
+                     {hasCameraPermission === false && activeView === 'scan' && scanPages.length === 0 && (
                          <Alert variant="destructive" className="mt-4">
                              <Camera className="h-4 w-4"/>
                              <AlertTitle>Camera Access Required</AlertTitle>
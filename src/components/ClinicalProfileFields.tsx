@@ -0,0 +1,239 @@
+'use client';
+
+import React from 'react';
+import { useFieldArray, type UseFormReturn } from 'react-hook-form';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Separator } from '@/components/ui/separator';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ALCOHOL_LABELS,
+  DIETARY_PREFERENCES,
+  DIETARY_PREFERENCE_LABELS,
+  PREGNANCY_STATUS_LABELS,
+  SMOKING_LABELS,
+  calculateBmi,
+  getBmiCategory,
+  type UserProfile,
+} from '@/lib/user-profile';
+
+interface ClinicalProfileFieldsProps {
+  form: UseFormReturn<UserProfile>;
+}
+
+const inputClassName = 'bg-input text-foreground border-border';
+
+function OptionSelect<T extends string>({
+  value,
+  onChange,
+  labels,
+  placeholder,
+  ariaLabel,
+}: {
+  value?: T;
+  onChange: (value: T) => void;
+  labels: Record<T, string>;
+  placeholder: string;
+  ariaLabel: string;
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as T)}>
+      <FormControl>
+        <SelectTrigger className={inputClassName} aria-label={ariaLabel}>
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {(Object.keys(labels) as T[]).map(option => (
+          <SelectItem key={option} value={option}>{labels[option]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function ClinicalProfileFields({ form }: ClinicalProfileFieldsProps) {
+  const allergies = useFieldArray({ control: form.control, name: 'drugAllergies' });
+  const medications = useFieldArray({ control: form.control, name: 'currentMedications' });
+  const [gender, age, heightCm, weightKg] = form.watch(['gender', 'age', 'heightCm', 'weightKg']);
+  const bmi = calculateBmi(Number(heightCm) || undefined, Number(weightKg) || undefined);
+
+  return (
+    <div className="space-y-6">
+      <Separator />
+
+      <div className="space-y-2">
+        <FormLabel className="text-foreground">Drug Allergies (Optional)</FormLabel>
+        {allergies.fields.map((item, index) => (
+          <div key={item.id} className="flex gap-2 items-start">
+            <FormField
+              control={form.control}
+              name={`drugAllergies.${index}.substance`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl><Input placeholder="Drug, e.g. Penicillin" className={inputClassName} {...field} aria-label="Allergy drug" /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`drugAllergies.${index}.reaction`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl><Input placeholder="Reaction, e.g. Rash" className={inputClassName} {...field} value={field.value ?? ''} aria-label="Allergic reaction" /></FormControl>
+                </FormItem>
+              )}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => allergies.remove(index)} title="Remove allergy"><X className="w-4 h-4" /><span className="sr-only">Remove allergy</span></Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => allergies.append({ substance: '', reaction: '' })}><Plus className="mr-1 h-3 w-3" /> Add allergy</Button>
+        <FormDescription className="text-muted-foreground">Medicines you are allergic to are never suggested.</FormDescription>
+      </div>
+
+      <div className="space-y-2">
+        <FormLabel className="text-foreground">Current Medications (Optional)</FormLabel>
+        {medications.fields.map((item, index) => (
+          <div key={item.id} className="grid grid-cols-[1fr_auto] gap-2 items-start">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <FormField
+                control={form.control}
+                name={`currentMedications.${index}.name`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl><Input placeholder="Name, e.g. Warfarin" className={inputClassName} {...field} aria-label="Medication name" /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`currentMedications.${index}.dose`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl><Input placeholder="Dose, e.g. 5mg" className={inputClassName} {...field} value={field.value ?? ''} aria-label="Medication dose" /></FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`currentMedications.${index}.frequency`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl><Input placeholder="How often, e.g. Once daily" className={inputClassName} {...field} value={field.value ?? ''} aria-label="Medication frequency" /></FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button type="button" variant="ghost" size="icon" onClick={() => medications.remove(index)} title="Remove medication"><X className="w-4 h-4" /><span className="sr-only">Remove medication</span></Button>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => medications.append({ name: '', dose: '', frequency: '' })}><Plus className="mr-1 h-3 w-3" /> Add medication</Button>
+        <FormDescription className="text-muted-foreground">Used to check scanned prescriptions and suggestions for drug interactions.</FormDescription>
+      </div>
+
+      {gender !== 'male' && (
+        <FormField
+          control={form.control}
+          name="pregnancyStatus"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground">Pregnancy / Breastfeeding (Optional)</FormLabel>
+              <OptionSelect value={field.value} onChange={field.onChange} labels={PREGNANCY_STATUS_LABELS} placeholder="Select status" ariaLabel="Pregnancy status" />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="heightCm"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground">Height (cm)</FormLabel>
+              <FormControl><Input type="number" inputMode="decimal" placeholder="e.g., 165" className={inputClassName} {...field} value={field.value ?? ''} aria-label="Height in centimetres" /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="weightKg"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground">Weight (kg)</FormLabel>
+              <FormControl><Input type="number" inputMode="decimal" placeholder="e.g., 62" className={inputClassName} {...field} value={field.value ?? ''} aria-label="Weight in kilograms" /></FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      {bmi !== undefined && (
+        <p className="text-sm text-muted-foreground -mt-3">
+          BMI: <span className="font-medium text-foreground">{bmi}</span>{' '}
+          {Number(age) >= 18 && <Badge variant="outline" className="capitalize font-normal">{getBmiCategory(bmi)}</Badge>}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="smoking"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground">Smoking</FormLabel>
+              <OptionSelect value={field.value} onChange={field.onChange} labels={SMOKING_LABELS} placeholder="Select" ariaLabel="Smoking status" />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="alcohol"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="text-foreground">Alcohol</FormLabel>
+              <OptionSelect value={field.value} onChange={field.onChange} labels={ALCOHOL_LABELS} placeholder="Select" ariaLabel="Alcohol use" />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="dietaryPreferences"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="text-foreground">Dietary preferences</FormLabel>
+            <div className="grid grid-cols-2 gap-2">
+              {DIETARY_PREFERENCES.map(preference => {
+                const selected = field.value ?? [];
+                return (
+                  <label key={preference} className="flex items-center gap-2 text-sm text-foreground">
+                    <Checkbox
+                      checked={selected.includes(preference)}
+                      onCheckedChange={checked => field.onChange(
+                        checked ? [...selected, preference] : selected.filter(value => value !== preference)
+                      )}
+                    />
+                    {DIETARY_PREFERENCE_LABELS[preference]}
+                  </label>
+                );
+              })}
+            </div>
+            <FormDescription>Diet plans only suggest foods that fit these.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { PotentialCondition } from '@/ai/flows/identify-symptoms';
+
+interface ConditionCardsProps {
+  conditions: PotentialCondition[];
+  selectedCondition: string | null;
+  onSelect: (condition: PotentialCondition) => void;
+  disabled?: boolean;
+}
+
+// Badge styling per severity tier
+const severityBadgeVariant: Record<PotentialCondition['severity'], 'secondary' | 'default' | 'destructive'> = {
+  mild: 'secondary',
+  moderate: 'default',
+  severe: 'destructive',
+};
+
+export default function ConditionCards({ conditions, selectedCondition, onSelect, disabled }: ConditionCardsProps) {
+  return (
+    <div className="space-y-3" role="radiogroup" aria-label="Potential conditions">
+      {conditions.map((condition) => {
+        const isSelected = selectedCondition === condition.name;
+        return (
+          <Card
+            key={condition.name}
+            role="radio"
+            aria-checked={isSelected}
+            aria-disabled={disabled}
+            tabIndex={disabled ? -1 : 0}
+            onClick={() => !disabled && onSelect(condition)}
+            onKeyDown={(event) => {
+              if (!disabled && (event.key === 'Enter' || event.key === ' ')) {
+                event.preventDefault();
+                onSelect(condition);
+              }
+            }}
+            className={cn(
+              'cursor-pointer border transition-colors bg-muted/30 hover:border-primary',
+              isSelected ? 'border-primary ring-2 ring-primary' : 'border-border',
+              disabled && 'cursor-not-allowed opacity-60'
+            )}
+          >
+            <CardHeader className="pb-2 pt-4">
+              <CardTitle className="text-lg font-semibold flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 text-primary">
+                  <span className="text-xs text-muted-foreground">#{condition.likelihoodRank}</span>
+                  {condition.name}
+                  {isSelected && <CheckCircle2 className="w-4 h-4 text-primary" />}
+                </span>
+                <Badge variant={severityBadgeVariant[condition.severity]} className="capitalize">{condition.severity}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-2 pb-4 text-foreground">
+              <p className="text-foreground/90">{condition.rationale}</p>
+              {condition.matchedSymptoms.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {condition.matchedSymptoms.map((symptom) => (
+                    <Badge key={symptom} variant="outline" className="font-normal">{symptom}</Badge>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { Ban, CalendarDays, Check, GlassWater } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { DietPlan, PartialDietPlan } from '@/ai/flows/suggest-remedies-and-diet';
+
+interface DietPlannerProps {
+  // Partial while the plan is still streaming
+  plan: DietPlan | PartialDietPlan;
+}
+
+type PartialFoodAdvice = NonNullable<PartialDietPlan['foodsToEat']>[number];
+
+const mealLabels: Record<string, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+function FoodList({ foods, icon, emptyText }: { foods?: PartialFoodAdvice[]; icon: React.ReactNode; emptyText: string }) {
+  const named = (foods ?? []).filter(food => food.food);
+  if (named.length === 0) return <p className="text-muted-foreground">{emptyText}</p>;
+  return (
+    <ul className="space-y-2">
+      {named.map((food, index) => (
+        <li key={`${food.food}-${index}`} className="flex items-start gap-2">
+          {icon}
+          <div>
+            <p className="font-medium text-foreground">{food.food}</p>
+            {food.reason && <p className="text-muted-foreground">{food.reason}</p>}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// The diet plan as a tabbed planner: foods to eat, foods to avoid, the meal schedule by day and the hydration target
+export default function DietPlanner({ plan }: DietPlannerProps) {
+  const days = (plan.mealPlan ?? []).filter(day => day.day !== undefined);
+
+  return (
+    <Tabs defaultValue="eat" className="text-sm">
+      <TabsList className="grid w-full grid-cols-4">
+        <TabsTrigger value="eat">Eat</TabsTrigger>
+        <TabsTrigger value="avoid">Avoid</TabsTrigger>
+        <TabsTrigger value="meals">Meals</TabsTrigger>
+        <TabsTrigger value="hydration">Hydration</TabsTrigger>
+      </TabsList>
+      <TabsContent value="eat" className="pt-2">
+        <FoodList foods={plan.foodsToEat} icon={<Check className="w-4 h-4 mt-0.5 text-primary shrink-0" />} emptyText="No foods suggested yet." />
+      </TabsContent>
+      <TabsContent value="avoid" className="pt-2">
+        <FoodList foods={plan.foodsToAvoid} icon={<Ban className="w-4 h-4 mt-0.5 text-destructive shrink-0" />} emptyText="No foods to avoid yet." />
+      </TabsContent>
+      <TabsContent value="meals" className="pt-2 space-y-4">
+        {days.length === 0 && <p className="text-muted-foreground">No meal schedule yet.</p>}
+        {days.map(day => (
+          <div key={day.day}>
+            <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><CalendarDays size={14} /> Day {day.day}</h4>
+            <ul className="space-y-1 pl-1">
+              {(day.meals ?? []).filter(meal => meal.meal && meal.description).map((meal, index) => (
+                <li key={`${meal.meal}-${index}`}>
+                  <span className="font-medium text-foreground">{mealLabels[meal.meal ?? ''] ?? meal.meal}:</span>{' '}
+                  <span className="text-foreground/90">{meal.description}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </TabsContent>
+      <TabsContent value="hydration" className="pt-2">
+        {plan.hydration?.dailyLiters !== undefined ? (
+          <div className="flex items-start gap-2">
+            <GlassWater className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+            <div>
+              <p className="font-medium text-foreground">About {plan.hydration.dailyLiters} litres of fluid a day</p>
+              {plan.hydration.tips && <p className="text-muted-foreground">{plan.hydration.tips}</p>}
+            </div>
+          </div>
+        ) : (
+          <p className="text-muted-foreground">No hydration target yet.</p>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { Siren, Phone, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { RedFlagMatch } from '@/lib/red-flags';
+
+interface EmergencyGuidanceProps {
+  redFlags: RedFlagMatch[];
+  // Explanation from the model-based urgency classifier, if it was the one that fired
+  reason?: string;
+  onDismiss: () => void;
+}
+
+export default function EmergencyGuidance({ redFlags, reason, onDismiss }: EmergencyGuidanceProps) {
+  return (
+    <Card className="shadow-md border-2 border-destructive bg-card text-card-foreground" role="alertdialog" aria-labelledby="emergency-guidance-title">
+      <CardHeader>
+        <CardTitle id="emergency-guidance-title" className="text-xl flex items-center gap-2 text-destructive">
+          <Siren className="w-6 h-6 text-destructive" /> Seek Emergency Care Now
+        </CardTitle>
+        <CardDescription className="text-foreground">
+          Your symptoms may need urgent medical attention. Home remedies and medicine suggestions are not shown for these symptoms.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button asChild className="w-full bg-destructive hover:bg-destructive/90 text-destructive-foreground">
+          <a href="tel:112"><Phone className="mr-2 h-4 w-4" /> Call Emergency Services</a>
+        </Button>
+
+        {redFlags.map((flag) => (
+          <Alert key={flag.ruleId} variant="destructive">
+            <Siren className="h-4 w-4" />
+            <AlertTitle>{flag.label}</AlertTitle>
+            <AlertDescription className="text-foreground/90">
+              {flag.guidance} <span className="italic text-muted-foreground">(You mentioned: &quot;{flag.matchedText}&quot;)</span>
+            </AlertDescription>
+          </Alert>
+        ))}
+
+        {reason && (
+          <Alert variant="destructive">
+            <Siren className="h-4 w-4" />
+            <AlertTitle>Urgent Symptoms Detected</AlertTitle>
+            <AlertDescription className="text-foreground/90">{reason}</AlertDescription>
+          </Alert>
+        )}
+
+        <p className="text-xs text-muted-foreground italic">
+          *If you are unsure, it is always safer to call emergency services or your local emergency number. Do not wait for symptoms to get worse.
+        </p>
+      </CardContent>
+      <CardFooter>
+        <Button variant="ghost" onClick={onDismiss} className="w-full">
+          <RotateCcw className="mr-2 h-4 w-4" /> Start Over
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
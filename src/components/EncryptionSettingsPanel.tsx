@@ -0,0 +1,153 @@
+'use client';
+
+import React, { useState } from 'react';
+import { KeyRound, Loader2, Lock, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MIN_PASSPHRASE_LENGTH, type EncryptionSettings } from '@/lib/storage/encryption';
+
+interface EncryptionSettingsPanelProps {
+  settings: EncryptionSettings;
+  onEnable: (passphrase: string) => Promise<void>;
+  // Resolve to false when the current passphrase is wrong
+  onChangePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<boolean>;
+  onDisable: (passphrase: string) => Promise<boolean>;
+  onAutoLockChange: (minutes: number) => void;
+  onLockNow: () => void;
+}
+
+type PanelMode = 'idle' | 'enable' | 'change' | 'disable';
+
+const autoLockOptions = [
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 0, label: 'Never' },
+];
+
+export default function EncryptionSettingsPanel({
+  settings,
+  onEnable,
+  onChangePassphrase,
+  onDisable,
+  onAutoLockChange,
+  onLockNow,
+}: EncryptionSettingsPanelProps) {
+  const [mode, setMode] = useState<PanelMode>('idle');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const openMode = (nextMode: PanelMode) => {
+    setMode(nextMode);
+    setCurrentPassphrase('');
+    setNextPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const needsNewPassphrase = mode === 'enable' || mode === 'change';
+    if (needsNewPassphrase && nextPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (needsNewPassphrase && nextPassphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      let succeeded = true;
+      if (mode === 'enable') await onEnable(nextPassphrase);
+      if (mode === 'change') succeeded = await onChangePassphrase(currentPassphrase, nextPassphrase);
+      if (mode === 'disable') succeeded = await onDisable(currentPassphrase);
+      if (succeeded) {
+        openMode('idle');
+      } else {
+        setError('Current passphrase is incorrect.');
+      }
+    } catch (e) {
+      console.error("Error updating encryption:", e);
+      setError('Could not update encryption. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border bg-muted/30 p-3 text-sm w-full">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 font-medium text-foreground">
+          {settings.enabled ? <ShieldCheck className="w-4 h-4 text-primary" /> : <ShieldOff className="w-4 h-4 text-muted-foreground" />}
+          {settings.enabled ? 'Data is encrypted' : 'Data is not encrypted'}
+        </p>
+        {settings.enabled && (
+          <Button type="button" size="sm" variant="outline" onClick={onLockNow}><Lock className="mr-1 h-3 w-3" /> Lock now</Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {settings.enabled
+          ? 'Your profile, saved items, schedules and scans are encrypted with your passphrase. If you forget it, your data cannot be recovered.'
+          : 'Protect your profile, saved items, schedules and scans on this device with a passphrase or PIN.'}
+      </p>
+
+      {settings.enabled && (
+        <div className="space-y-1">
+          <Label htmlFor="auto-lock" className="text-foreground">Auto-lock</Label>
+          <Select value={String(settings.autoLockMinutes)} onValueChange={(value) => onAutoLockChange(Number(value))}>
+            <SelectTrigger id="auto-lock" className="bg-input text-foreground border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {autoLockOptions.map(option => (
+                <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {mode === 'idle' ? (
+        <div className="flex flex-wrap gap-2">
+          {settings.enabled ? (
+            <>
+              <Button type="button" size="sm" variant="outline" onClick={() => openMode('change')}><KeyRound className="mr-1 h-3 w-3" /> Change passphrase</Button>
+              <Button type="button" size="sm" variant="ghost" className="text-destructive hover:text-destructive" onClick={() => openMode('disable')}>Turn off encryption</Button>
+            </>
+          ) : (
+            <Button type="button" size="sm" onClick={() => openMode('enable')}><Lock className="mr-1 h-3 w-3" /> Set a passphrase</Button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          {(mode === 'change' || mode === 'disable') && (
+            <Input type="password" autoComplete="current-password" placeholder="Current passphrase" value={currentPassphrase} onChange={(e) => setCurrentPassphrase(e.target.value)} disabled={isSubmitting} className="bg-input text-foreground border-border" aria-label="Current passphrase" />
+          )}
+          {(mode === 'enable' || mode === 'change') && (
+            <>
+              <Input type="password" autoComplete="new-password" placeholder="New passphrase or PIN" value={nextPassphrase} onChange={(e) => setNextPassphrase(e.target.value)} disabled={isSubmitting} className="bg-input text-foreground border-border" aria-label="New passphrase" />
+              <Input type="password" autoComplete="new-password" placeholder="Confirm passphrase" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} disabled={isSubmitting} className="bg-input text-foreground border-border" aria-label="Confirm passphrase" />
+            </>
+          )}
+          {error && <p className="text-xs text-destructive" role="alert">{error}</p>}
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={isSubmitting} variant={mode === 'disable' ? 'destructive' : 'default'}>
+              {isSubmitting && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+              {mode === 'enable' ? 'Encrypt my data' : mode === 'change' ? 'Change passphrase' : 'Turn off encryption'}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => openMode('idle')} disabled={isSubmitting}>Cancel</Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import React from 'react';
+import { OctagonAlert, Repeat, UserX } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import type { HomeRemedy, PartialHomeRemedy } from '@/ai/flows/suggest-remedies-and-diet';
+
+interface HomeRemediesProps {
+  // Partial while the remedies are still streaming
+  remedies: (HomeRemedy | PartialHomeRemedy)[];
+}
+
+type EvidenceLevel = HomeRemedy['evidenceLevel'];
+
+const evidenceLabels: Record<EvidenceLevel, string> = {
+  strong: 'Strong evidence',
+  moderate: 'Moderate evidence',
+  limited: 'Limited evidence',
+  traditional: 'Traditional use',
+};
+
+const evidenceVariants: Record<EvidenceLevel, 'default' | 'secondary' | 'outline'> = {
+  strong: 'default',
+  moderate: 'secondary',
+  limited: 'outline',
+  traditional: 'outline',
+};
+
+// Home remedies as an accordion: the name and evidence level in the header, how to use it and its safety notes inside
+export default function HomeRemedies({ remedies }: HomeRemediesProps) {
+  const named = remedies.filter(remedy => remedy.name);
+
+  return (
+    <Accordion type="multiple" className="text-sm">
+      {named.map((remedy, index) => (
+        <AccordionItem key={`${remedy.name}-${index}`} value={`${remedy.name}-${index}`}>
+          <AccordionTrigger className="text-left">
+            <span className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-foreground">{remedy.name}</span>
+              {remedy.evidenceLevel && (
+                <Badge variant={evidenceVariants[remedy.evidenceLevel]} className="font-normal">{evidenceLabels[remedy.evidenceLevel]}</Badge>
+              )}
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            {remedy.steps && remedy.steps.length > 0 && (
+              <ol className="list-decimal pl-5 space-y-1 text-foreground/90">
+                {remedy.steps.map((step, stepIndex) => <li key={stepIndex}>{step}</li>)}
+              </ol>
+            )}
+            {remedy.frequency && (
+              <p className="flex items-start gap-2 text-foreground/90"><Repeat className="w-4 h-4 mt-0.5 text-primary shrink-0" /> {remedy.frequency}</p>
+            )}
+            {remedy.avoidIf && remedy.avoidIf.length > 0 && (
+              <div className="flex items-start gap-2">
+                <UserX className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+                <div>
+                  <p className="font-medium text-foreground">Avoid if</p>
+                  <ul className="list-disc pl-5 text-muted-foreground">
+                    {remedy.avoidIf.map(group => <li key={group}>{group}</li>)}
+                  </ul>
+                </div>
+              </div>
+            )}
+            {remedy.stopIf && (
+              <p className="flex items-start gap-2 text-foreground/90"><OctagonAlert className="w-4 h-4 mt-0.5 text-destructive shrink-0" /> {remedy.stopIf}</p>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import type { InteractionSeverity, InteractionWarning, MedicationEntry, MedicationSource } from '@/lib/drug-interactions';
+
+interface InteractionWarningsProps {
+  medication: MedicationEntry;
+  warnings: InteractionWarning[];
+  // Medications this one could not be checked against
+  notChecked?: MedicationEntry[];
+}
+
+const severityStyles: Record<InteractionSeverity, string> = {
+  contraindicated: 'border-transparent bg-destructive text-destructive-foreground',
+  major: 'border-transparent bg-destructive/80 text-destructive-foreground',
+  moderate: 'border-transparent bg-accent text-accent-foreground',
+  minor: 'text-foreground',
+};
+
+const sourceLabels: Record<MedicationSource, string> = {
+  prescription: 'this prescription',
+  profile: 'your current medications',
+  otc: 'suggested OTC medicines',
+};
+
+// Lists the interaction warnings involving one medication, for use inside a table cell
+export default function InteractionWarnings({ medication, warnings, notChecked = [] }: InteractionWarningsProps) {
+  if (warnings.length === 0 && notChecked.length === 0) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  return (
+    <ul className="space-y-2 min-w-[12rem]">
+      {warnings.map((warning, index) => {
+        const isFirst = warning.drugA.name === medication.name && warning.drugA.source === medication.source;
+        const other = isFirst ? warning.drugB : warning.drugA;
+        return (
+          <li key={index} className="text-xs space-y-1">
+            <div className="flex items-center gap-1 flex-wrap">
+              <AlertTriangle className={cn('w-3 h-3', warning.severity === 'minor' ? 'text-muted-foreground' : 'text-destructive')} />
+              <Badge className={cn('capitalize', severityStyles[warning.severity])}>{warning.severity}</Badge>
+              <span className="font-medium">with {other.name}</span>
+              <span className="text-muted-foreground">({sourceLabels[other.source]})</span>
+            </div>
+            <p className="text-foreground/90">
+              {warning.description}
+              {warning.origin === 'model' && <span className="italic text-muted-foreground"> (AI-checked, verify with a pharmacist)</span>}
+            </p>
+          </li>
+        );
+      })}
+      {notChecked.map((other, index) => (
+        <li key={`not-checked-${index}`} className="text-xs flex items-center gap-1 flex-wrap">
+          <Badge variant="outline">Not checked</Badge>
+          <span className="font-medium">with {other.name}</span>
+          <span className="text-muted-foreground">({sourceLabels[other.source]})</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
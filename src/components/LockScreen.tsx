@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface LockScreenProps {
+  // Resolves to false when the passphrase is wrong
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onEraseData: () => void;
+}
+
+export default function LockScreen({ onUnlock, onEraseData }: LockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError('Incorrect passphrase. Please try again.');
+        setPassphrase('');
+      }
+    } catch (e) {
+      console.error("Error unlocking storage:", e);
+      setError('Could not unlock your data. Please try again.');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleErase = () => {
+    if (window.confirm('Erase all saved data, your profile and medication schedules? This cannot be undone.')) {
+      onEraseData();
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm shadow-md bg-card text-card-foreground">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle className="text-xl flex items-center gap-2 text-primary">
+              <Lock className="w-5 h-5 text-primary" /> Medibot-AI is Locked
+            </CardTitle>
+            <CardDescription className="text-muted-foreground">Enter your passphrase or PIN to unlock your health data.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Input
+              type="password"
+              autoFocus
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isUnlocking}
+              className="bg-input text-foreground border-border"
+              aria-label="Passphrase"
+            />
+            {error && <p className="text-sm text-destructive" role="alert">{error}</p>}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-2">
+            <Button type="submit" disabled={isUnlocking || !passphrase} className="w-full bg-primary hover:bg-primary/90 text-primary-foreground">
+              {isUnlocking ? (<><Loader2 className="mr-2 h-4 w-4 animate-spin" />Unlocking...</>) : 'Unlock'}
+            </Button>
+            <Button type="button" variant="link" onClick={handleErase} className="text-xs text-muted-foreground">
+              Forgot your passphrase? Erase all data
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
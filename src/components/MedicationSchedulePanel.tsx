@@ -0,0 +1,136 @@
+'use client';
+
+import React from 'react';
+import { Bell, BellOff, CalendarCheck, Check, Clock, SkipForward, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  getCourseEndDate,
+  getCourseProgress,
+  getDosesForDay,
+  type DoseStatus,
+  type MedicationSchedule,
+} from '@/lib/medication-schedule';
+import type { MealTiming } from '@/lib/dosing-schedule';
+
+interface MedicationSchedulePanelProps {
+  schedules: MedicationSchedule[];
+  now: number;
+  notificationPermission: NotificationPermission | 'unsupported';
+  onEnableReminders: () => void;
+  onLogDose: (doseId: string, status: DoseStatus) => void;
+  onRemove: (scheduleId: string) => void;
+}
+
+const mealTimingLabels: Record<MealTiming, string> = {
+  before_food: 'Before food',
+  after_food: 'After food',
+  with_food: 'With food',
+};
+
+function formatInterval(intervalDays: number) {
+  if (intervalDays === 7) return 'Once a week';
+  if (intervalDays === 2) return 'Every other day';
+  return `Every ${intervalDays} days`;
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function MedicationSchedulePanel({
+  schedules,
+  now,
+  notificationPermission,
+  onEnableReminders,
+  onLogDose,
+  onRemove,
+}: MedicationSchedulePanelProps) {
+  return (
+    <Card className="bg-card text-card-foreground shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2 text-primary">
+          <CalendarCheck className="w-5 h-5 text-primary" /> Medication Schedule
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">Today&apos;s doses from your scanned prescriptions.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notificationPermission === 'default' && schedules.length > 0 && (
+          <Button variant="outline" onClick={onEnableReminders} className="w-full">
+            <Bell className="mr-2 h-4 w-4" /> Enable Dose Reminders
+          </Button>
+        )}
+        {notificationPermission === 'denied' && schedules.length > 0 && (
+          <Alert variant="default" className="bg-background border border-border text-foreground">
+            <BellOff className="h-4 w-4" />
+            <AlertTitle>Reminders Blocked</AlertTitle>
+            <AlertDescription>Allow notifications for this site in your browser settings to get dose reminders.</AlertDescription>
+          </Alert>
+        )}
+
+        {schedules.length === 0 && (
+          <p className="text-muted-foreground text-center py-4">No medications scheduled. Scan a prescription and add it to your schedule.</p>
+        )}
+
+        {schedules.map((schedule) => {
+          const todaysDoses = getDosesForDay(schedule, now);
+          const progress = getCourseProgress(schedule);
+          const courseEnd = getCourseEndDate(schedule);
+          return (
+            <Card key={schedule.id} className="bg-muted/30 border border-border">
+              <CardHeader className="pb-2 pt-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg font-semibold text-primary">{schedule.medicationName}</CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      {schedule.dosage}
+                      {schedule.schedule.intervalDays && ` · ${formatInterval(schedule.schedule.intervalDays)}`}
+                      {schedule.schedule.mealTiming && ` · ${mealTimingLabels[schedule.schedule.mealTiming]}`}
+                      {courseEnd ? ` · Until ${new Date(courseEnd - 1).toLocaleDateString()}` : ' · Ongoing'}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 -mt-2 -mr-2" onClick={() => onRemove(schedule.id)} title="Remove"> <Trash2 className="w-4 h-4" /> <span className="sr-only">Remove</span> </Button>
+                </div>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {schedule.completedAt && <Badge>Course complete</Badge>}
+                  {schedule.schedule.asNeeded && <Badge variant="secondary">As needed</Badge>}
+                  {!schedule.schedule.recognized && <Badge variant="outline">Check timing with your doctor</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent className="text-sm space-y-3 pt-2 pb-4 text-foreground">
+                {progress.total !== undefined && (
+                  <div className="space-y-1">
+                    <Progress value={(progress.taken / Math.max(progress.total, 1)) * 100} className="h-2" />
+                    <p className="text-xs text-muted-foreground">{progress.taken} of {progress.total} doses taken{progress.skipped > 0 && `, ${progress.skipped} skipped`}</p>
+                  </div>
+                )}
+                {todaysDoses.length > 0 ? (
+                  <ul className="space-y-2">
+                    {todaysDoses.map((dose) => (
+                      <li key={dose.id} className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-1.5"><Clock className="w-3.5 h-3.5 text-muted-foreground" /> {formatTime(dose.scheduledAt)}</span>
+                        {dose.status ? (
+                          <Badge variant={dose.status === 'taken' ? 'default' : 'secondary'} className="capitalize">{dose.status}</Badge>
+                        ) : (
+                          <span className="flex gap-1">
+                            <Button size="sm" variant="outline" onClick={() => onLogDose(dose.id, 'taken')}><Check className="mr-1 h-3 w-3" /> Taken</Button>
+                            <Button size="sm" variant="ghost" onClick={() => onLogDose(dose.id, 'skipped')}><SkipForward className="mr-1 h-3 w-3" /> Skip</Button>
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  !schedule.schedule.asNeeded && !schedule.completedAt && <p className="text-xs text-muted-foreground">No more doses today.</p>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { Baby, Ban, Pill } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { SuggestedMedicine } from '@/ai/flows/suggest-medicines';
+import type { ExcludedMedicine, ExclusionReason } from '@/lib/medicine-safety';
+import type { PediatricDosingSummary } from '@/lib/pediatric-dosing';
+
+interface MedicineSuggestionsProps {
+  medicines: SuggestedMedicine[];
+  excludedMedicines: ExcludedMedicine[];
+  notes?: string;
+  pediatricDosing?: PediatricDosingSummary;
+}
+
+const reasonLabels: Record<ExclusionReason, string> = {
+  allergy: 'Allergy',
+  age: 'Age',
+  pregnancy: 'Pregnancy',
+  condition: 'Condition',
+  interaction: 'Interaction',
+};
+
+// Suggested OTC medicines with dose ranges, followed by the ones the safety filter removed and why
+export default function MedicineSuggestions({ medicines, excludedMedicines, notes, pediatricDosing }: MedicineSuggestionsProps) {
+  return (
+    <div className="space-y-4 text-sm">
+      {pediatricDosing && (
+        <div className="flex items-start gap-2 rounded-md border border-primary/40 bg-primary/5 p-3">
+          <Baby className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+          <div className="space-y-0.5">
+            <p className="font-medium text-foreground">Pediatric mode</p>
+            <p className="text-muted-foreground">
+              {pediatricDosing.calculatedFor.length > 0
+                ? `Doses for ${pediatricDosing.calculatedFor.join(' and ')} are calculated for ${pediatricDosing.weightKg} kg using dosing table v${pediatricDosing.tableVersion}. Use an oral syringe and check the concentration on the bottle.`
+                : pediatricDosing.weightKg
+                  ? 'Only child-appropriate products are shown. Ask a pharmacist for the dose.'
+                  : 'Add the child\'s weight to the profile to see weight-based doses.'}
+            </p>
+          </div>
+        </div>
+      )}
+      {medicines.length > 0 && (
+        <ul className="space-y-3">
+          {medicines.map((medicine, index) => (
+            <li key={index} className="rounded-md border border-border bg-background p-3 space-y-1">
+              <p className="flex items-center gap-1.5 font-medium text-foreground">
+                <Pill className="w-4 h-4 text-primary" /> {medicine.activeIngredient}
+                {medicine.exampleBrands && medicine.exampleBrands.length > 0 && (
+                  <span className="font-normal text-muted-foreground">(e.g. {medicine.exampleBrands.join(', ')})</span>
+                )}
+              </p>
+              <p className="text-foreground/90">{medicine.purpose}</p>
+              <p className="text-muted-foreground">
+                <span className="font-medium text-foreground">Dose:</span> {medicine.doseRange}
+                {medicine.maxDailyDose && <> · <span className="font-medium text-foreground">Max per day:</span> {medicine.maxDailyDose}</>}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {notes && <p className="whitespace-pre-wrap text-foreground/90">{notes}</p>}
+      {excludedMedicines.length > 0 && (
+        <Alert className="bg-muted/30 border border-border text-foreground">
+          <Ban className="h-4 w-4" />
+          <AlertTitle>Left out for your safety</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 space-y-2">
+              {excludedMedicines.map((excluded, index) => (
+                <li key={index} className="space-y-0.5">
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    <span className="font-medium">{excluded.activeIngredient}</span>
+                    <Badge variant="outline" className="font-normal">{reasonLabels[excluded.reason]}</Badge>
+                  </div>
+                  <p className="text-muted-foreground">{excluded.explanation}</p>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { FileText, Loader2 } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { PDF_THUMBNAIL_SCALE, renderPdfPage } from '@/lib/pdf-render';
+
+interface PdfPagePickerProps {
+  pdf: PDFDocumentProxy;
+  fileName: string;
+  // How many more pages the scan can take
+  maxPages: number;
+  // Receives the picked pages as image data URIs, rendered for analysis, in document order
+  onAdd: (pages: string[]) => void;
+  onCancel: () => void;
+}
+
+// Lets the user pick which pages of an uploaded PDF to add to the scan, with a thumbnail of each
+export default function PdfPagePicker({ pdf, fileName, maxPages, onAdd, onCancel }: PdfPagePickerProps) {
+  const pageNumbers = Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<number[]>(() => pageNumbers.slice(0, maxPages));
+  const [isAdding, setIsAdding] = useState(false);
+  const [renderError, setRenderError] = useState(false);
+
+  // Thumbnails render one at a time so a long document does not block the page.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages && !cancelled; pageNumber++) {
+        try {
+          const thumbnail = await renderPdfPage(pdf, pageNumber, PDF_THUMBNAIL_SCALE, 0.7);
+          if (!cancelled) setThumbnails(prev => ({ ...prev, [pageNumber]: thumbnail }));
+        } catch (e) { console.error(`Failed to render PDF page ${pageNumber}`, e); }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [pdf]);
+
+  const toggle = (pageNumber: number, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, pageNumber].sort((a, b) => a - b) : prev.filter(number => number !== pageNumber));
+  };
+
+  const addSelected = async () => {
+    setIsAdding(true);
+    setRenderError(false);
+    try {
+      const pages: string[] = [];
+      for (const pageNumber of selected) {
+        pages.push(await renderPdfPage(pdf, pageNumber));
+      }
+      onAdd(pages);
+    } catch (e) {
+      console.error('Failed to render PDF pages', e);
+      setRenderError(true);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-md p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <FileText className="w-4 h-4 text-primary shrink-0" />
+        <span className="font-medium text-foreground truncate">{fileName}</span>
+        <span className="text-muted-foreground shrink-0">{pdf.numPages} page(s)</span>
+      </div>
+      <p className="text-xs text-muted-foreground">Choose the pages with the prescription or results (up to {maxPages}).</p>
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-80 overflow-y-auto">
+        {pageNumbers.map(pageNumber => {
+          const isSelected = selected.includes(pageNumber);
+          return (
+            <label key={pageNumber} className={`flex flex-col items-center gap-1 rounded-md border p-1 cursor-pointer ${isSelected ? 'border-primary' : 'border-border'}`}>
+              {thumbnails[pageNumber] ? (
+                <Image src={thumbnails[pageNumber]} alt={`Page ${pageNumber}`} width={96} height={128} unoptimized className="w-full h-28 object-contain" />
+              ) : (
+                <div className="w-full h-28 flex items-center justify-center bg-muted rounded"><Loader2 className="w-4 h-4 animate-spin text-muted-foreground" /></div>
+              )}
+              <span className="flex items-center gap-1 text-xs text-foreground">
+                <Checkbox
+                  checked={isSelected}
+                  disabled={isAdding || (!isSelected && selected.length >= maxPages)}
+                  onCheckedChange={checked => toggle(pageNumber, checked === true)}
+                />
+                Page {pageNumber}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      {renderError && <p className="text-xs text-destructive">Some pages could not be rendered. Try fewer pages, or photograph them instead.</p>}
+      <div className="flex gap-2">
+        <Button onClick={addSelected} disabled={isAdding || selected.length === 0} className="flex-1">
+          {isAdding ? <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Preparing pages...</> : `Add ${selected.length} page(s)`}
+        </Button>
+        <Button variant="ghost" onClick={onCancel} disabled={isAdding}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import InteractionWarnings from '@/components/InteractionWarnings';
+import { cn } from '@/lib/utils';
+import { uncheckedPartnersOf, warningsForMedication, type InteractionWarning, type MedicationEntry } from '@/lib/drug-interactions';
+import {
+  MEDICATION_FIELDS,
+  legibilityLevel,
+  lowConfidenceFields,
+  type LegibilityLevel,
+  type MedicationField,
+} from '@/lib/prescription-confidence';
+import {
+  addReviewedMedication,
+  confirmReviewedMedication,
+  editedFields,
+  isAwaitingConfirmation,
+  removeReviewedMedication,
+  updateReviewedField,
+  verifyPrescriptionReview,
+  type PrescriptionReview,
+} from '@/lib/prescription-review';
+
+interface PrescriptionMedicationsTableProps {
+  review: PrescriptionReview;
+  onChange: (review: PrescriptionReview) => void;
+  // Legibility of the scanned document, from 0 to 1
+  legibility: number;
+  // Only worth a column when the document has several pages
+  showPages: boolean;
+  // Only checked once the list is verified
+  interactionWarnings: InteractionWarning[];
+  // Pairs that could not be checked, shown as such rather than as free of interactions
+  notCheckedInteractionPairs: [MedicationEntry, MedicationEntry][];
+}
+
+const fieldLabels: Record<MedicationField, string> = {
+  name: 'Medication',
+  dosage: 'Dosage',
+  frequency: 'Frequency',
+  duration: 'Duration',
+  notes: 'Notes',
+};
+
+const legibilityLabels: Record<LegibilityLevel, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  poor: 'Poor',
+};
+
+const legibilityVariants: Record<LegibilityLevel, 'default' | 'secondary' | 'destructive'> = {
+  good: 'default',
+  fair: 'secondary',
+  poor: 'destructive',
+};
+
+// The medications read from a prescription, editable until the user verifies them against the paper. Values that
+// may be misread are highlighted, and corrected values show what was read.
+export default function PrescriptionMedicationsTable({ review, onChange, legibility, showPages, interactionWarnings, notCheckedInteractionPairs }: PrescriptionMedicationsTableProps) {
+  const [problems, setProblems] = useState<string[]>([]);
+  const level = legibilityLevel(legibility);
+  const isVerified = review.verifiedAt !== null;
+  const pendingCount = review.medications.filter(isAwaitingConfirmation).length;
+
+  const change = (next: PrescriptionReview) => {
+    setProblems([]);
+    onChange(next);
+  };
+
+  const verify = () => {
+    const result = verifyPrescriptionReview(review);
+    if (!result.ok) {
+      setProblems(result.problems);
+      return;
+    }
+    change(result.review);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        Image legibility: <Badge variant={legibilityVariants[level]}>{legibilityLabels[level]} ({Math.round(legibility * 100)}%)</Badge>
+        {level === 'poor' && <span className="text-xs">Retaking the photo in better light may give a more reliable reading.</span>}
+      </p>
+      {pendingCount > 0 && (
+        <Alert variant="default" className="bg-background border-accent text-foreground">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Check {pendingCount} medication(s) against your prescription</AlertTitle>
+          <AlertDescription>Highlighted values may have been misread. Correct them, or confirm the medication if it is right.</AlertDescription>
+        </Alert>
+      )}
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {MEDICATION_FIELDS.map(field => <TableHead key={field}>{fieldLabels[field]}</TableHead>)}
+              {showPages && <TableHead>Pages</TableHead>}
+              {isVerified && <TableHead>Interactions</TableHead>}
+              <TableHead><span className="sr-only">Actions</span></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {review.medications.map((med, index) => {
+              const isPending = isAwaitingConfirmation(med);
+              const edited = editedFields(med);
+              const lowFields = isPending && med.extracted ? lowConfidenceFields(med.extracted).filter(field => !edited.includes(field)) : [];
+              return (
+                <TableRow key={med.id} className={cn(isPending && 'bg-accent/10')}>
+                  {MEDICATION_FIELDS.map(field => {
+                    const isLow = lowFields.includes(field);
+                    const isEdited = edited.includes(field);
+                    return (
+                      <TableCell key={field} className={cn('align-top min-w-[8rem]', isLow && 'bg-accent/30')}>
+                        <Input
+                          value={med[field] ?? ''}
+                          onChange={event => change(updateReviewedField(review, med.id, field, event.target.value))}
+                          aria-label={`${fieldLabels[field]} of medication ${index + 1}`}
+                          title={isLow ? `Read with ${Math.round((med.extracted?.confidence[field] ?? 0) * 100)}% confidence. Please check.` : undefined}
+                          className={cn('h-8', field === 'name' && 'font-medium')}
+                        />
+                        {isLow && (
+                          <p className="flex items-center gap-1 pt-1 text-xs text-accent-foreground"><AlertTriangle className="w-3 h-3" /> May be misread</p>
+                        )}
+                        {isEdited && (
+                          <p className="pt-1 text-xs text-muted-foreground">Read as: {med.extracted?.[field] || 'nothing'}</p>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                  {showPages && <TableCell className="align-top">{med.pages.join(', ') || 'Added'}</TableCell>}
+                  {isVerified && (
+                    <TableCell className="align-top">
+                      <InteractionWarnings
+                        medication={{ name: med.name, source: 'prescription' }}
+                        warnings={warningsForMedication(interactionWarnings, { name: med.name, source: 'prescription' })}
+                        notChecked={uncheckedPartnersOf(notCheckedInteractionPairs, { name: med.name, source: 'prescription' })}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="align-top">
+                    <div className="flex items-center gap-1">
+                      {isPending && (
+                        <Button variant="outline" size="sm" onClick={() => change(confirmReviewedMedication(review, med.id))}>
+                          <Check className="mr-1 h-3 w-3" /> Confirm
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onClick={() => change(removeReviewedMedication(review, med.id))} title="Remove medication" className="text-destructive hover:text-destructive">
+                        <Trash2 className="w-4 h-4" /> <span className="sr-only">Remove medication {index + 1}</span>
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      <Button variant="outline" size="sm" onClick={() => change(addReviewedMedication(review))}>
+        <Plus className="mr-1 h-4 w-4" /> Add Medication
+      </Button>
+
+      {problems.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Not ready to verify</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {problems.map(problem => <li key={problem}>{problem}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {isVerified ? (
+        <p className="flex items-center gap-2 text-sm text-primary">
+          <ShieldCheck className="w-4 h-4" /> Verified by you. Any further change will need verifying again.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          <Button onClick={verify} className="w-full">
+            <ShieldCheck className="mr-2 h-4 w-4" /> I Have Checked These Against My Prescription
+          </Button>
+          <p className="text-xs text-muted-foreground text-center">Saving, reminders and interaction checks use the list once you verify it.</p>
+        </div>
+      )}
+    </div>
+  );
+}
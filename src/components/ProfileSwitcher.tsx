@@ -0,0 +1,58 @@
+'use client';
+
+import React from 'react';
+import { ChevronDown, UserPlus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { HouseholdProfile } from '@/lib/user-profile';
+
+interface ProfileSwitcherProps {
+  profiles: HouseholdProfile[];
+  activeProfileId: string | null;
+  onSwitch: (profileId: string) => void;
+  onAddProfile: () => void;
+}
+
+export default function ProfileSwitcher({ profiles, activeProfileId, onSwitch, onAddProfile }: ProfileSwitcherProps) {
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-background/80 backdrop-blur" aria-label="Switch profile">
+          <Users className="mr-1.5 h-4 w-4" />
+          <span className="max-w-[8rem] truncate">{activeProfile ? activeProfile.name : 'Profiles'}</span>
+          <ChevronDown className="ml-1 h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {profiles.length > 0 && (
+          <>
+            <DropdownMenuLabel>Checking symptoms for</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={activeProfileId ?? undefined} onValueChange={onSwitch}>
+              {profiles.map(profile => (
+                <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                  <span className="truncate">{profile.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">{profile.age} yrs</span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+          </>
+        )}
+        <DropdownMenuItem onSelect={onAddProfile}>
+          <UserPlus className="mr-2 h-4 w-4" /> Add family member
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
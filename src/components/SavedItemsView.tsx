@@ -0,0 +1,240 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Bookmark, Trash2, Leaf, Utensils, Pill, FileText, Stethoscope, Info, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import DietPlanner from '@/components/DietPlanner';
+import HomeRemedies from '@/components/HomeRemedies';
+import MedicineSuggestions from '@/components/MedicineSuggestions';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  SAVED_ITEM_TYPE_LABELS,
+  getSavedItemTitle,
+  getScanImageIds,
+  type SavedItem,
+  type SavedItemType,
+} from '@/lib/saved-items';
+import { scanImagesRepository } from '@/lib/storage/repositories';
+import { MEDICATION_FIELDS } from '@/lib/prescription-confidence';
+
+interface SavedItemsViewProps {
+  savedItems: SavedItem[];
+  onRemove: (id: string) => void;
+}
+
+type SavedItemFilter = 'all' | SavedItemType;
+
+const typeIcons: Record<SavedItemType, React.ElementType> = {
+  symptom_check: Stethoscope,
+  prescription_scan: FileText,
+  medicine_suggestion: Pill,
+};
+
+// Shows the full-resolution scan once it has loaded from storage, and the thumbnail until then.
+function ScanImage({ imageId, thumbnail, alt = 'Scanned prescription' }: { imageId?: string; thumbnail?: string; alt?: string }) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setImageUrl(null);
+    if (!imageId) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    scanImagesRepository.get(imageId)
+      .then(blob => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setImageUrl(objectUrl);
+      })
+      .catch(e => console.error("Failed to load scan image", e));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [imageId]);
+
+  if (imageUrl) {
+    return <Image src={imageUrl} alt={alt} width={800} height={1000} unoptimized className="rounded-md border border-border object-contain max-h-[60vh] w-auto mx-auto" />;
+  }
+  if (thumbnail) {
+    return <Image src={thumbnail} alt={alt} width={160} height={160} className="rounded-md border border-border object-contain max-h-48 w-auto mx-auto" />;
+  }
+  return null;
+}
+
+function SavedItemDetail({ item }: { item: SavedItem }) {
+  switch (item.type) {
+    case 'symptom_check':
+      return (
+        <div className="space-y-4 text-sm">
+          {item.homeRemedies && ( <div> <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><Leaf size={14} /> Remedies:</h4> <HomeRemedies remedies={item.homeRemedies} /> </div> )}
+          {!item.homeRemedies && item.remedies && ( <div> <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><Leaf size={14} /> Remedies:</h4> <p className="whitespace-pre-wrap text-foreground/90 pl-1">{item.remedies}</p> </div> )}
+          {item.dietPlan && ( <div> <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><Utensils size={14} /> Diet plan:</h4> <DietPlanner plan={item.dietPlan} /> </div> )}
+          {!item.dietPlan && item.diet && ( <div> <h4 className="font-medium text-accent flex items-center gap-1.5 mb-1"><Utensils size={14} /> Diet:</h4> <p className="whitespace-pre-wrap text-foreground/90 pl-1">{item.diet}</p> </div> )}
+        </div>
+      );
+    case 'medicine_suggestion':
+      return (
+        <div className="space-y-4 text-sm">
+          {item.medicines ? (
+            <MedicineSuggestions medicines={item.medicines} excludedMedicines={item.excludedMedicines ?? []} notes={item.notes} pediatricDosing={item.pediatricDosing} />
+          ) : (
+            <p className="whitespace-pre-wrap text-foreground/90">{item.suggestions}</p>
+          )}
+          <Alert variant="destructive">
+            <Info className="h-4 w-4" />
+            <AlertTitle>Important Disclaimer</AlertTitle>
+            <AlertDescription className="whitespace-pre-wrap">{item.disclaimer}</AlertDescription>
+          </Alert>
+        </div>
+      );
+    case 'prescription_scan':
+      return (
+        <div className="space-y-4 text-sm">
+          {getScanImageIds(item).length > 1 ? (
+            getScanImageIds(item).map((imageId, index) => (
+              <div key={imageId} className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">Page {index + 1}</p>
+                <ScanImage imageId={imageId} thumbnail={index === 0 ? item.thumbnail : undefined} alt={`Scanned prescription, page ${index + 1}`} />
+              </div>
+            ))
+          ) : (
+            <ScanImage imageId={getScanImageIds(item)[0]} thumbnail={item.thumbnail} />
+          )}
+          <p className="text-muted-foreground">{item.summary}</p>
+          {item.verifiedAt && (
+            <p className="text-xs text-primary">Medications verified by you on {new Date(item.verifiedAt).toLocaleString()}.</p>
+          )}
+          {item.medications.length > 0 && (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Medication</TableHead>
+                    <TableHead>Dosage</TableHead>
+                    <TableHead>Frequency</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead>Pages</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {item.medications.map((med, index) => (
+                    <TableRow key={index}>
+                      {MEDICATION_FIELDS.map(field => (
+                        <TableCell key={field} className={field === 'name' ? 'font-medium' : undefined}>
+                          {med[field] || '-'}
+                          {med.extractedValues?.[field] !== undefined && (
+                            <span className="block text-xs text-muted-foreground">Corrected from: {med.extractedValues[field] || 'nothing'}</span>
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell>{med.addedByUser ? 'Added by you' : med.pages?.join(', ') || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          {item.overallInstructions && (
+            <Alert variant="default" className="bg-background border-border text-foreground">
+              <AlertTitle>Overall Instructions</AlertTitle>
+              <AlertDescription className="whitespace-pre-wrap pt-2 text-foreground/90">{item.overallInstructions}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      );
+  }
+}
+
+export default function SavedItemsView({ savedItems, onRemove }: SavedItemsViewProps) {
+  const [filter, setFilter] = useState<SavedItemFilter>('all');
+  const [selectedItem, setSelectedItem] = useState<SavedItem | null>(null);
+
+  const filteredItems = filter === 'all' ? savedItems : savedItems.filter(item => item.type === filter);
+  const filters: SavedItemFilter[] = ['all', 'symptom_check', 'prescription_scan', 'medicine_suggestion'];
+
+  return (
+    <Card className="shadow-md bg-card text-card-foreground">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2 text-primary">
+          <Bookmark className="w-5 h-5 text-primary fill-primary" /> Saved Items
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">Your saved symptom checks, prescription scans and medicine suggestions.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter saved items">
+          {filters.map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={filter === option ? 'default' : 'outline'}
+              onClick={() => setFilter(option)}
+              aria-pressed={filter === option}
+            >
+              {option === 'all' ? 'All' : SAVED_ITEM_TYPE_LABELS[option]}
+            </Button>
+          ))}
+        </div>
+
+        {filteredItems.length > 0 ? (
+          filteredItems.map((item) => {
+            const Icon = typeIcons[item.type];
+            return (
+              <Card key={item.id} className="bg-muted/30 border border-border">
+                <CardHeader className="pb-4 pt-4">
+                  <div className="flex justify-between items-start gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setSelectedItem(item)}
+                      className="flex items-start gap-3 text-left flex-1 min-w-0"
+                    >
+                      {item.type === 'prescription_scan' && item.thumbnail ? (
+                        <Image src={item.thumbnail} alt="" width={48} height={48} className="w-12 h-12 rounded object-cover border border-border shrink-0" />
+                      ) : (
+                        <Icon className="w-5 h-5 mt-1 text-primary shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <CardTitle className="text-lg font-semibold text-primary truncate">{getSavedItemTitle(item)}</CardTitle>
+                        <div className="flex items-center gap-2 pt-1">
+                          <Badge variant="outline" className="font-normal">{SAVED_ITEM_TYPE_LABELS[item.type]}</Badge>
+                          <p className="text-xs text-muted-foreground">Saved: {new Date(item.timestamp).toLocaleDateString()}</p>
+                        </div>
+                      </div>
+                      <ChevronRight className="w-4 h-4 mt-1 text-muted-foreground shrink-0" />
+                    </button>
+                    <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive hover:bg-destructive/10 -mt-2 -mr-2" onClick={() => onRemove(item.id)} title="Remove"> <Trash2 className="w-4 h-4" /> <span className="sr-only">Remove</span> </Button>
+                  </div>
+                </CardHeader>
+              </Card>
+            );
+          })
+        ) : (
+          <p className="text-muted-foreground text-center py-4">
+            {filter === 'all' ? 'No saved items yet.' : `No saved ${SAVED_ITEM_TYPE_LABELS[filter].toLowerCase()}s yet.`}
+          </p>
+        )}
+      </CardContent>
+
+      <Sheet open={selectedItem !== null} onOpenChange={(open) => !open && setSelectedItem(null)}>
+        <SheetContent side="bottom" className="max-h-[85vh] overflow-y-auto">
+          {selectedItem && (
+            <>
+              <SheetHeader className="mb-4">
+                <SheetTitle className="text-primary">{getSavedItemTitle(selectedItem)}</SheetTitle>
+                <SheetDescription>
+                  {SAVED_ITEM_TYPE_LABELS[selectedItem.type]} · Saved {new Date(selectedItem.timestamp).toLocaleString()}
+                </SheetDescription>
+              </SheetHeader>
+              <SavedItemDetail item={selectedItem} />
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </Card>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useState } from 'react';
+import Image from 'next/image';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export interface ScanPage {
+  // As captured or uploaded, for the before/after preview
+  original: string;
+  // Cropped, flattened and enhanced; this is what gets analyzed and saved
+  processed: string;
+}
+
+interface ScanPageListProps {
+  // In page order
+  pages: ScanPage[];
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  disabled?: boolean;
+}
+
+// The pages of a document being scanned, which can be reordered and removed before analysis,
+// with a before/after preview of the page picked in the list
+export default function ScanPageList({ pages, onMove, onRemove, disabled }: ScanPageListProps) {
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const preview = pages[Math.min(previewIndex, pages.length - 1)];
+
+  return (
+    <div className="space-y-3">
+      {preview && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['original', 'processed'] as const).map(version => (
+            <figure key={version} className="space-y-1">
+              <Image
+                src={preview[version]}
+                alt={version === 'original' ? 'Page before processing' : 'Page after processing'}
+                width={300}
+                height={400}
+                unoptimized
+                className="rounded-md object-contain max-h-60 w-full border border-border bg-muted"
+              />
+              <figcaption className="text-xs text-center text-muted-foreground">{version === 'original' ? 'Before' : 'After'}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+      <ol className="space-y-2">
+        {pages.map((page, index) => (
+          <li
+            key={`${index}-${page.processed.length}`}
+            className={`flex items-center gap-3 rounded-md border p-2 ${page === preview ? 'border-primary' : 'border-border'}`}
+          >
+            <button type="button" onClick={() => setPreviewIndex(index)} className="flex flex-1 items-center gap-3 text-left" title="Compare before and after">
+              <Image
+                src={page.processed}
+                alt={`Page ${index + 1}`}
+                width={64}
+                height={64}
+                className="w-16 h-16 rounded object-cover border border-border shrink-0"
+              />
+              <span className="text-sm font-medium text-foreground">Page {index + 1}</span>
+            </button>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" onClick={() => onMove(index, index - 1)} disabled={disabled || index === 0} title="Move up">
+                <ArrowUp className="w-4 h-4" /> <span className="sr-only">Move page {index + 1} up</span>
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => onMove(index, index + 1)} disabled={disabled || index === pages.length - 1} title="Move down">
+                <ArrowDown className="w-4 h-4" /> <span className="sr-only">Move page {index + 1} down</span>
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => onRemove(index)} disabled={disabled} title="Remove page" className="text-destructive hover:text-destructive">
+                <X className="w-4 h-4" /> <span className="sr-only">Remove page {index + 1}</span>
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { HardDrive } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { getStorageUsage, type StorageUsage } from '@/lib/storage/repositories';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+export default function StorageUsageIndicator() {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getStorageUsage()
+      .then(result => { if (!cancelled) setUsage(result); })
+      .catch(e => console.error("Failed to read storage usage", e));
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!usage) return null;
+
+  const hasEstimate = usage.usage !== undefined && usage.quota !== undefined && usage.quota > 0;
+  return (
+    <div className="space-y-2 rounded-md border border-border bg-muted/30 p-3 text-sm w-full">
+      <p className="flex items-center gap-1.5 font-medium text-foreground"><HardDrive className="w-4 h-4 text-primary" /> On-device storage</p>
+      {hasEstimate && (
+        <>
+          <Progress value={(usage.usage! / usage.quota!) * 100} className="h-2" aria-label="Storage used" />
+          <p className="text-xs text-muted-foreground">{formatBytes(usage.usage!)} of {formatBytes(usage.quota!)} used</p>
+        </>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {usage.savedItemCount} saved items · {usage.scanImageCount} scan images · {usage.medicationScheduleCount} medication schedules
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState, useTransition, useRef, useEffect } from 'react';
+import { Loader2, Send, Bot, User, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { detectRedFlagsForAge, type RedFlagMatch } from '@/lib/red-flags';
+import { interviewSymptoms, type InterviewMessage, type SymptomDetails } from '@/ai/flows/symptom-interview';
+
+const OPENING_QUESTION = 'Hi! What symptoms are you experiencing today?';
+const MIN_FIRST_MESSAGE_LENGTH = 10;
+
+interface SymptomInterviewProps {
+  profileContext?: string;
+  // Age of the person the symptoms are for; children's replies are also checked against the pediatric red flags
+  age?: number;
+  // Disables input while the parent is analyzing the completed interview
+  disabled?: boolean;
+  onRedFlags: (redFlags: RedFlagMatch[]) => void;
+  onComplete: (summary: string) => void;
+  onRestart?: () => void;
+}
+
+export default function SymptomInterview({ profileContext, age, disabled, onRedFlags, onComplete, onRestart }: SymptomInterviewProps) {
+  const [isPending, startTransition] = useTransition();
+  const [transcript, setTranscript] = useState<InterviewMessage[]>([{ role: 'assistant', content: OPENING_QUESTION }]);
+  const [details, setDetails] = useState<SymptomDetails>({});
+  const [reply, setReply] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const [isComplete, setIsComplete] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'nearest' });
+  }, [transcript, isPending]);
+
+  const isFirstReply = !transcript.some(message => message.role === 'user');
+
+  function sendReply() {
+    const content = reply.trim();
+    if (isFirstReply && content.length < MIN_FIRST_MESSAGE_LENGTH) {
+      setValidationError('Please describe your symptoms in at least 10 characters.');
+      return;
+    }
+    if (!content) return;
+    setValidationError(null);
+
+    const nextTranscript: InterviewMessage[] = [...transcript, { role: 'user', content }];
+    setTranscript(nextTranscript);
+    setReply('');
+
+    // Red-flag rules are checked on every reply, before the model sees it.
+    const redFlags = detectRedFlagsForAge(content, age);
+    if (redFlags.length > 0) {
+      setIsComplete(true);
+      onRedFlags(redFlags);
+      return;
+    }
+
+    // Drops the unanswered reply so the user can resend it.
+    const failTurn = (message: string) => {
+      toast({ variant: "destructive", title: "Error", description: message });
+      setTranscript(transcript);
+      setReply(content);
+    };
+
+    startTransition(async () => {
+      try {
+        const result = await interviewSymptoms({ transcript: nextTranscript, details, profileContext });
+        if (!result.ok) {
+          failTurn(result.error.message);
+          return;
+        }
+        const turn = result.data;
+        setDetails(turn.details);
+        if (turn.isComplete && turn.summary) {
+          setIsComplete(true);
+          setTranscript(prev => [...prev, { role: 'assistant', content: 'Thanks, I have enough information. Analyzing your symptoms now...' }]);
+          onComplete(turn.summary);
+        } else if (turn.nextQuestion) {
+          setTranscript(prev => [...prev, { role: 'assistant', content: turn.nextQuestion! }]);
+        }
+      } catch (e: any) {
+        console.error('Error during symptom interview:', e);
+        failTurn(e instanceof Error ? e.message : 'An unexpected error occurred. Please try again.');
+      }
+    });
+  }
+
+  function restart() {
+    setTranscript([{ role: 'assistant', content: OPENING_QUESTION }]);
+    setDetails({});
+    setReply('');
+    setValidationError(null);
+    setIsComplete(false);
+    onRestart?.();
+  }
+
+  return (
+    <div className="space-y-4">
+      <ScrollArea className="h-72 rounded-md border border-border bg-muted/30 p-3">
+        <div className="space-y-3" aria-live="polite">
+          {transcript.map((message, index) => (
+            <div key={index} className={cn('flex items-start gap-2', message.role === 'user' && 'flex-row-reverse')}>
+              {message.role === 'assistant'
+                ? <Bot className="w-5 h-5 mt-1 shrink-0 text-primary" />
+                : <User className="w-5 h-5 mt-1 shrink-0 text-accent" />}
+              <p className={cn(
+                'rounded-lg px-3 py-2 text-sm whitespace-pre-wrap max-w-[80%]',
+                message.role === 'assistant' ? 'bg-background text-foreground border border-border' : 'bg-primary text-primary-foreground'
+              )}>
+                {message.content}
+              </p>
+            </div>
+          ))}
+          {isPending && (
+            <div className="flex items-center gap-2 text-muted-foreground text-sm">
+              <Loader2 className="w-4 h-4 animate-spin" /> Thinking...
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      {!isComplete ? (
+        <form
+          onSubmit={(event) => { event.preventDefault(); sendReply(); }}
+          className="space-y-2"
+        >
+          <div className="flex gap-2 items-end">
+            <Textarea
+              placeholder={isFirstReply ? 'e.g., persistent headache, feeling tired, sore throat...' : 'Type your answer...'}
+              className="resize-none bg-input text-foreground border-border"
+              rows={2}
+              value={reply}
+              onChange={(event) => setReply(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' && !event.shiftKey) {
+                  event.preventDefault();
+                  sendReply();
+                }
+              }}
+              disabled={isPending || disabled}
+              aria-label="Symptom Interview Reply Input"
+            />
+            <Button type="submit" size="icon" disabled={isPending || disabled || !reply.trim()} className="bg-primary hover:bg-primary/90 text-primary-foreground shrink-0">
+              <Send className="h-4 w-4" />
+              <span className="sr-only">Send</span>
+            </Button>
+          </div>
+          {validationError && <p className="text-sm font-medium text-destructive">{validationError}</p>}
+        </form>
+      ) : (
+        <Button variant="outline" onClick={restart} disabled={disabled} className="w-full">
+          <RotateCcw className="mr-2 h-4 w-4" /> Start a New Check
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import * as React from "react"
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"] as const
+
+/**
+ * Calls `onIdle` once no user activity has been seen for `timeoutMs`. Disabled when `timeoutMs` is 0.
+ */
+export function useIdleTimer(timeoutMs: number, onIdle: () => void, enabled = true) {
+  const onIdleRef = React.useRef(onIdle)
+  onIdleRef.current = onIdle
+
+  React.useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return
+    let timeout = setTimeout(() => onIdleRef.current(), timeoutMs)
+    const reset = () => {
+      clearTimeout(timeout)
+      timeout = setTimeout(() => onIdleRef.current(), timeoutMs)
+    }
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }))
+    return () => {
+      clearTimeout(timeout)
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset))
+    }
+  }, [timeoutMs, enabled])
+}
@@ -0,0 +1,28 @@
+import { renderHook } from '@testing-library/react';
+import { useMedicationReminders } from './use-medication-reminders';
+import type { DoseStatus, MedicationSchedule } from '@/lib/medication-schedule';
+
+afterEach(() => window.history.replaceState(null, '', '/'));
+
+test('keeps a dose action from a closed app until the schedules have loaded', () => {
+  window.history.replaceState(null, '', '/?doseId=course-1%3A2024-05-01%3A08%3A00&doseStatus=taken');
+  const actions: [string, DoseStatus][] = [];
+  const options = (ready: boolean) => ({
+    schedules: [] as MedicationSchedule[],
+    ready,
+    onDoseAction: (doseId: string, status: DoseStatus) => actions.push([doseId, status]),
+    onCourseComplete: () => {},
+  });
+
+  // Cold start: storage is still loading, or the app is locked
+  const { rerender } = renderHook(({ ready }) => useMedicationReminders(options(ready)), { initialProps: { ready: false } });
+  expect(actions).toEqual([]);
+  expect(window.location.search).toContain('doseId=');
+
+  rerender({ ready: true });
+  expect(actions).toEqual([['course-1:2024-05-01:08:00', 'taken']]);
+  expect(window.location.search).toBe('');
+
+  rerender({ ready: true });
+  expect(actions).toHaveLength(1);
+});
@@ -0,0 +1,145 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  getUpcomingDoses,
+  isCourseComplete,
+  type DoseStatus,
+  type MedicationSchedule,
+} from "@/lib/medication-schedule"
+
+const SERVICE_WORKER_URL = "/reminder-sw.js"
+// Reminders are (re)scheduled for this window ahead; the check interval keeps it rolling.
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000
+const CHECK_INTERVAL_MS = 60 * 1000
+
+type PermissionState = NotificationPermission | "unsupported"
+
+interface DoseAction {
+  doseId: string
+  status: DoseStatus
+  // Read from the URL, which is cleaned up once the action has been applied
+  fromUrl?: boolean
+}
+
+interface UseMedicationRemindersOptions {
+  schedules: MedicationSchedule[]
+  // False until the schedules have loaded from storage (which waits for the app to be unlocked);
+  // dose actions that arrive before then are kept and applied once it is true.
+  ready: boolean
+  onDoseAction: (doseId: string, status: DoseStatus) => void
+  onCourseComplete: (scheduleId: string) => void
+}
+
+// Actions tapped while the app was closed arrive as query parameters.
+function readUrlDoseAction(): DoseAction | null {
+  if (typeof window === "undefined") return null
+  const params = new URLSearchParams(window.location.search)
+  const doseId = params.get("doseId")
+  const status = params.get("doseStatus")
+  if (!doseId || (status !== "taken" && status !== "skipped")) return null
+  return { doseId, status, fromUrl: true }
+}
+
+function getInitialPermission(): PermissionState {
+  if (typeof window === "undefined" || !("Notification" in window)) return "unsupported"
+  return Notification.permission
+}
+
+async function showReminder(title: string, options: NotificationOptions) {
+  const registration = await navigator.serviceWorker?.getRegistration(SERVICE_WORKER_URL)
+  if (registration) {
+    // Actions are only supported on service worker notifications.
+    await registration.showNotification(title, {
+      ...options,
+      actions: [
+        { action: "taken", title: "Taken" },
+        { action: "skip", title: "Skip" },
+      ],
+    } as NotificationOptions)
+  } else {
+    new Notification(title, options)
+  }
+}
+
+/**
+ * Schedules browser notifications for upcoming doses, relays "Taken" / "Skip" actions from the
+ * reminder service worker, and reports courses that have reached their end date.
+ */
+export function useMedicationReminders({ schedules, ready, onDoseAction, onCourseComplete }: UseMedicationRemindersOptions) {
+  const [permission, setPermission] = React.useState<PermissionState>("unsupported")
+  const [now, setNow] = React.useState(() => Date.now())
+  const [pendingActions, setPendingActions] = React.useState<DoseAction[]>([])
+
+  // Keep the latest callbacks without re-running the effects below.
+  const callbacks = React.useRef({ onDoseAction, onCourseComplete })
+  callbacks.current = { onDoseAction, onCourseComplete }
+
+  React.useEffect(() => {
+    setPermission(getInitialPermission())
+    const interval = setInterval(() => setNow(Date.now()), CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Register the service worker and listen for notification actions.
+  React.useEffect(() => {
+    if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((e) => console.error("Failed to register reminder service worker", e))
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === "dose-action") {
+        const action: DoseAction = { doseId: event.data.doseId, status: event.data.status }
+        setPendingActions((prev) => [...prev, action])
+      }
+    }
+    navigator.serviceWorker.addEventListener("message", onMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage)
+  }, [])
+
+  React.useEffect(() => {
+    const action = readUrlDoseAction()
+    if (action) setPendingActions((prev) => [...prev, action])
+  }, [])
+
+  // Applied only once the schedules are there to apply them to
+  React.useEffect(() => {
+    if (!ready || pendingActions.length === 0) return
+    pendingActions.forEach((action) => callbacks.current.onDoseAction(action.doseId, action.status))
+    if (pendingActions.some((action) => action.fromUrl)) {
+      window.history.replaceState(null, "", window.location.pathname)
+    }
+    setPendingActions([])
+  }, [ready, pendingActions])
+
+  // Schedule a notification for every unlogged dose in the upcoming window.
+  React.useEffect(() => {
+    if (permission !== "granted") return
+    const schedulesById = new Map(schedules.map((schedule) => [schedule.id, schedule]))
+    const timeouts = getUpcomingDoses(schedules, now, REMINDER_WINDOW_MS).map((dose) => {
+      const schedule = schedulesById.get(dose.scheduleId)!
+      return setTimeout(() => {
+        showReminder(`Time for ${schedule.medicationName}`, {
+          body: `${schedule.dosage}${schedule.schedule.mealTiming ? ` (${schedule.schedule.mealTiming.replace("_", " ")})` : ""}`,
+          tag: dose.id,
+          data: { doseId: dose.id },
+        }).catch((e) => console.error("Failed to show dose reminder", e))
+      }, dose.scheduledAt - Date.now())
+    })
+    return () => timeouts.forEach(clearTimeout)
+  }, [schedules, permission, now])
+
+  // End-of-course detection
+  React.useEffect(() => {
+    schedules
+      .filter((schedule) => !schedule.completedAt && isCourseComplete(schedule, now))
+      .forEach((schedule) => callbacks.current.onCourseComplete(schedule.id))
+  }, [schedules, now])
+
+  const requestPermission = React.useCallback(async () => {
+    if (!("Notification" in window)) return
+    setPermission(await Notification.requestPermission())
+  }, [])
+
+  return { permission, requestPermission, now }
+}
@@ -0,0 +1,6 @@
+import { assertClientIdentifiable } from '@/lib/api/rate-limit';
+
+// Runs once when the Next.js server starts, so a misconfigured deployment fails before serving requests.
+export function register() {
+  assertClientIdentifiable();
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import type { FlowResult } from '@/ai/flow-result';
+import { createFlowRoute } from './flow-route';
+import { createInMemoryRateLimitStore, createTokenBucketRateLimiter } from './rate-limit';
+
+const schema = z.object({ healthCondition: z.string().min(1) });
+
+function createRoute(run: (input: { healthCondition: string }) => Promise<FlowResult<unknown>>, capacity = 10) {
+  return createFlowRoute({
+    name: 'test',
+    schema,
+    run,
+    rateLimiter: createTokenBucketRateLimiter({ capacity, refillPerSecond: 0.001, store: createInMemoryRateLimitStore() }),
+    maxBodyBytes: 100,
+  });
+}
+
+const post = (body: string) =>
+  new Request('http://localhost/api/v1/test', { method: 'POST', body, headers: { 'x-forwarded-for': '203.0.113.7' } });
+
+test('runs the flow with the validated input and wraps the result', async () => {
+  const calls: unknown[] = [];
+  const route = createRoute(async (input) => {
+    calls.push(input);
+    return { ok: true, data: { conditions: [] } };
+  });
+  const response = await route(post(JSON.stringify({ healthCondition: 'Cold' })));
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ data: { conditions: [] } });
+  expect(response.headers.get('X-RateLimit-Remaining')).toBe('9');
+  expect(calls).toEqual([{ healthCondition: 'Cold' }]);
+});
+
+test('returns uniform error envelopes for bad requests and flow failures', async () => {
+  const route = createRoute(async () => {
+    throw new Error('model unavailable');
+  });
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  const invalidJson = await route(post('{'));
+  expect(invalidJson.status).toBe(400);
+  expect((await invalidJson.json()).error.code).toBe('invalid_json');
+
+  const invalid = await route(post(JSON.stringify({ healthCondition: '' })));
+  expect(invalid.status).toBe(422);
+  expect(await invalid.json()).toEqual({
+    error: {
+      code: 'validation_failed',
+      message: 'Request body does not match the expected schema.',
+      details: [{ path: 'healthCondition', message: expect.any(String) }],
+    },
+  });
+
+  const tooLarge = await route(post(JSON.stringify({ healthCondition: 'x'.repeat(200) })));
+  expect(tooLarge.status).toBe(413);
+
+  const failed = await route(post(JSON.stringify({ healthCondition: 'Cold' })));
+  expect(failed.status).toBe(500);
+  expect((await failed.json()).error).toEqual({ code: 'internal_error', message: expect.any(String) });
+});
+
+test('rejects oversized bodies without reading them in full', async () => {
+  const route = createRoute(async () => ({ ok: true, data: {} }));
+  const declared = new Request('http://localhost/api/v1/test', {
+    method: 'POST',
+    body: JSON.stringify({ healthCondition: 'Cold' }),
+    headers: { 'content-length': '1000' },
+  });
+  expect((await route(declared)).status).toBe(413);
+
+  let pulls = 0;
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulls += 1;
+      controller.enqueue(new Uint8Array(40));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  const streamed = { headers: new Headers(), body } as unknown as Request;
+  expect((await route(streamed)).status).toBe(413);
+  expect(cancelled).toBe(true);
+  expect(pulls).toBeLessThan(10);
+});
+
+test('maps flow error codes to API errors', async () => {
+  const route = createRoute(async () => ({ ok: false, error: { code: 'quota', message: 'The AI service is busy right now.' } }));
+  const response = await route(post(JSON.stringify({ healthCondition: 'Cold' })));
+  expect(response.status).toBe(503);
+  expect(await response.json()).toEqual({ error: { code: 'model_quota_exceeded', message: 'The AI service is busy right now.' } });
+});
+
+test('rejects clients that exceed the rate limit', async () => {
+  const route = createRoute(async () => ({ ok: true, data: {} }), 1);
+  expect((await route(post(JSON.stringify({ healthCondition: 'Cold' })))).status).toBe(200);
+  const limited = await route(post(JSON.stringify({ healthCondition: 'Cold' })));
+  expect(limited.status).toBe(429);
+  expect(limited.headers.get('Retry-After')).not.toBeNull();
+  expect((await limited.json()).error.code).toBe('rate_limited');
+});
+
+test('limits clients without proxy configuration by their own connection address', async () => {
+  const route = createRoute(async () => ({ ok: true, data: {} }), 1);
+  const fromPeer = (ip: string) =>
+    Object.assign(new Request('http://localhost/api/v1/test', { method: 'POST', body: JSON.stringify({ healthCondition: 'Cold' }) }), { ip });
+  expect((await route(fromPeer('198.51.100.2'))).status).toBe(200);
+  expect((await route(fromPeer('198.51.100.3'))).status).toBe(200);
+  expect((await route(fromPeer('198.51.100.2'))).status).toBe(429);
+});
+
+test("gives the app's own pages a separate limit", async () => {
+  const route = createFlowRoute({
+    name: 'test',
+    schema,
+    run: async () => ({ ok: true, data: {} }),
+    rateLimiter: createTokenBucketRateLimiter({ capacity: 1, refillPerSecond: 0.001, store: createInMemoryRateLimitStore() }),
+    appRateLimiter: createTokenBucketRateLimiter({ capacity: 2, refillPerSecond: 0.001, store: createInMemoryRateLimitStore() }),
+  });
+  const fromPage = () =>
+    new Request('http://localhost/api/v1/test', {
+      method: 'POST',
+      body: JSON.stringify({ healthCondition: 'Cold' }),
+      headers: { 'sec-fetch-site': 'same-origin' },
+    });
+  expect((await route(post(JSON.stringify({ healthCondition: 'Cold' })))).status).toBe(200);
+  expect((await route(fromPage())).status).toBe(200);
+  expect((await route(fromPage())).status).toBe(200);
+  expect((await route(fromPage())).status).toBe(429);
+});
@@ -0,0 +1,200 @@
+/**
+ * @fileOverview Builds the POST handlers of the REST API routes under `src/app/api/v1/`. Each
+ * handler rate-limits the client, validates the JSON body with the flow's input schema, runs the
+ * flow and wraps the result in the envelopes from `@/lib/api/responses`. Flow failures keep their
+ * code, mapped to the matching API error.
+ *
+ * - createFlowRoute - A route handler for one flow.
+ * - createFlowStreamRoute - A route handler streaming a flow's partial output as newline-delimited JSON.
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { FlowErrorCode, FlowResult } from '@/ai/flow-result';
+import { errorResponse, jsonResponse, type ApiErrorCode, type FlowStreamEvent } from '@/lib/api/responses';
+import {
+  DEVELOPMENT_CLIENT,
+  apiRateLimiter,
+  appRateLimiter as defaultAppRateLimiter,
+  getClientIp,
+  isAppRequest,
+  type RateLimiter,
+} from '@/lib/api/rate-limit';
+
+// Bodies above this size are rejected without being read in full; prescription images are the largest.
+export const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const INTERNAL_ERROR_MESSAGE = 'The request could not be completed. Please try again.';
+
+interface FlowRequestOptions<Input> {
+  schema: ZodType<Input, ZodTypeDef, unknown>;
+  rateLimiter?: RateLimiter;
+  // For requests from the app's own pages
+  appRateLimiter?: RateLimiter;
+  maxBodyBytes?: number;
+}
+
+export interface FlowRouteOptions<Input, Output> extends FlowRequestOptions<Input> {
+  name: string;
+  run: (input: Input) => Promise<FlowResult<Output>>;
+}
+
+export interface FlowStreamRouteOptions<Input, Output, Partial> extends FlowRequestOptions<Input> {
+  name: string;
+  stream: (input: Input, onPartial: (partial: Partial) => void) => Promise<FlowResult<Output>>;
+}
+
+const FLOW_ERROR_API_CODES: Record<FlowErrorCode, ApiErrorCode> = {
+  safety_blocked: 'safety_blocked',
+  schema_invalid: 'model_output_invalid',
+  quota: 'model_quota_exceeded',
+  timeout: 'model_timeout',
+  unknown: 'internal_error',
+};
+
+type FlowRequest<Input> =
+  | { ok: true; input: Input; headers: Record<string, string> }
+  | { ok: false; response: Response };
+
+/**
+ * The body as text, or null when it is larger than `maxBytes`. A declared Content-Length is
+ * checked before anything is read, and the stream is cancelled as soon as it goes over.
+ */
+async function readBodyText(request: Request, maxBytes: number): Promise<string | null> {
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > maxBytes) return null;
+  // Without a body stream (as with the fetch polyfill) the body can only be read whole
+  if (!request.body) {
+    const text = await request.text();
+    return new Blob([text]).size > maxBytes ? null : text;
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// Everything both kinds of route do before running the flow
+async function readFlowRequest<Input>(
+  request: Request,
+  { schema, rateLimiter = apiRateLimiter, appRateLimiter = defaultAppRateLimiter, maxBodyBytes = DEFAULT_MAX_BODY_BYTES }: FlowRequestOptions<Input>
+): Promise<FlowRequest<Input>> {
+  // Production servers refuse to start without a way to identify clients (see assertClientIdentifiable),
+  // so an unidentified request there did not come through the proxies and cannot be limited fairly.
+  const clientIp = getClientIp(request) ?? (process.env.NODE_ENV === 'production' ? null : DEVELOPMENT_CLIENT);
+  if (!clientIp) {
+    console.error('API request without a client address; check TRUSTED_PROXIES');
+    return { ok: false, response: errorResponse('internal_error', INTERNAL_ERROR_MESSAGE) };
+  }
+  const limiter = isAppRequest(request) ? appRateLimiter : rateLimiter;
+  const limit = await limiter.consume(clientIp);
+  const rateLimitHeaders = {
+    'X-RateLimit-Limit': String(limit.limit),
+    'X-RateLimit-Remaining': String(limit.remaining),
+  };
+  if (!limit.allowed) {
+    return {
+      ok: false,
+      response: errorResponse('rate_limited', 'Too many requests. Please try again later.', {
+        headers: { ...rateLimitHeaders, 'Retry-After': String(limit.retryAfterSeconds) },
+      }),
+    };
+  }
+
+  const text = await readBodyText(request, maxBodyBytes);
+  if (text === null) {
+    return {
+      ok: false,
+      response: errorResponse('payload_too_large', `Request body must be at most ${maxBodyBytes} bytes.`, { headers: rateLimitHeaders }),
+    };
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { ok: false, response: errorResponse('invalid_json', 'Request body must be valid JSON.', { headers: rateLimitHeaders }) };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      ok: false,
+      response: errorResponse('validation_failed', 'Request body does not match the expected schema.', {
+        details: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+        headers: rateLimitHeaders,
+      }),
+    };
+  }
+  return { ok: true, input: parsed.data, headers: rateLimitHeaders };
+}
+
+export function createFlowRoute<Input, Output>({ name, run, ...options }: FlowRouteOptions<Input, Output>) {
+  return async function POST(request: Request): Promise<Response> {
+    const flowRequest = await readFlowRequest(request, options);
+    if (!flowRequest.ok) return flowRequest.response;
+
+    try {
+      const result = await run(flowRequest.input);
+      if (!result.ok) {
+        return errorResponse(FLOW_ERROR_API_CODES[result.error.code], result.error.message, { headers: flowRequest.headers });
+      }
+      return jsonResponse(result.data, flowRequest.headers);
+    } catch (e) {
+      console.error(`API ${name} failed`, e);
+      return errorResponse('internal_error', INTERNAL_ERROR_MESSAGE, { headers: flowRequest.headers });
+    }
+  };
+}
+
+/**
+ * Requests that fail before the flow starts get the usual error responses. Once streaming, every
+ * event is one JSON line (see `FlowStreamEvent`). Genkit cannot abort a model call, so when the
+ * client disconnects the generation still finishes but nothing more is sent.
+ */
+export function createFlowStreamRoute<Input, Output, Partial>({ name, stream, ...options }: FlowStreamRouteOptions<Input, Output, Partial>) {
+  return async function POST(request: Request): Promise<Response> {
+    const flowRequest = await readFlowRequest(request, options);
+    if (!flowRequest.ok) return flowRequest.response;
+
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: FlowStreamEvent<Output, Partial>) => {
+          if (!cancelled) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+        try {
+          const result = await stream(flowRequest.input, partial => send({ partial }));
+          send(result.ok ? { data: result.data } : { error: result.error });
+        } catch (e) {
+          console.error(`API ${name} stream failed`, e);
+          send({ error: { code: 'unknown', message: INTERNAL_ERROR_MESSAGE } });
+        }
+        if (!cancelled) controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+    return new Response(body, {
+      headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache', ...flowRequest.headers },
+    });
+  };
+}
@@ -0,0 +1,22 @@
+import { fetchFlowStream } from './flow-stream-client';
+
+const respondWith = (response: Response) => jest.spyOn(global, 'fetch').mockResolvedValue(response);
+const fetchStream = () => fetchFlowStream('/api/v1/test/stream', {}, { onPartial: () => {} });
+
+afterEach(() => jest.restoreAllMocks());
+
+test('keeps the error code of requests rejected before streaming', async () => {
+  respondWith(new Response(
+    JSON.stringify({ error: { code: 'payload_too_large', message: 'The request body is too large.' } }),
+    { status: 413 }
+  ));
+  expect(await fetchStream()).toEqual({ ok: false, error: { code: 'payload_too_large', message: 'The request body is too large.' } });
+});
+
+test('falls back when the error response has no code', async () => {
+  respondWith(new Response('<html>Bad gateway</html>', { status: 502 }));
+  expect(await fetchStream()).toEqual({ ok: false, error: { code: 'unknown', message: expect.any(String) } });
+
+  respondWith(new Response(JSON.stringify({ error: { code: 'not_a_code' } }), { status: 429 }));
+  expect(await fetchStream()).toEqual({ ok: false, error: { code: 'quota', message: expect.any(String) } });
+});
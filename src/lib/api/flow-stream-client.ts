@@ -0,0 +1,70 @@
+/**
+ * @fileOverview Browser side of the streaming API routes: posts the flow input and reads the
+ * newline-delimited JSON events as they arrive.
+ *
+ * - fetchFlowStream - Calls a streaming route, reporting partial output until the final result.
+ * - FlowStreamResult / FlowStreamError - The flow's result, or the API error that rejected the request.
+ */
+
+import type { FlowErrorCode } from '@/ai/flow-result';
+import { isApiErrorCode, type ApiErrorCode, type FlowStreamEvent } from '@/lib/api/responses';
+
+// Requests rejected before streaming started keep the route's error code, e.g. `validation_failed`.
+export interface FlowStreamError {
+  code: FlowErrorCode | ApiErrorCode;
+  message: string;
+}
+
+export type FlowStreamResult<T> = { ok: true; data: T } | { ok: false; error: FlowStreamError };
+
+export interface FlowStreamOptions<Partial> {
+  onPartial: (partial: Partial) => void;
+  // Aborting rejects the returned promise with an AbortError
+  signal?: AbortSignal;
+}
+
+const FAILED_MESSAGE = 'The request could not be completed. Please try again.';
+
+export async function fetchFlowStream<Output, Partial>(
+  url: string,
+  input: unknown,
+  { onPartial, signal }: FlowStreamOptions<Partial>
+): Promise<FlowStreamResult<Output>> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+    signal,
+  });
+  // Requests rejected before streaming started use the regular error envelope.
+  if (!response.ok || !response.body) {
+    const body: unknown = await response.json().catch(() => null);
+    const { code, message } = (body as { error?: { code?: unknown; message?: unknown } } | null)?.error ?? {};
+    return {
+      ok: false,
+      error: {
+        code: isApiErrorCode(code) ? code : response.status === 429 ? 'quota' : 'unknown',
+        message: typeof message === 'string' ? message : FAILED_MESSAGE,
+      },
+    };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: FlowStreamEvent<Output, Partial> = JSON.parse(line);
+      if ('partial' in event) onPartial(event.partial);
+      else if ('data' in event) return { ok: true, data: event.data };
+      else return { ok: false, error: event.error };
+    }
+    if (done) break;
+  }
+  return { ok: false, error: { code: 'unknown', message: FAILED_MESSAGE } };
+}
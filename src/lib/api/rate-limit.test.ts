@@ -0,0 +1,70 @@
+import {
+  assertClientIdentifiable,
+  createInMemoryRateLimitStore,
+  createTokenBucketRateLimiter,
+  getClientIp,
+  isAppRequest,
+  resolveTrustedProxies,
+} from './rate-limit';
+
+const createLimiter = () =>
+  createTokenBucketRateLimiter({ capacity: 2, refillPerSecond: 1, store: createInMemoryRateLimitStore() });
+
+test('allows a burst up to capacity, then refills over time', async () => {
+  const limiter = createLimiter();
+  expect((await limiter.consume('1.2.3.4', 0)).allowed).toBe(true);
+  expect(await limiter.consume('1.2.3.4', 0)).toEqual({ allowed: true, limit: 2, remaining: 0, retryAfterSeconds: 0 });
+  expect(await limiter.consume('1.2.3.4', 500)).toEqual({ allowed: false, limit: 2, remaining: 0, retryAfterSeconds: 1 });
+  expect((await limiter.consume('1.2.3.4', 1500)).allowed).toBe(true);
+});
+
+test('keeps a separate bucket per client', async () => {
+  const limiter = createLimiter();
+  await limiter.consume('a', 0);
+  await limiter.consume('a', 0);
+  expect((await limiter.consume('a', 0)).allowed).toBe(false);
+  expect((await limiter.consume('b', 0)).allowed).toBe(true);
+});
+
+test('drops the oldest bucket when the in-memory store is full', async () => {
+  const store = createInMemoryRateLimitStore(2);
+  await store.set('a', { tokens: 0, updatedAt: 0 });
+  await store.set('b', { tokens: 0, updatedAt: 0 });
+  await store.set('c', { tokens: 0, updatedAt: 0 });
+  expect(await store.get('a')).toBeUndefined();
+  expect(await store.get('c')).toEqual({ tokens: 0, updatedAt: 0 });
+});
+
+const withHeaders = (values: Record<string, string>) => ({ headers: { get: (name: string) => values[name] ?? null } }) as unknown as Request;
+
+test('ignores forwarded headers unless a trusted proxy is configured', () => {
+  const request = withHeaders({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' });
+  expect(getClientIp(request, { trustedProxies: [], remoteAddress: '198.51.100.2' })).toBe('198.51.100.2');
+  expect(getClientIp(request, { trustedProxies: [] })).toBeNull();
+});
+
+test('identifies clients behind trusted proxies by the right-most untrusted hop', () => {
+  const trustedProxies = ['10.0.0.1', '10.0.0.2'];
+  const spoofed = withHeaders({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2' });
+  expect(getClientIp(spoofed, { trustedProxies, remoteAddress: '10.0.0.1' })).toBe('203.0.113.7');
+  expect(getClientIp(withHeaders({ 'x-real-ip': '203.0.113.8' }), { trustedProxies, remoteAddress: '::ffff:10.0.0.1' })).toBe('203.0.113.8');
+  // Requests that did not come through the proxy are limited by their own address
+  expect(getClientIp(spoofed, { trustedProxies, remoteAddress: '198.51.100.2' })).toBe('198.51.100.2');
+});
+
+test('reads trusted proxies from the environment', () => {
+  expect(resolveTrustedProxies({ TRUSTED_PROXIES: ' 10.0.0.1, ::FFFF:10.0.0.2,' })).toEqual(['10.0.0.1', '10.0.0.2']);
+  expect(resolveTrustedProxies({})).toEqual([]);
+});
+
+test('refuses to start in production without trusted proxies', () => {
+  expect(() => assertClientIdentifiable({ NODE_ENV: 'production' })).toThrow(/TRUSTED_PROXIES/);
+  expect(() => assertClientIdentifiable({ NODE_ENV: 'production', TRUSTED_PROXIES: '10.0.0.1' })).not.toThrow();
+  expect(() => assertClientIdentifiable({ NODE_ENV: 'development' })).not.toThrow();
+});
+
+test("recognizes requests from the app's own pages", () => {
+  expect(isAppRequest(withHeaders({ 'sec-fetch-site': 'same-origin' }))).toBe(true);
+  expect(isAppRequest(withHeaders({ 'sec-fetch-site': 'cross-site' }))).toBe(false);
+  expect(isAppRequest(withHeaders({}))).toBe(false);
+});
@@ -0,0 +1,160 @@
+/**
+ * @fileOverview Per-client token-bucket rate limiting for the REST API. Bucket state lives behind
+ * the `RateLimitStore` interface, so the in-memory store used by default can be replaced by a
+ * shared backend (e.g. Redis) when the API runs on more than one instance.
+ *
+ * - createTokenBucketRateLimiter - A limiter with a given burst capacity and refill rate.
+ * - createInMemoryRateLimitStore - Process-local bucket storage.
+ * - apiRateLimiter - The limiter applied to v1 routes called by API clients.
+ * - appRateLimiter - The limiter applied to requests from the app's own pages.
+ * - isAppRequest - Whether a request was made by the app's own pages.
+ * - getClientIp - The client address a request is limited by.
+ * - assertClientIdentifiable - Startup check that clients can be told apart in production.
+ * - resolveTrustedProxies - The proxies whose forwarded headers are believed, from the environment.
+ */
+
+export interface TokenBucketState {
+  tokens: number;
+  // Epoch milliseconds of the last refill
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<TokenBucketState | undefined>;
+  set(key: string, state: TokenBucketState): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until a request would be allowed again; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  consume(key: string, now?: number): Promise<RateLimitResult>;
+}
+
+export interface TokenBucketOptions {
+  // Maximum burst of requests
+  capacity: number;
+  refillPerSecond: number;
+  store: RateLimitStore;
+}
+
+export const API_RATE_LIMIT_PER_MINUTE = 20;
+export const APP_RATE_LIMIT_PER_MINUTE = 60;
+
+/**
+ * Keeps at most `maxEntries` buckets; the least recently written one is dropped first, which only
+ * ever resets a client to a full bucket.
+ */
+export function createInMemoryRateLimitStore(maxEntries: number = 10_000): RateLimitStore {
+  const buckets = new Map<string, TokenBucketState>();
+  return {
+    async get(key) {
+      return buckets.get(key);
+    },
+    async set(key, state) {
+      buckets.delete(key);
+      buckets.set(key, state);
+      if (buckets.size > maxEntries) {
+        buckets.delete(buckets.keys().next().value as string);
+      }
+    },
+  };
+}
+
+export function createTokenBucketRateLimiter({ capacity, refillPerSecond, store }: TokenBucketOptions): RateLimiter {
+  return {
+    async consume(key, now = Date.now()) {
+      const state = (await store.get(key)) ?? { tokens: capacity, updatedAt: now };
+      const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000;
+      const tokens = Math.min(capacity, state.tokens + elapsedSeconds * refillPerSecond);
+      if (tokens < 1) {
+        await store.set(key, { tokens, updatedAt: now });
+        return { allowed: false, limit: capacity, remaining: 0, retryAfterSeconds: Math.ceil((1 - tokens) / refillPerSecond) };
+      }
+      await store.set(key, { tokens: tokens - 1, updatedAt: now });
+      return { allowed: true, limit: capacity, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 };
+    },
+  };
+}
+
+export const apiRateLimiter = createTokenBucketRateLimiter({
+  capacity: API_RATE_LIMIT_PER_MINUTE,
+  refillPerSecond: API_RATE_LIMIT_PER_MINUTE / 60,
+  store: createInMemoryRateLimitStore(),
+});
+
+// The app's own pages stream several flows per symptom check, so they get a separate, larger budget.
+export const appRateLimiter = createTokenBucketRateLimiter({
+  capacity: APP_RATE_LIMIT_PER_MINUTE,
+  refillPerSecond: APP_RATE_LIMIT_PER_MINUTE / 60,
+  store: createInMemoryRateLimitStore(),
+});
+
+// The bucket used in development, where route handlers cannot tell clients apart; see getClientIp.
+export const DEVELOPMENT_CLIENT = 'development';
+
+export interface ClientIpOptions {
+  // Addresses of the reverse proxies in front of the app; forwarded headers are ignored without them
+  trustedProxies?: string[];
+  // The address the connection came from, when the runtime exposes it
+  remoteAddress?: string;
+}
+
+// TRUSTED_PROXIES is a comma-separated list of proxy addresses.
+export function resolveTrustedProxies(env: Record<string, string | undefined> = process.env): string[] {
+  return (env.TRUSTED_PROXIES ?? '').split(',').map(normalizeAddress).filter(Boolean);
+}
+
+function normalizeAddress(address: string): string {
+  return address.trim().toLowerCase().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+}
+
+/**
+ * Forwarded headers can be set by anyone, so they are only read when the request came through a
+ * trusted proxy. Each proxy appends the address it received the request from to X-Forwarded-For,
+ * so the client is the right-most entry that is not one of our proxies. Without trusted proxies
+ * the connection address is used. Null when the client cannot be identified.
+ */
+export function getClientIp(
+  request: Request,
+  { trustedProxies = resolveTrustedProxies(), remoteAddress = (request as Request & { ip?: string }).ip }: ClientIpOptions = {}
+): string | null {
+  const peer = remoteAddress ? normalizeAddress(remoteAddress) : '';
+  const trusted = new Set(trustedProxies.map(normalizeAddress));
+  if (trusted.size === 0 || (peer && !trusted.has(peer))) return peer || null;
+
+  const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(normalizeAddress).filter(Boolean);
+  const client = [...hops].reverse().find(hop => !trusted.has(hop));
+  if (client) return client;
+  if (hops.length === 0) {
+    const realIp = normalizeAddress(request.headers.get('x-real-ip') ?? '');
+    if (realIp && !trusted.has(realIp)) return realIp;
+  }
+  // Every hop is one of our proxies, so the request came from one of them
+  return hops[0] ?? (peer || null);
+}
+
+/**
+ * Next.js route handlers are not given the connection address, so in production clients can only
+ * be told apart through trusted proxies. Called when the server starts, so a deployment without
+ * them fails there rather than limiting all of its users as one client.
+ */
+export function assertClientIdentifiable(env: Record<string, string | undefined> = process.env): void {
+  if (env.NODE_ENV === 'production' && resolveTrustedProxies(env).length === 0) {
+    throw new Error('Set TRUSTED_PROXIES to the addresses of the reverse proxies in front of the app, so API clients can be rate-limited by address.');
+  }
+}
+
+/**
+ * Browsers mark requests from the app's own pages as same-origin, and page scripts cannot change
+ * that. Other clients can send the header too, which only moves them to the app's limit, still
+ * counted per client.
+ */
+export function isAppRequest(request: Request): boolean {
+  return request.headers.get('sec-fetch-site') === 'same-origin';
+}
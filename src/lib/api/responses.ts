@@ -0,0 +1,79 @@
+/**
+ * @fileOverview JSON envelopes shared by every REST API route. Successful responses wrap the flow
+ * output as `{ data }`; failures are `{ error: { code, message, details? } }` with a matching status.
+ * Streaming routes send one event per line instead, ending with the same `{ data }` or `{ error }`.
+ *
+ * - jsonResponse - A successful response.
+ * - errorResponse - A failed response in the uniform error envelope.
+ * - ApiErrorCode / isApiErrorCode - Machine-readable error codes clients can branch on.
+ * - FlowStreamEvent - A line of a streaming route's newline-delimited JSON body.
+ */
+
+import type { FlowError } from '@/ai/flow-result';
+
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'validation_failed'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'safety_blocked'
+  | 'model_output_invalid'
+  | 'model_quota_exceeded'
+  | 'model_timeout'
+  | 'internal_error';
+
+export interface ApiErrorDetail {
+  path: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: ApiErrorDetail[];
+  };
+}
+
+export interface ApiSuccessBody<T> {
+  data: T;
+}
+
+// Stream failures keep the flow's error code, since the 200 status has already been sent.
+export type FlowStreamEvent<Output, Partial> = { partial: Partial } | { data: Output } | { error: FlowError };
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_json: 400,
+  validation_failed: 422,
+  payload_too_large: 413,
+  rate_limited: 429,
+  safety_blocked: 422,
+  model_output_invalid: 502,
+  model_quota_exceeded: 503,
+  model_timeout: 504,
+  internal_error: 500,
+};
+
+export function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ERROR_STATUS, value);
+}
+
+export function jsonResponse<T>(data: T, headers: Record<string, string> = {}): Response {
+  const body: ApiSuccessBody<T> = { data };
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+export function errorResponse(
+  code: ApiErrorCode,
+  message: string,
+  options: { details?: ApiErrorDetail[]; headers?: Record<string, string> } = {}
+): Response {
+  const body: ApiErrorBody = { error: { code, message, ...(options.details && { details: options.details }) } };
+  return new Response(JSON.stringify(body), {
+    status: ERROR_STATUS[code],
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+  });
+}
@@ -0,0 +1,88 @@
+import { parseDosingSchedule } from '@/lib/dosing-schedule';
+
+test('parses "twice daily after food for 10 days"', () => {
+  expect(parseDosingSchedule('twice daily after food for 10 days')).toEqual({
+    timesOfDay: ['08:00', '20:00'],
+    asNeeded: false,
+    mealTiming: 'after_food',
+    durationDays: 10,
+    recognized: true,
+  });
+});
+
+test('parses common frequency phrasings', () => {
+  expect(parseDosingSchedule('Once a day').timesOfDay).toEqual(['08:00']);
+  expect(parseDosingSchedule('3 times a day').timesOfDay).toEqual(['08:00', '14:00', '20:00']);
+  expect(parseDosingSchedule('TDS').timesOfDay).toEqual(['08:00', '14:00', '20:00']);
+  expect(parseDosingSchedule('BD').timesOfDay).toEqual(['08:00', '20:00']);
+  expect(parseDosingSchedule('every 6 hours').timesOfDay).toEqual(['08:00', '14:00', '20:00', '02:00']);
+  expect(parseDosingSchedule('Once at bedtime').timesOfDay).toEqual(['21:00']);
+  expect(parseDosingSchedule('morning and night').timesOfDay).toEqual(['08:00', '21:00']);
+});
+
+test('parses slot notation', () => {
+  expect(parseDosingSchedule('1-0-1').timesOfDay).toEqual(['08:00', '21:00']);
+  expect(parseDosingSchedule('1-1-1').timesOfDay).toEqual(['08:00', '14:00', '21:00']);
+});
+
+test('handles as-needed medications', () => {
+  const schedule = parseDosingSchedule('Every 6 hours as needed for pain');
+  expect(schedule.asNeeded).toBe(true);
+  expect(schedule.timesOfDay).toEqual([]);
+  expect(schedule.recognized).toBe(true);
+});
+
+test('parses durations in days, weeks and months', () => {
+  expect(parseDosingSchedule('BD', '5 days').durationDays).toBe(5);
+  expect(parseDosingSchedule('BD', 'Two weeks').durationDays).toBe(14);
+  expect(parseDosingSchedule('OD', '1 month').durationDays).toBe(30);
+  expect(parseDosingSchedule('OD', 'until finished').durationDays).toBeUndefined();
+  expect(parseDosingSchedule('twice a day').durationDays).toBeUndefined();
+});
+
+test('reads meal timing and frequency hints from notes', () => {
+  const schedule = parseDosingSchedule(undefined, undefined, 'Take at bedtime, before food');
+  expect(schedule.timesOfDay).toEqual(['21:00']);
+  expect(schedule.mealTiming).toBe('before_food');
+});
+
+test('falls back to once daily when the frequency is not understood', () => {
+  expect(parseDosingSchedule('as directed by physician')).toMatchObject({ timesOfDay: ['08:00'], recognized: false });
+});
+
+test('schedules weekly, alternate-day and every-N-days medications on their dosing days only', () => {
+  expect(parseDosingSchedule('Once a week', '4 weeks')).toEqual({
+    timesOfDay: ['08:00'],
+    intervalDays: 7,
+    asNeeded: false,
+    mealTiming: undefined,
+    durationDays: 28,
+    recognized: true,
+  });
+  expect(parseDosingSchedule('once weekly').intervalDays).toBe(7);
+  expect(parseDosingSchedule('Weekly on Sunday').intervalDays).toBe(7);
+  expect(parseDosingSchedule('Alternate days').intervalDays).toBe(2);
+  expect(parseDosingSchedule('every other day at bedtime')).toMatchObject({ timesOfDay: ['21:00'], intervalDays: 2 });
+  expect(parseDosingSchedule('every 3 days').intervalDays).toBe(3);
+  expect(parseDosingSchedule('every 2 weeks').intervalDays).toBe(14);
+});
+
+test('does not read a course length as a weekly interval', () => {
+  expect(parseDosingSchedule('once daily for 4 weeks')).toMatchObject({ timesOfDay: ['08:00'], durationDays: 28 });
+  expect(parseDosingSchedule('once daily for 4 weeks').intervalDays).toBeUndefined();
+});
+
+test('leaves intervals that cannot be spread evenly for the user to time', () => {
+  expect(parseDosingSchedule('twice a week')).toMatchObject({ timesOfDay: [], recognized: false });
+  expect(parseDosingSchedule('3 times a week')).toMatchObject({ timesOfDay: [], recognized: false });
+  expect(parseDosingSchedule('once a month')).toMatchObject({ timesOfDay: [], recognized: false });
+});
+
+test('parses explicit clock times before parts of the day', () => {
+  expect(parseDosingSchedule('at 2 pm').timesOfDay).toEqual(['14:00']);
+  expect(parseDosingSchedule('once daily at 7:30am').timesOfDay).toEqual(['07:30']);
+  expect(parseDosingSchedule('twice daily at 9 a.m. and 9 p.m.').timesOfDay).toEqual(['09:00', '21:00']);
+  expect(parseDosingSchedule('at 22:00').timesOfDay).toEqual(['22:00']);
+  expect(parseDosingSchedule('12 pm and 12 am').timesOfDay).toEqual(['00:00', '12:00']);
+  expect(parseDosingSchedule('twice daily, first dose at 7 am').timesOfDay).toEqual(['08:00', '20:00']);
+});
@@ -0,0 +1,213 @@
+/**
+ * @fileOverview Normalizes free-text prescription frequency and duration strings (as extracted by
+ * analyzePrescription) into a structured dosing schedule.
+ *
+ * Understands phrases such as "twice daily after food", "every 6 hours", "BD", "1-0-1", "at bedtime",
+ * "at 2 pm", "as needed", intervals longer than a day ("once a week", "alternate days", "every 3 days")
+ * and durations like "for 10 days", "2 weeks" or "1 month".
+ *
+ * - parseDosingSchedule - Parses frequency, duration and notes into a DosingSchedule.
+ * - DosingSchedule - The structured schedule.
+ */
+
+export type MealTiming = 'before_food' | 'after_food' | 'with_food';
+
+export interface DosingSchedule {
+  // Dose times as "HH:MM" (24h), in order. Empty for as-needed medications, and for intervals that
+  // cannot be scheduled automatically (e.g. "twice a week"), which the user has to time themselves.
+  timesOfDay: string[];
+  // Days from one dosing day to the next, e.g. 7 for weekly and 2 for alternate days. Undefined for daily.
+  intervalDays?: number;
+  asNeeded: boolean;
+  mealTiming?: MealTiming;
+  // Undefined when the course is ongoing or no duration was given
+  durationDays?: number;
+  // False when the frequency could not be understood and a once-daily default was used, or when it
+  // could not be turned into reminders at all
+  recognized: boolean;
+}
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fourteen: 14, fifteen: 15, twenty: 20, thirty: 30,
+};
+
+// Default clock times for N evenly spread daily doses
+const DEFAULT_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00'],
+};
+
+const MORNING = '08:00';
+const AFTERNOON = '14:00';
+const EVENING = '18:00';
+const BEDTIME = '21:00';
+
+function toNumber(value: string): number | undefined {
+  const lower = value.toLowerCase();
+  return /^\d+$/.test(lower) ? parseInt(lower, 10) : WORD_NUMBERS[lower];
+}
+
+function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60) % 24;
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function timesForCount(count: number): string[] {
+  if (DEFAULT_TIMES[count]) return DEFAULT_TIMES[count];
+  // Spread any other count evenly across a 08:00–22:00 waking window.
+  const step = Math.floor((14 * 60) / Math.max(count - 1, 1));
+  return Array.from({ length: count }, (_, index) => formatTime(8 * 60 + index * step));
+}
+
+function timesForInterval(hours: number): string[] {
+  const count = Math.max(1, Math.floor(24 / hours));
+  return Array.from({ length: count }, (_, index) => formatTime(8 * 60 + index * hours * 60));
+}
+
+const NUMBER_WORD = '\\b(\\d+|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fourteen|fifteen|twenty|thirty)';
+
+// Explicit clock times: "2 pm", "8:30am", "20:00". Bare numbers are not times ("1 tablet").
+function parseClockTimes(text: string): string[] {
+  const times = new Set<string>();
+  for (const match of Array.from(text.matchAll(/\b(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?\s?m\b\.?/gi))) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2] ?? 0);
+    if (hours < 1 || hours > 12 || minutes > 59) continue;
+    const isPm = match[3].toLowerCase() === 'p';
+    times.add(formatTime(((hours % 12) + (isPm ? 12 : 0)) * 60 + minutes));
+  }
+  for (const match of Array.from(text.matchAll(/\b([01]?\d|2[0-3]):([0-5]\d)\b(?!\s*[ap]\.?\s?m\b)/gi))) {
+    times.add(formatTime(Number(match[1]) * 60 + Number(match[2])));
+  }
+  return Array.from(times).sort();
+}
+
+const WEEKLY_COUNTS: Record<string, number> = { once: 1, twice: 2, thrice: 3 };
+
+type IntervalParse = { intervalDays: number } | 'unsupported' | null;
+
+/**
+ * Dosing less often than daily. Evenly spaced intervals are returned in days; patterns that are not
+ * ("twice a week", "monthly", whose day lengths vary) are 'unsupported' rather than read as daily.
+ */
+function parseDayInterval(text: string): IntervalParse {
+  if (/\b(alternate|every\s+other|every\s+second)\s+days?\b|\b(eod|qod)\b/i.test(text)) return { intervalDays: 2 };
+
+  const everyDays = text.match(new RegExp(`every\\s+${NUMBER_WORD}\\s*(days?|weeks?|wks?)\\b`, 'i'));
+  if (everyDays) {
+    const amount = toNumber(everyDays[1]);
+    if (!amount) return 'unsupported';
+    const days = everyDays[2].toLowerCase().startsWith('w') ? amount * 7 : amount;
+    return days === 1 ? null : { intervalDays: days };
+  }
+
+  const perWeek = text.match(new RegExp(`${NUMBER_WORD}\\s*(?:x|times?)\\s*(?:a|per|each|in\\s+a)?\\s*(?:week|wk)\\b`, 'i'))
+    ?? text.match(/\b(once|twice|thrice)\s*(?:a|per|every|each|-)?\s*(?:week|wk)(?:ly)?\b/i);
+  if (perWeek) {
+    const count = WEEKLY_COUNTS[perWeek[1].toLowerCase()] ?? toNumber(perWeek[1]);
+    return count === 1 ? { intervalDays: 7 } : 'unsupported';
+  }
+  if (/\b(weekly|every\s+week|per\s+week|a\s+week|qw|qwk)\b/i.test(text)) return { intervalDays: 7 };
+  if (/\b(monthly|every\s+month|a\s+month|per\s+month|fortnightly)\b/i.test(text)) {
+    return /\bfortnightly\b/i.test(text) ? { intervalDays: 14 } : 'unsupported';
+  }
+  return null;
+}
+
+function parseTimesOfDay(text: string): string[] | null {
+  // Indian-style slot notation: "1-0-1" (morning-afternoon-night) or "1-1-1-1"
+  const slots = text.match(/\b([0-2](?:\s*[-–]\s*[0-2]){2,3})\b/);
+  if (slots) {
+    const values = slots[1].split(/\s*[-–]\s*/).map(Number);
+    const slotTimes = values.length === 3 ? [MORNING, AFTERNOON, BEDTIME] : [MORNING, AFTERNOON, EVENING, BEDTIME];
+    return values.flatMap((value, index) => Array(value).fill(slotTimes[index]));
+  }
+
+  // Explicit times win over default times, unless fewer are given than the doses counted ("twice daily, first at 7 am").
+  const clockTimes = parseClockTimes(text);
+  const counted = parseCountedTimes(text);
+  if (clockTimes.length > 0 && (!counted || clockTimes.length === counted.length)) return clockTimes;
+  if (counted) return counted;
+
+  const morning = /\b(morning|breakfast)\b/i.test(text);
+  const night = /\b(night|bedtime|bed\s*time|hs|evening|dinner)\b/i.test(text);
+  if (morning && night) return [MORNING, BEDTIME];
+  if (night) return [BEDTIME];
+  if (morning) return [MORNING];
+
+  if (/\b(once|od|qd|daily|every\s*day|a\s+day|per\s+day)\b/i.test(text)) return timesForCount(1);
+
+  return null;
+}
+
+// Doses given as a count or an hourly interval
+function parseCountedTimes(text: string): string[] | null {
+  const interval = text.match(new RegExp(`every\\s+${NUMBER_WORD}\\s*(?:-\\s*\\d+\\s*)?(?:hours?|hrs?|h)\\b`, 'i'))
+    ?? text.match(/\bq\s?(\d+)\s?h\b/i);
+  if (interval) {
+    const hours = toNumber(interval[1]);
+    if (hours && hours > 0 && hours <= 24) return timesForInterval(hours);
+  }
+
+  const timesPerDay = text.match(new RegExp(`${NUMBER_WORD}\\s*(?:x|times?)\\s*(?:a|per|each|in\\s+a)?\\s*(?:day|daily)`, 'i'));
+  if (timesPerDay) {
+    const count = toNumber(timesPerDay[1]);
+    if (count) return timesForCount(count);
+  }
+
+  if (/\b(four\s+times|qid|qds)\b/i.test(text)) return timesForCount(4);
+  if (/\b(thrice|tid|tds)\b/i.test(text)) return timesForCount(3);
+  if (/\b(twice|bid|bd)\b/i.test(text)) return timesForCount(2);
+
+  return null;
+}
+
+function parseMealTiming(text: string): MealTiming | undefined {
+  if (/\b(before|empty\s+stomach)\b.*?\b(food|meals?|breakfast|lunch|dinner|eating)\b|\bempty\s+stomach\b|\bac\b/i.test(text)) return 'before_food';
+  if (/\bafter\b.*?\b(food|meals?|breakfast|lunch|dinner|eating)\b|\bpc\b/i.test(text)) return 'after_food';
+  if (/\bwith\b.*?\b(food|meals?|milk)\b/i.test(text)) return 'with_food';
+  return undefined;
+}
+
+function parseDurationDays(text: string, requireFor = false): number | undefined {
+  const match = text.match(new RegExp(`${requireFor ? '\\bfor\\s+' : ''}${NUMBER_WORD}\\s*(days?|d|weeks?|wks?|months?)\\b`, 'i'));
+  if (!match) return undefined;
+  const amount = toNumber(match[1]);
+  if (!amount) return undefined;
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('w')) return amount * 7;
+  if (unit.startsWith('m')) return amount * 30;
+  return amount;
+}
+
+/**
+ * Parses a prescription's frequency and duration into a structured schedule. Notes are also scanned
+ * for meal timing and frequency hints (e.g. "take at bedtime").
+ */
+export function parseDosingSchedule(frequency?: string, duration?: string, notes?: string): DosingSchedule {
+  const frequencyText = [frequency, notes].filter(Boolean).join(' ');
+  const asNeeded = /\b(as\s+needed|as\s+required|when\s+needed|if\s+needed|prn|sos)\b/i.test(frequencyText);
+  const mealTiming = parseMealTiming(frequencyText);
+  // "for 10 days" sometimes ends up in the frequency string, so fall back to it.
+  const durationDays = parseDurationDays(duration ?? '') ?? parseDurationDays(frequency ?? '', true);
+  // The duration is read separately, so "for 4 weeks" must not be taken for a weekly interval.
+  const dayInterval = asNeeded ? null : parseDayInterval(frequencyText.replace(new RegExp(`\\bfor\\s+${NUMBER_WORD}\\s*(?:days?|d|weeks?|wks?|months?)\\b`, 'gi'), ''));
+
+  // A weekly drug given daily can be an overdose, so anything not evenly spaced gets no reminders at all.
+  if (dayInterval === 'unsupported') {
+    return { timesOfDay: [], asNeeded, mealTiming, durationDays, recognized: false };
+  }
+
+  const timesOfDay = asNeeded ? [] : parseTimesOfDay(frequencyText);
+  return {
+    timesOfDay: timesOfDay ?? (asNeeded ? [] : timesForCount(1)),
+    ...(dayInterval && { intervalDays: dayInterval.intervalDays }),
+    asNeeded,
+    mealTiming,
+    durationDays,
+    recognized: asNeeded || timesOfDay !== null || dayInterval !== null,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * @fileOverview Bundled local drug–drug interaction dataset used by `@/lib/drug-interactions`.
+ *
+ * Drugs are keyed by generic name and can belong to one or more classes. Interaction entries
+ * reference either a drug id (e.g. "warfarin") or a class (e.g. "class:nsaid").
+ *
+ * This is a curated subset of well-established, clinically significant interactions. It is not
+ * exhaustive; pairs involving drugs not listed here fall back to the model-based check.
+ */
+
+export const INTERACTION_DATASET_VERSION = '2026.10.2';
+
+export type InteractionSeverity = 'contraindicated' | 'major' | 'moderate' | 'minor';
+
+export interface DrugDefinition {
+  id: string;
+  // Brand names and alternative spellings, matched as whole words (case-insensitive)
+  aliases: string[];
+  classes: string[];
+}
+
+export interface InteractionDefinition {
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const DRUGS: DrugDefinition[] = [
+  { id: 'warfarin', aliases: ['coumadin', 'jantoven'], classes: ['anticoagulant'] },
+  { id: 'apixaban', aliases: ['eliquis'], classes: ['anticoagulant'] },
+  { id: 'rivaroxaban', aliases: ['xarelto'], classes: ['anticoagulant'] },
+  { id: 'clopidogrel', aliases: ['plavix', 'clopilet'], classes: ['antiplatelet'] },
+  { id: 'aspirin', aliases: ['ecosprin', 'disprin', 'acetylsalicylic acid'], classes: ['nsaid', 'antiplatelet', 'salicylate'] },
+  { id: 'ibuprofen', aliases: ['advil', 'motrin', 'brufen', 'nurofen'], classes: ['nsaid'] },
+  { id: 'naproxen', aliases: ['aleve', 'naprosyn'], classes: ['nsaid'] },
+  { id: 'diclofenac', aliases: ['voltaren', 'voveran'], classes: ['nsaid'] },
+  { id: 'acetaminophen', aliases: ['paracetamol', 'tylenol', 'crocin', 'calpol', 'dolo'], classes: [] },
+  { id: 'lisinopril', aliases: ['zestril', 'prinivil'], classes: ['ace_inhibitor'] },
+  { id: 'enalapril', aliases: ['vasotec'], classes: ['ace_inhibitor'] },
+  { id: 'ramipril', aliases: ['altace', 'cardace'], classes: ['ace_inhibitor'] },
+  { id: 'losartan', aliases: ['cozaar', 'losar'], classes: ['arb'] },
+  { id: 'telmisartan', aliases: ['micardis', 'telma'], classes: ['arb'] },
+  { id: 'spironolactone', aliases: ['aldactone'], classes: ['potassium_sparing_diuretic'] },
+  { id: 'potassium chloride', aliases: ['klor-con', 'k-dur'], classes: ['potassium_supplement'] },
+  { id: 'furosemide', aliases: ['lasix'], classes: ['loop_diuretic'] },
+  { id: 'metformin', aliases: ['glucophage', 'glycomet'], classes: [] },
+  { id: 'glimepiride', aliases: ['amaryl'], classes: ['sulfonylurea'] },
+  { id: 'glipizide', aliases: ['glucotrol'], classes: ['sulfonylurea'] },
+  { id: 'atorvastatin', aliases: ['lipitor', 'atorva'], classes: ['statin'] },
+  { id: 'simvastatin', aliases: ['zocor'], classes: ['statin'] },
+  { id: 'clarithromycin', aliases: ['biaxin', 'claribid'], classes: ['macrolide', 'strong_cyp3a4_inhibitor'] },
+  { id: 'erythromycin', aliases: ['ery-tab', 'erythrocin'], classes: ['macrolide', 'strong_cyp3a4_inhibitor'] },
+  { id: 'azithromycin', aliases: ['zithromax', 'azee', 'azithral'], classes: ['macrolide'] },
+  { id: 'ciprofloxacin', aliases: ['cipro', 'ciplox'], classes: ['fluoroquinolone'] },
+  { id: 'fluconazole', aliases: ['diflucan'], classes: ['azole_antifungal'] },
+  { id: 'metronidazole', aliases: ['flagyl', 'metrogyl'], classes: [] },
+  { id: 'sertraline', aliases: ['zoloft'], classes: ['ssri'] },
+  { id: 'fluoxetine', aliases: ['prozac'], classes: ['ssri'] },
+  { id: 'escitalopram', aliases: ['lexapro', 'nexito'], classes: ['ssri'] },
+  { id: 'tramadol', aliases: ['ultram'], classes: ['opioid', 'serotonergic'] },
+  { id: 'codeine', aliases: [], classes: ['opioid'] },
+  { id: 'oxycodone', aliases: ['oxycontin', 'percocet'], classes: ['opioid'] },
+  { id: 'morphine', aliases: [], classes: ['opioid'] },
+  { id: 'sumatriptan', aliases: ['imitrex'], classes: ['triptan'] },
+  { id: 'linezolid', aliases: ['zyvox'], classes: ['maoi'] },
+  { id: 'alprazolam', aliases: ['xanax'], classes: ['benzodiazepine'] },
+  { id: 'lorazepam', aliases: ['ativan'], classes: ['benzodiazepine'] },
+  { id: 'diazepam', aliases: ['valium'], classes: ['benzodiazepine'] },
+  { id: 'diphenhydramine', aliases: ['benadryl'], classes: ['sedating_antihistamine'] },
+  { id: 'chlorpheniramine', aliases: ['piriton'], classes: ['sedating_antihistamine'] },
+  { id: 'cetirizine', aliases: ['zyrtec', 'cetzine'], classes: ['antihistamine'] },
+  { id: 'pseudoephedrine', aliases: ['sudafed'], classes: ['decongestant'] },
+  { id: 'phenylephrine', aliases: ['neo-synephrine'], classes: ['decongestant'] },
+  { id: 'doxylamine', aliases: ['unisom'], classes: ['sedating_antihistamine'] },
+  { id: 'loratadine', aliases: ['claritin', 'lorfast'], classes: ['antihistamine'] },
+  { id: 'fexofenadine', aliases: ['allegra'], classes: ['antihistamine'] },
+  { id: 'dextromethorphan', aliases: ['robitussin dm', 'benylin dm'], classes: [] },
+  { id: 'guaifenesin', aliases: ['mucinex'], classes: [] },
+  { id: 'bismuth subsalicylate', aliases: ['pepto-bismol', 'pepto bismol'], classes: ['salicylate'] },
+  { id: 'loperamide', aliases: ['imodium'], classes: [] },
+  { id: 'famotidine', aliases: ['pepcid'], classes: ['h2_blocker'] },
+  { id: 'sildenafil', aliases: ['viagra'], classes: [] },
+  { id: 'nitroglycerin', aliases: ['glyceryl trinitrate', 'isosorbide'], classes: ['nitrate'] },
+  { id: 'amiodarone', aliases: ['cordarone'], classes: [] },
+  { id: 'digoxin', aliases: ['lanoxin'], classes: [] },
+  { id: 'levothyroxine', aliases: ['synthroid', 'thyronorm', 'eltroxin'], classes: [] },
+  { id: 'calcium carbonate', aliases: ['tums', 'shelcal'], classes: ['antacid'] },
+  { id: 'omeprazole', aliases: ['prilosec', 'omez'], classes: ['ppi'] },
+  { id: 'pantoprazole', aliases: ['protonix', 'pantocid'], classes: ['ppi'] },
+  { id: 'methotrexate', aliases: [], classes: [] },
+  { id: 'lithium', aliases: [], classes: [] },
+  { id: 'theophylline', aliases: [], classes: [] },
+  { id: 'prednisolone', aliases: ['prednisone', 'wysolone'], classes: ['corticosteroid'] },
+];
+
+export const INTERACTIONS: InteractionDefinition[] = [
+  { a: 'class:anticoagulant', b: 'class:nsaid', severity: 'major', description: 'Greatly increases the risk of serious bleeding, including stomach bleeding.' },
+  { a: 'class:anticoagulant', b: 'class:antiplatelet', severity: 'major', description: 'Combined blood-thinning effect greatly increases bleeding risk.' },
+  { a: 'class:anticoagulant', b: 'class:anticoagulant', severity: 'contraindicated', description: 'Two anticoagulants together cause a high risk of life-threatening bleeding.' },
+  { a: 'class:anticoagulant', b: 'class:ssri', severity: 'major', description: 'SSRIs affect platelets and increase bleeding risk with anticoagulants.' },
+  { a: 'warfarin', b: 'acetaminophen', severity: 'minor', description: 'Regular use of acetaminophen at higher doses can raise INR. Occasional use is generally acceptable.' },
+  { a: 'warfarin', b: 'ciprofloxacin', severity: 'major', description: 'Ciprofloxacin can markedly raise warfarin levels and INR, increasing bleeding risk.' },
+  { a: 'warfarin', b: 'fluconazole', severity: 'major', description: 'Fluconazole inhibits warfarin metabolism and can cause dangerous bleeding.' },
+  { a: 'warfarin', b: 'metronidazole', severity: 'major', description: 'Metronidazole strongly increases the effect of warfarin.' },
+  { a: 'warfarin', b: 'class:macrolide', severity: 'moderate', description: 'Macrolide antibiotics may increase the effect of warfarin; INR should be monitored.' },
+  { a: 'class:nsaid', b: 'class:nsaid', severity: 'moderate', description: 'Taking two NSAIDs together increases the risk of stomach ulcers and bleeding without added benefit.' },
+  { a: 'class:nsaid', b: 'class:ace_inhibitor', severity: 'moderate', description: 'NSAIDs can reduce the blood-pressure-lowering effect and may harm kidney function.' },
+  { a: 'class:nsaid', b: 'class:arb', severity: 'moderate', description: 'NSAIDs can reduce the blood-pressure-lowering effect and may harm kidney function.' },
+  { a: 'class:nsaid', b: 'class:loop_diuretic', severity: 'moderate', description: 'NSAIDs can reduce the effect of diuretics and affect kidney function.' },
+  { a: 'class:nsaid', b: 'class:ssri', severity: 'moderate', description: 'Increased risk of stomach bleeding.' },
+  { a: 'class:nsaid', b: 'class:corticosteroid', severity: 'moderate', description: 'Increased risk of stomach ulcers and bleeding.' },
+  { a: 'class:nsaid', b: 'methotrexate', severity: 'major', description: 'NSAIDs can raise methotrexate levels and increase its toxicity.' },
+  { a: 'class:nsaid', b: 'lithium', severity: 'major', description: 'NSAIDs can raise lithium levels to toxic concentrations.' },
+  { a: 'class:ace_inhibitor', b: 'class:potassium_sparing_diuretic', severity: 'major', description: 'Risk of dangerously high potassium levels (hyperkalemia).' },
+  { a: 'class:arb', b: 'class:potassium_sparing_diuretic', severity: 'major', description: 'Risk of dangerously high potassium levels (hyperkalemia).' },
+  { a: 'class:ace_inhibitor', b: 'class:potassium_supplement', severity: 'major', description: 'Risk of dangerously high potassium levels (hyperkalemia).' },
+  { a: 'class:arb', b: 'class:potassium_supplement', severity: 'major', description: 'Risk of dangerously high potassium levels (hyperkalemia).' },
+  { a: 'class:ace_inhibitor', b: 'lithium', severity: 'major', description: 'ACE inhibitors can raise lithium levels to toxic concentrations.' },
+  { a: 'simvastatin', b: 'class:strong_cyp3a4_inhibitor', severity: 'contraindicated', description: 'Greatly increases simvastatin levels with a high risk of severe muscle damage (rhabdomyolysis).' },
+  { a: 'atorvastatin', b: 'class:strong_cyp3a4_inhibitor', severity: 'major', description: 'Increases atorvastatin levels and the risk of muscle damage.' },
+  { a: 'simvastatin', b: 'amiodarone', severity: 'major', description: 'Increases the risk of muscle damage; simvastatin dose must be limited.' },
+  { a: 'class:ssri', b: 'tramadol', severity: 'major', description: 'Risk of serotonin syndrome and seizures.' },
+  { a: 'class:ssri', b: 'class:triptan', severity: 'moderate', description: 'Possible risk of serotonin syndrome.' },
+  { a: 'class:ssri', b: 'class:maoi', severity: 'contraindicated', description: 'High risk of life-threatening serotonin syndrome.' },
+  { a: 'class:ssri', b: 'class:ssri', severity: 'major', description: 'Two SSRIs together increase the risk of serotonin syndrome.' },
+  { a: 'class:opioid', b: 'class:benzodiazepine', severity: 'major', description: 'Combined sedation can cause profound drowsiness, slowed breathing, coma or death.' },
+  { a: 'class:opioid', b: 'class:sedating_antihistamine', severity: 'moderate', description: 'Increased drowsiness and risk of slowed breathing.' },
+  { a: 'class:benzodiazepine', b: 'class:sedating_antihistamine', severity: 'moderate', description: 'Increased drowsiness and impaired coordination.' },
+  { a: 'sildenafil', b: 'class:nitrate', severity: 'contraindicated', description: 'Can cause a sudden, severe drop in blood pressure.' },
+  { a: 'digoxin', b: 'amiodarone', severity: 'major', description: 'Amiodarone raises digoxin levels, risking toxicity.' },
+  { a: 'digoxin', b: 'clarithromycin', severity: 'major', description: 'Clarithromycin raises digoxin levels, risking toxicity.' },
+  { a: 'levothyroxine', b: 'class:antacid', severity: 'moderate', description: 'Calcium reduces levothyroxine absorption. Take them at least 4 hours apart.' },
+  { a: 'levothyroxine', b: 'class:ppi', severity: 'minor', description: 'Long-term acid suppression may reduce levothyroxine absorption.' },
+  { a: 'class:fluoroquinolone', b: 'class:antacid', severity: 'moderate', description: 'Calcium and antacids reduce antibiotic absorption. Separate doses by at least 2 hours.' },
+  { a: 'theophylline', b: 'ciprofloxacin', severity: 'major', description: 'Ciprofloxacin raises theophylline levels, risking seizures and heart rhythm problems.' },
+  { a: 'class:sulfonylurea', b: 'fluconazole', severity: 'moderate', description: 'Increased risk of low blood sugar (hypoglycemia).' },
+  { a: 'class:sulfonylurea', b: 'class:fluoroquinolone', severity: 'moderate', description: 'Fluoroquinolones can cause unpredictable blood sugar changes.' },
+  { a: 'clopidogrel', b: 'omeprazole', severity: 'moderate', description: 'Omeprazole may reduce the effectiveness of clopidogrel.' },
+  { a: 'class:decongestant', b: 'class:maoi', severity: 'major', description: 'Risk of a dangerous rise in blood pressure.' },
+];
@@ -0,0 +1,102 @@
+import {
+  checkInteractions,
+  findKnownDrugsInText,
+  pairsMissingFromModelResults,
+  resolveDrug,
+  uncheckedPartnersOf,
+  warningsForMedication,
+  warningsFromModelResults,
+} from '@/lib/drug-interactions';
+
+test('resolves brand names and dosed names to generics', () => {
+  expect(resolveDrug('Tab. Brufen 400mg')?.id).toBe('ibuprofen');
+  expect(resolveDrug('Paracetamol 500 mg')?.id).toBe('acetaminophen');
+  expect(resolveDrug('Unknownium 10mg')).toBeNull();
+});
+
+test('finds known drugs mentioned in free text', () => {
+  const ids = findKnownDrugsInText('Pain relievers containing ibuprofen, or antihistamines like cetirizine.').map(drug => drug.id);
+  expect(ids).toEqual(['ibuprofen', 'cetirizine']);
+});
+
+test('flags class-based and drug-specific interactions, most severe first', () => {
+  const { warnings, uncheckedPairs } = checkInteractions([
+    { name: 'Warfarin 5mg', source: 'profile' },
+    { name: 'Ciprofloxacin 500mg', source: 'prescription' },
+    { name: 'ibuprofen', source: 'otc' },
+  ]);
+  expect(uncheckedPairs).toEqual([]);
+  expect(warnings.map(warning => [warning.drugA.name, warning.drugB.name, warning.severity])).toEqual([
+    ['Warfarin 5mg', 'Ciprofloxacin 500mg', 'major'],
+    ['Warfarin 5mg', 'ibuprofen', 'major'],
+  ]);
+  expect(warnings.every(warning => warning.origin === 'dataset')).toBe(true);
+});
+
+test('reports contraindicated combinations', () => {
+  const { warnings } = checkInteractions([
+    { name: 'Simvastatin 20mg', source: 'profile' },
+    { name: 'Clarithromycin 500mg', source: 'prescription' },
+  ]);
+  expect(warnings[0].severity).toBe('contraindicated');
+});
+
+test('reports duplicate therapy across sources', () => {
+  const { warnings } = checkInteractions([
+    { name: 'Crocin 650', source: 'prescription' },
+    { name: 'acetaminophen', source: 'otc' },
+  ]);
+  expect(warnings).toHaveLength(1);
+  expect(warnings[0].description).toMatch(/acetaminophen/);
+});
+
+test('checks every ingredient of a combination entry', () => {
+  const combination = { name: 'Paracetamol + Pseudoephedrine', source: 'otc' as const };
+  const { warnings, uncheckedPairs } = checkInteractions([{ name: 'Linezolid 600mg', source: 'profile' }, combination]);
+  expect(uncheckedPairs).toEqual([]);
+  expect(warnings).toEqual([expect.objectContaining({ drugB: combination, severity: 'major', origin: 'dataset' })]);
+
+  const duplicate = checkInteractions([{ name: 'Crocin 650', source: 'prescription' }, combination]);
+  expect(duplicate.warnings).toEqual([expect.objectContaining({ severity: 'moderate' })]);
+  expect(duplicate.warnings[0].description).toMatch(/acetaminophen/);
+});
+
+test('returns pairs with unknown drugs for the model fallback', () => {
+  const unknown = { name: 'Unknownium 10mg', source: 'prescription' as const };
+  const known = { name: 'Metformin 500mg', source: 'profile' as const };
+  const { warnings, uncheckedPairs } = checkInteractions([unknown, known]);
+  expect(warnings).toEqual([]);
+  expect(uncheckedPairs).toEqual([[unknown, known]]);
+});
+
+test('filters warnings for a single medication', () => {
+  const medication = { name: 'Aspirin 75mg', source: 'prescription' as const };
+  const { warnings } = checkInteractions([medication, { name: 'Eliquis', source: 'profile' }, { name: 'Cetirizine', source: 'otc' }]);
+  expect(warningsForMedication(warnings, medication)).toHaveLength(1);
+  expect(warningsForMedication(warnings, { name: 'Cetirizine', source: 'otc' })).toHaveLength(0);
+});
+
+test('maps model results back to unchecked pairs, dropping "none"', () => {
+  const unknown = { name: 'Unknownium 10mg', source: 'prescription' as const };
+  const other = { name: 'Otherol', source: 'profile' as const };
+  const third = { name: 'Thirdazole', source: 'otc' as const };
+  const warnings = warningsFromModelResults([[unknown, other], [unknown, third]], [
+    { drugA: 'otherol', drugB: 'Unknownium 10mg', severity: 'moderate', description: 'Monitor.' },
+    { drugA: 'Unknownium 10mg', drugB: 'Thirdazole', severity: 'none', description: 'No interaction.' },
+    { drugA: 'Made Up', drugB: 'Thirdazole', severity: 'major', description: 'Not a requested pair.' },
+  ]);
+  expect(warnings).toEqual([{ drugA: unknown, drugB: other, severity: 'moderate', description: 'Monitor.', origin: 'model' }]);
+});
+
+test('keeps pairs the model did not answer as unchecked', () => {
+  const unknown = { name: 'Unknownium 10mg', source: 'prescription' as const };
+  const other = { name: 'Otherol', source: 'profile' as const };
+  const third = { name: 'Thirdazole', source: 'otc' as const };
+  const missing = pairsMissingFromModelResults([[unknown, other], [unknown, third]], [
+    { drugA: 'otherol', drugB: 'Unknownium 10mg', severity: 'none', description: 'No interaction.' },
+  ]);
+  expect(missing).toEqual([[unknown, third]]);
+  expect(uncheckedPartnersOf(missing, unknown)).toEqual([third]);
+  expect(uncheckedPartnersOf(missing, third)).toEqual([unknown]);
+  expect(uncheckedPartnersOf(missing, other)).toEqual([]);
+});
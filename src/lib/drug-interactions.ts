@@ -0,0 +1,173 @@
+/**
+ * @fileOverview Drug–drug interaction checks across scanned prescriptions, profile medications and OTC suggestions.
+ * Uses the bundled dataset in `@/lib/drug-interactions-data`; pairs it cannot resolve are returned as
+ * `uncheckedPairs` so the caller can fall back to the model-based check.
+ *
+ * - resolveDrug - Maps a free-text medication name (brand or generic, with dose) to a known drug.
+ * - findKnownDrugsInText - Finds every known drug mentioned in a piece of free text.
+ * - checkInteractions - Checks every pair of medications, ingredient by ingredient, against the dataset.
+ * - warningsFromModelResults - Maps model-based results for unchecked pairs back to warnings.
+ * - pairsMissingFromModelResults - The unchecked pairs the model gave no result for.
+ * - uncheckedPartnersOf - The medications one medication could not be checked against.
+ */
+
+import {
+  DRUGS,
+  INTERACTIONS,
+  type DrugDefinition,
+  type InteractionSeverity,
+} from '@/lib/drug-interactions-data';
+
+export type { InteractionSeverity } from '@/lib/drug-interactions-data';
+
+export type MedicationSource = 'prescription' | 'profile' | 'otc';
+
+export interface MedicationEntry {
+  name: string;
+  source: MedicationSource;
+}
+
+export interface InteractionWarning {
+  drugA: MedicationEntry;
+  drugB: MedicationEntry;
+  severity: InteractionSeverity;
+  description: string;
+  origin: 'dataset' | 'model';
+}
+
+export interface InteractionCheckResult {
+  warnings: InteractionWarning[];
+  // Pairs involving at least one drug the dataset does not know about
+  uncheckedPairs: [MedicationEntry, MedicationEntry][];
+}
+
+export const SEVERITY_ORDER: InteractionSeverity[] = ['contraindicated', 'major', 'moderate', 'minor'];
+
+export function compareSeverity(a: InteractionSeverity, b: InteractionSeverity): number {
+  return SEVERITY_ORDER.indexOf(a) - SEVERITY_ORDER.indexOf(b);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const DRUG_PATTERNS: [DrugDefinition, RegExp][] = DRUGS.map(drug => [
+  drug,
+  new RegExp(`\\b(${[drug.id, ...drug.aliases].map(escapeRegExp).join('|')})\\b`, 'i'),
+]);
+
+export function resolveDrug(name: string): DrugDefinition | null {
+  return DRUG_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0] ?? null;
+}
+
+export function findKnownDrugsInText(text: string): DrugDefinition[] {
+  return DRUG_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([drug]) => drug);
+}
+
+function matchesReference(reference: string, drug: DrugDefinition): boolean {
+  return reference.startsWith('class:') ? drug.classes.includes(reference.slice('class:'.length)) : reference === drug.id;
+}
+
+function findDatasetInteraction(first: DrugDefinition, second: DrugDefinition) {
+  const matches = INTERACTIONS.filter(interaction =>
+    (matchesReference(interaction.a, first) && matchesReference(interaction.b, second)) ||
+    (matchesReference(interaction.a, second) && matchesReference(interaction.b, first))
+  );
+  // Report only the most severe entry for a pair.
+  return matches.sort((x, y) => compareSeverity(x.severity, y.severity))[0] ?? null;
+}
+
+/**
+ * Checks every pair of medications against the bundled dataset. Each ingredient of a combination
+ * product is checked, and a pair of entries gets the most severe warning across their ingredients.
+ * The same drug appearing twice (e.g. paracetamol on the prescription and as an OTC suggestion) is
+ * reported as duplicate therapy. Warnings are sorted from most to least severe.
+ */
+export function checkInteractions(medications: MedicationEntry[]): InteractionCheckResult {
+  const warnings: InteractionWarning[] = [];
+  const uncheckedPairs: [MedicationEntry, MedicationEntry][] = [];
+  const resolved = medications.map(medication => findKnownDrugsInText(medication.name));
+
+  for (let i = 0; i < medications.length; i++) {
+    for (let j = i + 1; j < medications.length; j++) {
+      if (resolved[i].length === 0 || resolved[j].length === 0) {
+        // Identical unknown names are the same entry listed twice, not a pair to check.
+        if (medications[i].name.trim().toLowerCase() !== medications[j].name.trim().toLowerCase()) {
+          uncheckedPairs.push([medications[i], medications[j]]);
+        }
+        continue;
+      }
+      const isSameEntry = medications[i].source === medications[j].source;
+      const findings: Pick<InteractionWarning, 'severity' | 'description'>[] = [];
+      for (const first of resolved[i]) {
+        for (const second of resolved[j]) {
+          if (first.id === second.id) {
+            if (!isSameEntry) {
+              findings.push({
+                severity: 'moderate',
+                description: `Both contain ${first.id}. Taking them together risks exceeding the maximum safe dose.`,
+              });
+            }
+            continue;
+          }
+          const interaction = findDatasetInteraction(first, second);
+          if (interaction) findings.push({ severity: interaction.severity, description: interaction.description });
+        }
+      }
+      const finding = findings.sort((x, y) => compareSeverity(x.severity, y.severity))[0];
+      if (finding) {
+        warnings.push({ drugA: medications[i], drugB: medications[j], ...finding, origin: 'dataset' });
+      }
+    }
+  }
+
+  return { warnings: warnings.sort((a, b) => compareSeverity(a.severity, b.severity)), uncheckedPairs };
+}
+
+export interface ModelInteractionResult {
+  drugA: string;
+  drugB: string;
+  severity: InteractionSeverity | 'none';
+  description: string;
+}
+
+function isResultForPair([first, second]: [MedicationEntry, MedicationEntry], result: ModelInteractionResult): boolean {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  return (normalize(first.name) === normalize(result.drugA) && normalize(second.name) === normalize(result.drugB)) ||
+    (normalize(first.name) === normalize(result.drugB) && normalize(second.name) === normalize(result.drugA));
+}
+
+export function warningsFromModelResults(
+  uncheckedPairs: [MedicationEntry, MedicationEntry][],
+  results: ModelInteractionResult[]
+): InteractionWarning[] {
+  const warnings: InteractionWarning[] = [];
+  for (const result of results) {
+    if (result.severity === 'none') continue;
+    const pair = uncheckedPairs.find(candidate => isResultForPair(candidate, result));
+    if (pair) {
+      warnings.push({ drugA: pair[0], drugB: pair[1], severity: result.severity, description: result.description, origin: 'model' });
+    }
+  }
+  return warnings.sort((a, b) => compareSeverity(a.severity, b.severity));
+}
+
+// The model may skip pairs; those stay unchecked rather than being read as "no interaction".
+export function pairsMissingFromModelResults(
+  uncheckedPairs: [MedicationEntry, MedicationEntry][],
+  results: ModelInteractionResult[]
+): [MedicationEntry, MedicationEntry][] {
+  return uncheckedPairs.filter(pair => !results.some(result => isResultForPair(pair, result)));
+}
+
+export function uncheckedPartnersOf(pairs: [MedicationEntry, MedicationEntry][], medication: MedicationEntry): MedicationEntry[] {
+  const isMedication = (entry: MedicationEntry) => entry.name === medication.name && entry.source === medication.source;
+  return pairs.flatMap(([first, second]) => (isMedication(first) ? [second] : isMedication(second) ? [first] : []));
+}
+
+export function warningsForMedication(warnings: InteractionWarning[], medication: MedicationEntry): InteractionWarning[] {
+  return warnings.filter(warning =>
+    (warning.drugA.name === medication.name && warning.drugA.source === medication.source) ||
+    (warning.drugB.name === medication.name && warning.drugB.source === medication.source)
+  );
+}
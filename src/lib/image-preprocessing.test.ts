@@ -0,0 +1,59 @@
+import {
+  dataUriByteSize,
+  detectDocumentCorners,
+  fitWithin,
+  stretchContrast,
+  toGrayscale,
+  warpPerspective,
+  type PixelImage,
+  type Quad,
+} from './image-preprocessing';
+
+// A gray image where `fill(x, y)` gives each pixel's level
+function grayImage(width: number, height: number, fill: (x: number, y: number) => number): PixelImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      data[offset] = data[offset + 1] = data[offset + 2] = fill(x, y);
+      data[offset + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+const pixel = (image: PixelImage, x: number, y: number) => image.data[(y * image.width + x) * 4];
+
+test('converts to grayscale by luminance', () => {
+  const image = { width: 2, height: 1, data: new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 255]) };
+  expect(Array.from(toGrayscale(image).data)).toEqual([76, 76, 76, 255, 29, 29, 29, 255]);
+});
+
+test('stretches faded print to the full gray range', () => {
+  const faded = grayImage(10, 10, x => 100 + x * 10);
+  const stretched = stretchContrast(faded, 0);
+  expect(pixel(stretched, 0, 0)).toBe(0);
+  expect(pixel(stretched, 9, 0)).toBe(255);
+});
+
+test('finds the corners of a bright page on a dark background', () => {
+  // Page from (10, 5) to (49, 34) in a 60 x 40 photo
+  const photo = grayImage(60, 40, (x, y) => (x >= 10 && x < 50 && y >= 5 && y < 35 ? 230 : 40));
+  expect(detectDocumentCorners(photo)).toEqual([{ x: 10, y: 5 }, { x: 49, y: 5 }, { x: 49, y: 34 }, { x: 10, y: 34 }]);
+  expect(detectDocumentCorners(grayImage(60, 40, (x, y) => (x < 5 && y < 5 ? 230 : 40)))).toBeNull();
+});
+
+test('warps a quadrilateral onto an upright rectangle', () => {
+  const photo = grayImage(20, 20, (x, y) => (x >= 10 ? 200 : 50));
+  const rightHalf: Quad = [{ x: 10, y: 0 }, { x: 19, y: 0 }, { x: 19, y: 19 }, { x: 10, y: 19 }];
+  const warped = warpPerspective(photo, rightHalf, 5, 5);
+  expect(warped.width).toBe(5);
+  expect(new Set(Array.from(warped.data.filter((_, index) => index % 4 === 0)))).toEqual(new Set([200]));
+});
+
+test('computes output dimensions and encoded sizes', () => {
+  expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+  expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+  expect(dataUriByteSize('data:image/jpeg;base64,QUJD')).toBe(3);
+  expect(dataUriByteSize('data:image/jpeg;base64,QUI=')).toBe(2);
+});
@@ -0,0 +1,232 @@
+/**
+ * @fileOverview Pixel operations that prepare a photographed document for prescription analysis:
+ * finding the page in the photo, flattening it, and making the print stand out. They work on plain
+ * RGBA buffers (the shape of canvas `ImageData`), so they run the same in the browser and in tests;
+ * `preprocessScanImage` in `@/lib/image-utils` wires them to the canvas.
+ *
+ * - detectDocumentCorners - The corners of the page in a photo, if one stands out from the background.
+ * - warpPerspective - Maps a quadrilateral of an image onto an upright rectangle (also used to resize).
+ * - toGrayscale / stretchContrast - Colour removal and contrast enhancement.
+ * - fitWithin / quadSize - Output dimensions.
+ * - dataUriByteSize - Decoded size of a base64 data URI.
+ */
+
+// RGBA, 4 bytes per pixel, row by row
+export interface PixelImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// A detected page smaller than this share of the photo is more likely noise than the document.
+const MIN_DOCUMENT_AREA_RATIO = 0.2;
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+}
+
+export function toGrayscale(image: PixelImage): PixelImage {
+  const data = new Uint8ClampedArray(image.data.length);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const gray = luminance(image.data, offset);
+    data[offset] = data[offset + 1] = data[offset + 2] = gray;
+    data[offset + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Stretches the gray levels of a grayscale image to the full range. The darkest and brightest
+ * `clipFraction` of pixels are ignored, so a patch of glare does not cancel the stretch.
+ */
+export function stretchContrast(image: PixelImage, clipFraction = 0.01): PixelImage {
+  const pixelCount = image.width * image.height;
+  const histogram = new Array<number>(256).fill(0);
+  for (let offset = 0; offset < image.data.length; offset += 4) histogram[image.data[offset]]++;
+
+  const clipped = clipFraction * pixelCount;
+  let low = 0;
+  for (let seen = histogram[0]; low < 255 && seen <= clipped; seen += histogram[++low]);
+  let high = 255;
+  for (let seen = histogram[255]; high > 0 && seen <= clipped; seen += histogram[--high]);
+
+  const data = new Uint8ClampedArray(image.data);
+  if (high - low < 1) return { width: image.width, height: image.height, data };
+  const scale = 255 / (high - low);
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const value = (image.data[offset] - low) * scale;
+    data[offset] = data[offset + 1] = data[offset + 2] = value;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Otsu's method: the gray level that best separates the histogram into two classes
+function otsuThreshold(histogram: number[], total: number): number {
+  let sum = 0;
+  for (let level = 0; level < 256; level++) sum += level * histogram[level];
+  let backgroundSum = 0;
+  let backgroundCount = 0;
+  let bestVariance = -1;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+    const foregroundCount = total - backgroundCount;
+    if (foregroundCount === 0) break;
+    backgroundSum += level * histogram[level];
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+}
+
+function quadArea([a, b, c, d]: Quad): number {
+  return Math.abs((a.x * b.y - b.x * a.y) + (b.x * c.y - c.x * b.y) + (c.x * d.y - d.x * c.y) + (d.x * a.y - a.x * d.y)) / 2;
+}
+
+/**
+ * Paper is usually brighter than what it lies on, so the page is taken to be the largest bright
+ * region; its corners are the region's extreme points along the two diagonals. Returns null when
+ * no region is large enough, in which case the whole photo should be used. Meant for a downscaled
+ * copy of the photo: the work is linear in the number of pixels.
+ */
+export function detectDocumentCorners(image: PixelImage): Quad | null {
+  const { width, height } = image;
+  const pixelCount = width * height;
+  const gray = new Uint8Array(pixelCount);
+  const histogram = new Array<number>(256).fill(0);
+  for (let index = 0; index < pixelCount; index++) {
+    gray[index] = luminance(image.data, index * 4);
+    histogram[gray[index]]++;
+  }
+  const threshold = otsuThreshold(histogram, pixelCount);
+
+  // Largest 4-connected bright region
+  const labels = new Int32Array(pixelCount);
+  const queue = new Int32Array(pixelCount);
+  let bestLabel = 0;
+  let bestSize = 0;
+  let label = 0;
+  for (let start = 0; start < pixelCount; start++) {
+    if (labels[start] || gray[start] <= threshold) continue;
+    label++;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    labels[start] = label;
+    while (head < tail) {
+      const index = queue[head++];
+      const x = index % width;
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || neighbour >= pixelCount || labels[neighbour] || gray[neighbour] <= threshold) continue;
+        labels[neighbour] = label;
+        queue[tail++] = neighbour;
+      }
+    }
+    if (tail > bestSize) {
+      bestSize = tail;
+      bestLabel = label;
+    }
+  }
+  if (bestSize < MIN_DOCUMENT_AREA_RATIO * pixelCount) return null;
+
+  let topLeft = { x: 0, y: 0 }, topRight = topLeft, bottomRight = topLeft, bottomLeft = topLeft;
+  let minSum = Infinity, maxSum = -Infinity, minDifference = Infinity, maxDifference = -Infinity;
+  for (let index = 0; index < pixelCount; index++) {
+    if (labels[index] !== bestLabel) continue;
+    const point = { x: index % width, y: Math.floor(index / width) };
+    const sum = point.x + point.y;
+    const difference = point.x - point.y;
+    if (sum < minSum) { minSum = sum; topLeft = point; }
+    if (sum > maxSum) { maxSum = sum; bottomRight = point; }
+    if (difference > maxDifference) { maxDifference = difference; topRight = point; }
+    if (difference < minDifference) { minDifference = difference; bottomLeft = point; }
+  }
+  const quad: Quad = [topLeft, topRight, bottomRight, bottomLeft];
+  return quadArea(quad) >= MIN_DOCUMENT_AREA_RATIO * pixelCount ? quad : null;
+}
+
+// Solves the 8 unknowns of the homography mapping each `from` corner onto the matching `to` corner.
+function computeHomography(from: Quad, to: Quad): number[] {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    rows.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  });
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < 8; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < 8; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let row = 0; row < 8; row++) {
+      if (row === column || rows[column][column] === 0) continue;
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k < 9; k++) rows[row][k] -= factor * rows[column][k];
+    }
+  }
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+}
+
+export function quadSize([topLeft, topRight, bottomRight, bottomLeft]: Quad): { width: number; height: number } {
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  return {
+    width: Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight)),
+    height: Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight)),
+  };
+}
+
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Renders the part of `image` inside `quad` as an upright `width` x `height` image, with bilinear
+ * sampling. With the image's own corners as the quad this is a plain resize.
+ */
+export function warpPerspective(image: PixelImage, quad: Quad, width: number, height: number): PixelImage {
+  const target: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = computeHomography(target, quad);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const maxX = image.width - 1;
+  const maxY = image.height - 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = h6 * x + h7 * y + 1;
+      const sourceX = Math.min(maxX, Math.max(0, (h0 * x + h1 * y + h2) / w));
+      const sourceY = Math.min(maxY, Math.max(0, (h3 * x + h4 * y + h5) / w));
+      const x0 = Math.floor(sourceX), y0 = Math.floor(sourceY);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = sourceX - x0, fy = sourceY - y0;
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = image.data[(y0 * image.width + x0) * 4 + channel] * (1 - fx) + image.data[(y0 * image.width + x1) * 4 + channel] * fx;
+        const bottom = image.data[(y1 * image.width + x0) * 4 + channel] * (1 - fx) + image.data[(y1 * image.width + x1) * 4 + channel] * fx;
+        data[offset + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+export function dataUriByteSize(dataUri: string): number {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Browser-only image helpers for scanned documents.
+ *
+ * - createThumbnail - Downscales an image data URI to a small JPEG data URI.
+ * - dataUriToBlob - Converts a data URI to a Blob for storage.
+ * - preprocessScanImage - Crops, flattens and enhances a scanned page and encodes it as a JPEG within a size budget.
+ */
+
+import {
+  dataUriByteSize,
+  detectDocumentCorners,
+  fitWithin,
+  quadSize,
+  stretchContrast,
+  toGrayscale,
+  warpPerspective,
+  type PixelImage,
+  type Quad,
+} from '@/lib/image-preprocessing';
+
+// Large enough for small print; larger pages only cost upload time.
+export const SCAN_MAX_DIMENSION = 1600;
+export const SCAN_MAX_BYTES = 400 * 1024;
+// Page detection runs on a copy this size
+const DETECTION_MAX_DIMENSION = 400;
+const JPEG_QUALITIES = [0.85, 0.75, 0.65, 0.5];
+
+function loadImage(dataUri: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image.'));
+    image.src = dataUri;
+  });
+}
+
+export async function createThumbnail(dataUri: string, maxDimension = 160, quality = 0.7): Promise<string> {
+  const image = await loadImage(dataUri);
+  const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.naturalWidth * scale);
+  canvas.height = Math.round(image.naturalHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported.');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+export async function dataUriToBlob(dataUri: string): Promise<Blob> {
+  const response = await fetch(dataUri);
+  return response.blob();
+}
+
+export interface PreprocessOptions {
+  maxDimension?: number;
+  maxBytes?: number;
+  // Off for rendered PDF pages, which are already flat and cropped
+  detectDocument?: boolean;
+}
+
+function drawToPixels(image: CanvasImageSource, width: number, height: number): PixelImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported.');
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+}
+
+function encodeJpeg(pixels: PixelImage, quality: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported.');
+  context.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+/**
+ * Finds the page in the photo and flattens it, converts it to grayscale with stretched contrast,
+ * and re-encodes it as a JPEG no larger than `maxBytes`: quality is lowered first, then the size.
+ */
+export async function preprocessScanImage(
+  dataUri: string,
+  { maxDimension = SCAN_MAX_DIMENSION, maxBytes = SCAN_MAX_BYTES, detectDocument = true }: PreprocessOptions = {}
+): Promise<string> {
+  const image = await loadImage(dataUri);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const source = drawToPixels(image, width, height);
+
+  let quad: Quad = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  if (detectDocument) {
+    const small = fitWithin(width, height, DETECTION_MAX_DIMENSION);
+    const corners = detectDocumentCorners(drawToPixels(image, small.width, small.height));
+    if (corners) {
+      const scale = width / small.width;
+      quad = corners.map(({ x, y }) => ({ x: x * scale, y: y * scale })) as Quad;
+    }
+  }
+
+  const size = quadSize(quad);
+  let target = fitWithin(size.width, size.height, maxDimension);
+  for (;;) {
+    const pixels = stretchContrast(toGrayscale(warpPerspective(source, quad, target.width, target.height)));
+    for (const quality of JPEG_QUALITIES) {
+      const encoded = encodeJpeg(pixels, quality);
+      if (dataUriByteSize(encoded) <= maxBytes) return encoded;
+    }
+    // Even the lowest quality is too large: shrink and try again, down to a legible minimum.
+    if (Math.max(target.width, target.height) <= DETECTION_MAX_DIMENSION) {
+      return encodeJpeg(pixels, JPEG_QUALITIES[JPEG_QUALITIES.length - 1]);
+    }
+    target = fitWithin(target.width, target.height, Math.round(Math.max(target.width, target.height) * 0.8));
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  createMedicationSchedule,
+  getCourseProgress,
+  getDosesForDay,
+  getUpcomingDoses,
+  isCourseComplete,
+  logDose,
+} from '@/lib/medication-schedule';
+
+// 1 March 2026, 10:30 local time
+const created = new Date(2026, 2, 1, 10, 30).getTime();
+const medication = { name: 'Amoxicillin 500mg', dosage: '1 capsule', frequency: 'twice daily after food', duration: '3 days' };
+
+test('skips doses that were due before the schedule was created', () => {
+  const schedule = createMedicationSchedule(medication, created);
+  expect(getDosesForDay(schedule, created).map(dose => new Date(dose.scheduledAt).getHours())).toEqual([20]);
+  expect(getDosesForDay(schedule, new Date(2026, 2, 2).getTime())).toHaveLength(2);
+});
+
+test('stops generating doses after the course ends', () => {
+  const schedule = createMedicationSchedule(medication, created);
+  expect(getDosesForDay(schedule, new Date(2026, 2, 3).getTime())).toHaveLength(2);
+  expect(getDosesForDay(schedule, new Date(2026, 2, 4).getTime())).toEqual([]);
+  expect(isCourseComplete(schedule, new Date(2026, 2, 3, 23, 59).getTime())).toBe(false);
+  expect(isCourseComplete(schedule, new Date(2026, 2, 4).getTime())).toBe(true);
+});
+
+test('logs taken and skipped doses and tracks progress', () => {
+  let schedule = createMedicationSchedule(medication, created);
+  const [dose] = getDosesForDay(schedule, created);
+  schedule = logDose(schedule, dose.id, 'skipped', created);
+  schedule = logDose(schedule, dose.id, 'taken', created);
+  expect(getDosesForDay(schedule, created)[0].status).toBe('taken');
+  expect(getCourseProgress(schedule)).toEqual({ taken: 1, skipped: 0, total: 5 });
+});
+
+test('lists upcoming unlogged doses for reminders', () => {
+  let schedule = createMedicationSchedule(medication, created);
+  const upcoming = getUpcomingDoses([schedule], created);
+  expect(upcoming.map(dose => new Date(dose.scheduledAt).getHours())).toEqual([20, 8]);
+
+  schedule = logDose(schedule, upcoming[0].id, 'taken', created);
+  expect(getUpcomingDoses([schedule], created)).toHaveLength(1);
+  expect(getUpcomingDoses([{ ...schedule, completedAt: created }], created)).toEqual([]);
+});
+
+test('ongoing and as-needed courses have no total', () => {
+  const ongoing = createMedicationSchedule({ name: 'Metformin', dosage: '500mg', frequency: 'OD' }, created);
+  expect(isCourseComplete(ongoing, created + 365 * 24 * 60 * 60 * 1000)).toBe(false);
+  expect(getCourseProgress(ongoing).total).toBeUndefined();
+});
+
+test('generates doses only on the dosing days of a weekly course', () => {
+  const schedule = createMedicationSchedule({ name: 'Methotrexate 7.5mg', dosage: '3 tablets', frequency: 'once a week', duration: '4 weeks' }, new Date(2026, 2, 1, 6, 0).getTime());
+  const dosingDays = Array.from({ length: 28 }, (_, index) => new Date(2026, 2, 1 + index).getTime())
+    .filter(day => getDosesForDay(schedule, day).length > 0)
+    .map(day => new Date(day).getDate());
+  expect(dosingDays).toEqual([1, 8, 15, 22]);
+  expect(getCourseProgress(schedule).total).toBe(4);
+});
@@ -0,0 +1,160 @@
+/**
+ * @fileOverview Medication schedules built from analyzed prescriptions: dose generation, taken/skipped
+ * logging and end-of-course detection. All times are local.
+ *
+ * - createMedicationSchedule - Builds a schedule for one prescribed medication.
+ * - getDosesForDay - Lists the scheduled doses of a schedule on a given day.
+ * - getUpcomingDoses - Lists unlogged doses across schedules within a time window (used for reminders).
+ * - logDose - Records a dose as taken or skipped.
+ * - isCourseComplete - Whether a fixed-length course has ended.
+ * - getCourseProgress - Taken/skipped/total dose counts for a course.
+ */
+
+import { parseDosingSchedule, type DosingSchedule } from '@/lib/dosing-schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DoseStatus = 'taken' | 'skipped';
+
+export interface DoseLogEntry {
+  doseId: string;
+  status: DoseStatus;
+  loggedAt: number;
+}
+
+export interface MedicationSchedule {
+  id: string;
+  // Household profile the schedule belongs to. Missing on schedules created before household profiles.
+  profileId?: string;
+  medicationName: string;
+  dosage: string;
+  notes?: string;
+  schedule: DosingSchedule;
+  // Local midnight of the first day of the course
+  startDate: number;
+  createdAt: number;
+  doseLog: DoseLogEntry[];
+  completedAt?: number;
+}
+
+export interface ScheduledDose {
+  id: string;
+  scheduleId: string;
+  scheduledAt: number;
+  status?: DoseStatus;
+}
+
+// Minimal shape of a prescribed medication, as extracted by analyzePrescription
+export interface PrescribedMedication {
+  name: string;
+  dosage: string;
+  frequency?: string;
+  duration?: string;
+  notes?: string;
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+// Calendar-day arithmetic, so DST changes never skip or repeat a day
+function addDays(day: number, days: number): number {
+  const date = new Date(day);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function atTime(day: number, time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date.getTime();
+}
+
+export function createMedicationSchedule(medication: PrescribedMedication, now: number = Date.now()): MedicationSchedule {
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    medicationName: medication.name,
+    dosage: medication.dosage,
+    notes: medication.notes,
+    schedule: parseDosingSchedule(medication.frequency, medication.duration, medication.notes),
+    startDate: startOfDay(now),
+    createdAt: now,
+    doseLog: [],
+  };
+}
+
+// Local midnight after the last day of the course, or undefined for ongoing courses
+export function getCourseEndDate(schedule: MedicationSchedule): number | undefined {
+  const { durationDays } = schedule.schedule;
+  return durationDays ? addDays(schedule.startDate, durationDays) : undefined;
+}
+
+export function getDosesForDay(schedule: MedicationSchedule, day: number): ScheduledDose[] {
+  const dayStart = startOfDay(day);
+  const courseEnd = getCourseEndDate(schedule);
+  if (dayStart < schedule.startDate || (courseEnd !== undefined && dayStart >= courseEnd)) return [];
+  // Weekly and alternate-day courses count their dosing days from the first day of the course.
+  const { intervalDays } = schedule.schedule;
+  if (intervalDays && intervalDays > 1 && Math.round((dayStart - schedule.startDate) / DAY_MS) % intervalDays !== 0) return [];
+
+  const key = dayKey(dayStart);
+  return schedule.schedule.timesOfDay
+    .map(time => {
+      const id = `${schedule.id}:${key}:${time}`;
+      return {
+        id,
+        scheduleId: schedule.id,
+        scheduledAt: atTime(dayStart, time),
+        status: schedule.doseLog.find(entry => entry.doseId === id)?.status,
+      };
+    })
+    // Doses that were already due before the schedule was created are not part of the course.
+    .filter(dose => dose.scheduledAt >= schedule.createdAt)
+    .sort((a, b) => a.scheduledAt - b.scheduledAt);
+}
+
+export function getUpcomingDoses(schedules: MedicationSchedule[], now: number, windowMs: number = DAY_MS): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+  for (const schedule of schedules) {
+    if (schedule.completedAt) continue;
+    for (let day = startOfDay(now); day <= now + windowMs; day = addDays(day, 1)) {
+      doses.push(...getDosesForDay(schedule, day).filter(dose =>
+        !dose.status && dose.scheduledAt >= now && dose.scheduledAt <= now + windowMs
+      ));
+    }
+  }
+  return doses.sort((a, b) => a.scheduledAt - b.scheduledAt);
+}
+
+export function logDose(schedule: MedicationSchedule, doseId: string, status: DoseStatus, now: number = Date.now()): MedicationSchedule {
+  return {
+    ...schedule,
+    doseLog: [...schedule.doseLog.filter(entry => entry.doseId !== doseId), { doseId, status, loggedAt: now }],
+  };
+}
+
+export function isCourseComplete(schedule: MedicationSchedule, now: number = Date.now()): boolean {
+  const courseEnd = getCourseEndDate(schedule);
+  return courseEnd !== undefined && now >= courseEnd;
+}
+
+export function getCourseProgress(schedule: MedicationSchedule): { taken: number; skipped: number; total?: number } {
+  const taken = schedule.doseLog.filter(entry => entry.status === 'taken').length;
+  const skipped = schedule.doseLog.filter(entry => entry.status === 'skipped').length;
+  const courseEnd = getCourseEndDate(schedule);
+  if (courseEnd === undefined || schedule.schedule.asNeeded) return { taken, skipped };
+
+  let total = 0;
+  for (let day = schedule.startDate; day < courseEnd; day = addDays(day, 1)) {
+    total += getDosesForDay(schedule, day).length;
+  }
+  return { taken, skipped, total };
+}
@@ -0,0 +1,71 @@
+import { filterUnsafeMedicines, toMedicineSafetyProfile, type MedicineSafetyProfile } from './medicine-safety';
+
+const adult: MedicineSafetyProfile = { age: 35, drugAllergies: [], currentMedications: [] };
+const candidates = (...names: string[]) => names.map((activeIngredient) => ({ activeIngredient }));
+const safeNames = (result: ReturnType<typeof filterUnsafeMedicines>) => result.safe.map((medicine) => medicine.activeIngredient);
+
+test('keeps every suggestion for a profile without risk factors', () => {
+  const result = filterUnsafeMedicines(candidates('Ibuprofen', 'Acetaminophen', 'Loratadine'), adult);
+  expect(safeNames(result)).toEqual(['Ibuprofen', 'Acetaminophen', 'Loratadine']);
+  expect(result.excluded).toEqual([]);
+});
+
+test('removes allergens, including other drugs of the same class', () => {
+  const result = filterUnsafeMedicines(
+    candidates('Naproxen', 'Acetaminophen'),
+    { ...adult, drugAllergies: ['Brufen'] }
+  );
+  expect(safeNames(result)).toEqual(['Acetaminophen']);
+  expect(result.excluded).toEqual([expect.objectContaining({ activeIngredient: 'Naproxen', reason: 'allergy' })]);
+
+  const byClassName = filterUnsafeMedicines(candidates('Aspirin'), { ...adult, drugAllergies: ['NSAIDs'] });
+  expect(byClassName.excluded[0].reason).toBe('allergy');
+});
+
+test('applies pediatric and geriatric age limits', () => {
+  const child = filterUnsafeMedicines(candidates('Aspirin', 'Diphenhydramine', 'Acetaminophen'), { ...adult, age: 5 });
+  expect(safeNames(child)).toEqual(['Acetaminophen']);
+  expect(child.excluded.map((item) => item.reason)).toEqual(['age', 'age']);
+
+  const older = filterUnsafeMedicines(candidates('Ibuprofen', 'Loratadine'), { ...adult, age: 72 });
+  expect(safeNames(older)).toEqual(['Loratadine']);
+});
+
+test('applies pregnancy, condition and interaction rules', () => {
+  expect(filterUnsafeMedicines(candidates('Pseudoephedrine'), { ...adult, pregnancyStatus: 'pregnant' }).excluded[0].reason).toBe('pregnancy');
+  expect(filterUnsafeMedicines(candidates('Phenylephrine'), { ...adult, conditions: 'High blood pressure' }).excluded[0].reason).toBe('condition');
+  const onWarfarin = filterUnsafeMedicines(candidates('Ibuprofen'), { ...adult, currentMedications: ['Warfarin 5mg'] });
+  expect(onWarfarin.excluded[0]).toEqual(expect.objectContaining({ reason: 'interaction' }));
+  expect(onWarfarin.excluded[0].explanation).toContain('Warfarin 5mg');
+});
+
+test('checks each ingredient of a combination product', () => {
+  const result = filterUnsafeMedicines(candidates('Acetaminophen and phenylephrine'), { ...adult, age: 3 });
+  expect(result.excluded[0].reason).toBe('age');
+});
+
+test('checks each ingredient of a combination product for interactions', () => {
+  const onLinezolid = { ...adult, currentMedications: ['Linezolid 600mg'] };
+  const result = filterUnsafeMedicines(candidates('Paracetamol + Pseudoephedrine', 'Paracetamol'), onLinezolid);
+  expect(safeNames(result)).toEqual(['Paracetamol']);
+  expect(result.excluded[0]).toEqual(expect.objectContaining({ activeIngredient: 'Paracetamol + Pseudoephedrine', reason: 'interaction' }));
+  expect(result.excluded[0].explanation).toContain('Linezolid 600mg');
+});
+
+test('builds the safety profile from a user profile', () => {
+  expect(toMedicineSafetyProfile({
+    name: 'Asha',
+    age: 30,
+    gender: 'female',
+    drugAllergies: [{ substance: 'Penicillin', reaction: 'Rash' }],
+    currentMedications: [{ name: 'Metformin', dose: '500mg' }],
+    pregnancyStatus: 'breastfeeding',
+    dietaryPreferences: [],
+  })).toEqual({
+    age: 30,
+    drugAllergies: ['Penicillin'],
+    pregnancyStatus: 'breastfeeding',
+    conditions: undefined,
+    currentMedications: ['Metformin'],
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @fileOverview Deterministic safety filter for AI-suggested OTC medicines. Runs after generation
+ * so that a suggestion the model should not have made (an allergen, a drug unsuitable for the
+ * person's age, pregnancy or conditions) is removed rather than shown.
+ *
+ * - filterUnsafeMedicines - Splits suggestions into safe ones and exclusions with reasons.
+ * - toMedicineSafetyProfile - Extracts the fields the filter needs from a user profile.
+ * - MedicineSafetyProfile - The person the suggestions are for.
+ * - ExcludedMedicine - A removed suggestion and why it was removed.
+ */
+
+import type { DrugDefinition } from '@/lib/drug-interactions-data';
+import { checkInteractions, findKnownDrugsInText, resolveDrug } from '@/lib/drug-interactions';
+import type { UserProfile } from '@/lib/user-profile';
+
+export interface MedicineSafetyProfile {
+  age?: number;
+  // Used for weight-based doses in pediatric mode
+  weightKg?: number;
+  // Free-text substances, e.g. "ibuprofen" or "NSAIDs"
+  drugAllergies: string[];
+  pregnancyStatus?: 'not_pregnant' | 'pregnant' | 'breastfeeding';
+  conditions?: string;
+  currentMedications: string[];
+}
+
+export type ExclusionReason = 'allergy' | 'age' | 'pregnancy' | 'condition' | 'interaction';
+
+export interface ExcludedMedicine {
+  activeIngredient: string;
+  reason: ExclusionReason;
+  explanation: string;
+}
+
+export interface MedicineCandidate {
+  activeIngredient: string;
+  exampleBrands?: string[];
+}
+
+// References are drug ids or `class:<name>`, as in the interaction dataset.
+interface AgeRule {
+  reference: string;
+  // Unsafe below this age
+  minimumAge?: number;
+  // Unsafe from this age up
+  avoidFromAge?: number;
+  explanation: string;
+}
+
+interface PregnancyRule {
+  reference: string;
+  statuses: ('pregnant' | 'breastfeeding')[];
+  explanation: string;
+}
+
+interface ConditionRule {
+  reference: string;
+  pattern: RegExp;
+  explanation: string;
+}
+
+export const AGE_RULES: AgeRule[] = [
+  { reference: 'aspirin', minimumAge: 16, explanation: 'Aspirin is not given to children and teenagers under 16 because of the risk of Reye\'s syndrome.' },
+  { reference: 'bismuth subsalicylate', minimumAge: 12, explanation: 'Bismuth subsalicylate contains a salicylate and is not recommended for children under 12.' },
+  { reference: 'naproxen', minimumAge: 12, explanation: 'OTC naproxen is not recommended for children under 12; children\'s ibuprofen is used instead.' },
+  { reference: 'codeine', minimumAge: 12, explanation: 'Codeine can cause dangerously slow breathing in children under 12.' },
+  { reference: 'loperamide', minimumAge: 6, explanation: 'Loperamide is not recommended for children under 6 without a doctor\'s advice.' },
+  { reference: 'class:sedating_antihistamine', minimumAge: 6, explanation: 'Sedating antihistamines are not recommended for children under 6.' },
+  { reference: 'class:decongestant', minimumAge: 4, explanation: 'Cough and cold decongestants are not recommended for children under 4.' },
+  { reference: 'dextromethorphan', minimumAge: 4, explanation: 'Cough suppressants are not recommended for children under 4.' },
+  { reference: 'guaifenesin', minimumAge: 4, explanation: 'Cough expectorants are not recommended for children under 4.' },
+  { reference: 'class:sedating_antihistamine', avoidFromAge: 65, explanation: 'Sedating antihistamines raise the risk of confusion and falls in people over 65.' },
+  { reference: 'class:nsaid', avoidFromAge: 65, explanation: 'NSAIDs carry a higher risk of stomach bleeding and kidney problems over 65; ask a pharmacist first.' },
+];
+
+export const PREGNANCY_RULES: PregnancyRule[] = [
+  { reference: 'class:nsaid', statuses: ['pregnant'], explanation: 'NSAIDs such as ibuprofen and aspirin should be avoided during pregnancy unless a doctor advises them.' },
+  { reference: 'bismuth subsalicylate', statuses: ['pregnant', 'breastfeeding'], explanation: 'Bismuth subsalicylate contains a salicylate, which is not recommended during pregnancy or breastfeeding.' },
+  { reference: 'class:decongestant', statuses: ['pregnant'], explanation: 'Oral decongestants are best avoided during pregnancy, especially in the first trimester.' },
+  { reference: 'pseudoephedrine', statuses: ['breastfeeding'], explanation: 'Pseudoephedrine can reduce breast milk supply.' },
+  { reference: 'aspirin', statuses: ['breastfeeding'], explanation: 'Aspirin passes into breast milk and is not recommended while breastfeeding.' },
+  { reference: 'codeine', statuses: ['pregnant', 'breastfeeding'], explanation: 'Codeine is not recommended during pregnancy or breastfeeding.' },
+];
+
+export const CONDITION_RULES: ConditionRule[] = [
+  { reference: 'class:nsaid', pattern: /ulcer|stomach\s+bleed|gastritis|\bgerd\b/i, explanation: 'NSAIDs can cause stomach bleeding in people with ulcers or gastritis.' },
+  { reference: 'class:nsaid', pattern: /kidney|renal|\bckd\b/i, explanation: 'NSAIDs can worsen kidney disease.' },
+  { reference: 'class:nsaid', pattern: /heart\s+(disease|failure)|cardiac|coronary/i, explanation: 'NSAIDs can worsen heart disease and heart failure.' },
+  { reference: 'class:nsaid', pattern: /bleeding\s+disorder|haemophilia|hemophilia/i, explanation: 'NSAIDs increase bleeding risk in people with a bleeding disorder.' },
+  { reference: 'aspirin', pattern: /asthma/i, explanation: 'Aspirin can trigger asthma attacks in some people with asthma.' },
+  { reference: 'class:decongestant', pattern: /hypertension|high\s+blood\s+pressure|\bbp\b/i, explanation: 'Decongestants can raise blood pressure.' },
+  { reference: 'class:decongestant', pattern: /thyroid/i, explanation: 'Decongestants are not recommended with an overactive thyroid.' },
+  { reference: 'class:decongestant', pattern: /glaucoma|prostate/i, explanation: 'Decongestants can worsen glaucoma and urinary retention from an enlarged prostate.' },
+  { reference: 'class:sedating_antihistamine', pattern: /glaucoma|prostate/i, explanation: 'Sedating antihistamines can worsen glaucoma and urinary retention from an enlarged prostate.' },
+  { reference: 'acetaminophen', pattern: /liver|hepat|cirrhosis/i, explanation: 'Acetaminophen (paracetamol) needs a lower dose or avoidance with liver disease; ask a doctor first.' },
+];
+
+// Allergy to one member of these classes is treated as allergy to the whole class.
+const CROSS_REACTIVE_CLASSES = ['nsaid', 'salicylate', 'opioid'];
+
+// Allergies entered as a class name rather than a drug
+const CLASS_ALLERGY_PATTERNS: [RegExp, string][] = [
+  [/nsaid|anti-?inflammator/i, 'nsaid'],
+  [/salicylate/i, 'salicylate'],
+  [/opioid|opiate/i, 'opioid'],
+];
+
+function matchesReference(reference: string, drug: DrugDefinition): boolean {
+  return reference.startsWith('class:') ? drug.classes.includes(reference.slice('class:'.length)) : reference === drug.id;
+}
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function findAllergyExplanation(candidate: MedicineCandidate, drugs: DrugDefinition[], allergies: string[]): string | null {
+  const candidateText = normalize(candidate.activeIngredient);
+  for (const allergy of allergies) {
+    const allergen = resolveDrug(allergy);
+    for (const drug of drugs) {
+      if (allergen?.id === drug.id) {
+        return `Listed as a drug allergy (${allergy}).`;
+      }
+      const sharedClass = allergen?.classes.find(drugClass => CROSS_REACTIVE_CLASSES.includes(drugClass) && drug.classes.includes(drugClass));
+      if (sharedClass) {
+        return `Same drug class as your ${allergy} allergy; cross-reactions are common.`;
+      }
+      const allergicClass = CLASS_ALLERGY_PATTERNS.find(([pattern]) => pattern.test(allergy))?.[1];
+      if (allergicClass && drug.classes.includes(allergicClass)) {
+        return `Belongs to a drug class you are allergic to (${allergy}).`;
+      }
+    }
+    // Substances the dataset does not know about are compared by name.
+    if (!allergen && normalize(allergy).length >= 3 && candidateText.includes(normalize(allergy))) {
+      return `Listed as a drug allergy (${allergy}).`;
+    }
+  }
+  return null;
+}
+
+function findAgeExplanation(drugs: DrugDefinition[], age: number | undefined): string | null {
+  if (age === undefined) return null;
+  const rule = AGE_RULES.find(candidate =>
+    drugs.some(drug => matchesReference(candidate.reference, drug)) &&
+    ((candidate.minimumAge !== undefined && age < candidate.minimumAge) ||
+      (candidate.avoidFromAge !== undefined && age >= candidate.avoidFromAge))
+  );
+  return rule?.explanation ?? null;
+}
+
+function findPregnancyExplanation(drugs: DrugDefinition[], status: MedicineSafetyProfile['pregnancyStatus']): string | null {
+  if (!status || status === 'not_pregnant') return null;
+  const rule = PREGNANCY_RULES.find(candidate =>
+    candidate.statuses.includes(status) && drugs.some(drug => matchesReference(candidate.reference, drug))
+  );
+  return rule?.explanation ?? null;
+}
+
+function findConditionExplanation(drugs: DrugDefinition[], conditions: string | undefined): string | null {
+  if (!conditions) return null;
+  const rule = CONDITION_RULES.find(candidate =>
+    candidate.pattern.test(conditions) && drugs.some(drug => matchesReference(candidate.reference, drug))
+  );
+  return rule?.explanation ?? null;
+}
+
+// Each ingredient of a combination product is checked on its own; interactions between the
+// ingredients themselves are left to the product.
+function findInteractionExplanation(candidate: MedicineCandidate, drugs: DrugDefinition[], currentMedications: string[]): string | null {
+  if (currentMedications.length === 0) return null;
+  const ingredients = drugs.length > 0 ? drugs.map(drug => drug.id) : [candidate.activeIngredient];
+  const { warnings } = checkInteractions([
+    ...ingredients.map(name => ({ name, source: 'otc' as const })),
+    ...currentMedications.map(name => ({ name, source: 'profile' as const })),
+  ]);
+  const serious = warnings.find(warning =>
+    (warning.severity === 'contraindicated' || warning.severity === 'major') &&
+    (warning.drugA.source === 'otc') !== (warning.drugB.source === 'otc')
+  );
+  if (!serious) return null;
+  const other = serious.drugA.source === 'otc' ? serious.drugB : serious.drugA;
+  return `Interacts with ${other.name}: ${serious.description}`;
+}
+
+/**
+ * Checks every suggestion against the profile and removes the unsafe ones. Checks run in order
+ * (allergy, age, pregnancy, conditions, interactions) and the first one that fails is reported.
+ * Combination products are checked ingredient by ingredient.
+ */
+export function filterUnsafeMedicines<T extends MedicineCandidate>(
+  medicines: T[],
+  profile: MedicineSafetyProfile
+): { safe: T[]; excluded: ExcludedMedicine[] } {
+  const safe: T[] = [];
+  const excluded: ExcludedMedicine[] = [];
+
+  for (const medicine of medicines) {
+    const drugs = findKnownDrugsInText([medicine.activeIngredient, ...(medicine.exampleBrands ?? [])].join(', '));
+    const checks: [ExclusionReason, () => string | null][] = [
+      ['allergy', () => findAllergyExplanation(medicine, drugs, profile.drugAllergies)],
+      ['age', () => findAgeExplanation(drugs, profile.age)],
+      ['pregnancy', () => findPregnancyExplanation(drugs, profile.pregnancyStatus)],
+      ['condition', () => findConditionExplanation(drugs, profile.conditions)],
+      ['interaction', () => findInteractionExplanation(medicine, drugs, profile.currentMedications)],
+    ];
+    let exclusion: ExcludedMedicine | null = null;
+    for (const [reason, check] of checks) {
+      const explanation = check();
+      if (explanation) {
+        exclusion = { activeIngredient: medicine.activeIngredient, reason, explanation };
+        break;
+      }
+    }
+    if (exclusion) {
+      excluded.push(exclusion);
+    } else {
+      safe.push(medicine);
+    }
+  }
+
+  return { safe, excluded };
+}
+
+export function toMedicineSafetyProfile(profile: UserProfile): MedicineSafetyProfile {
+  return {
+    age: profile.age,
+    weightKg: profile.weightKg,
+    drugAllergies: profile.drugAllergies.map(allergy => allergy.substance),
+    pregnancyStatus: profile.pregnancyStatus,
+    conditions: profile.conditions,
+    currentMedications: profile.currentMedications.map(medication => medication.name),
+  };
+}
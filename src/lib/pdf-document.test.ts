@@ -0,0 +1,16 @@
+import { MAX_PDF_BYTES, hasPdfHeader, validatePdfFile } from './pdf-document';
+
+test('accepts PDFs up to the size limit', () => {
+  expect(validatePdfFile({ name: 'prescription.pdf', type: 'application/pdf', size: MAX_PDF_BYTES })).toBeNull();
+  expect(validatePdfFile({ name: 'Report.PDF', type: '', size: 1000 })).toBeNull();
+});
+
+test('rejects oversized files and files that are not PDFs', () => {
+  expect(validatePdfFile({ name: 'scan.pdf', type: 'application/pdf', size: MAX_PDF_BYTES + 1 })?.code).toBe('too_large');
+  expect(validatePdfFile({ name: 'scan.png', type: 'image/png', size: 1000 })?.code).toBe('invalid');
+});
+
+test('recognizes the PDF file header', () => {
+  expect(hasPdfHeader(new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31]))).toBe(true);
+  expect(hasPdfHeader(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(false);
+});
@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Checks for PDFs uploaded in the scan view, and the errors shown when one cannot be
+ * used. Opening and rendering the PDF happen in `@/lib/pdf-render`.
+ *
+ * - validatePdfFile - The checks that can be made before reading the file.
+ * - hasPdfHeader - Whether the file content is a PDF, whatever its name.
+ * - isPdfFile - Whether an uploaded file is a PDF.
+ * - pdfError / PDF_ERROR_MESSAGES - The user-facing message for each PdfErrorCode.
+ * - MAX_PDF_BYTES - Largest PDF accepted.
+ */
+
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+export type PdfErrorCode = 'too_large' | 'encrypted' | 'invalid';
+
+export interface PdfError {
+  code: PdfErrorCode;
+  // Safe to show to the user as is
+  message: string;
+}
+
+export const PDF_ERROR_MESSAGES: Record<PdfErrorCode, string> = {
+  too_large: `This PDF is larger than ${MAX_PDF_BYTES / (1024 * 1024)} MB. Upload only the pages you need, or photograph them instead.`,
+  encrypted: 'This PDF is password-protected. Save an unprotected copy or print it to a new PDF, then upload that.',
+  invalid: 'This file could not be read as a PDF. It may be damaged.',
+};
+
+export const pdfError = (code: PdfErrorCode): PdfError => ({ code, message: PDF_ERROR_MESSAGES[code] });
+
+export function isPdfFile(file: { name: string; type: string }): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+export function validatePdfFile(file: { name: string; type: string; size: number }): PdfError | null {
+  if (!isPdfFile(file)) return pdfError('invalid');
+  if (file.size > MAX_PDF_BYTES) return pdfError('too_large');
+  return null;
+}
+
+// Every PDF starts with "%PDF-"; anything else renamed to .pdf is rejected before pdf.js sees it.
+export function hasPdfHeader(bytes: Uint8Array): boolean {
+  return String.fromCharCode(...Array.from(bytes.subarray(0, 5))) === '%PDF-';
+}
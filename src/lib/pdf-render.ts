@@ -0,0 +1,66 @@
+/**
+ * @fileOverview Browser-only PDF rendering for the scan view. E-prescriptions and lab reports often
+ * arrive as PDFs, while prescription analysis reads images, so the pages the user picks are
+ * rasterized locally with pdf.js; the document itself never leaves the device.
+ *
+ * - loadPdf - Opens a PDF file, or explains why it cannot be used (too large, encrypted, not a PDF).
+ * - renderPdfPage - Renders one page to a JPEG data URI.
+ * - PDF_ANALYSIS_SCALE / PDF_THUMBNAIL_SCALE - Render scales for analysis and for the page picker.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { hasPdfHeader, pdfError, validatePdfFile, type PdfError } from '@/lib/pdf-document';
+
+// Scale for pages sent to analysis; 2x keeps small print legible to the model.
+export const PDF_ANALYSIS_SCALE = 2;
+export const PDF_THUMBNAIL_SCALE = 0.3;
+
+export type PdfLoadResult = { ok: true; pdf: PDFDocumentProxy } | { ok: false; error: PdfError };
+
+// pdf.js is large, so it is only loaded once a PDF is actually opened. The bundler emits the
+// worker as a static asset and rewrites the URL below to point at it.
+async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+}
+
+export async function loadPdf(file: File): Promise<PdfLoadResult> {
+  const invalid = validatePdfFile(file);
+  if (invalid) return { ok: false, error: invalid };
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!hasPdfHeader(bytes)) return { ok: false, error: pdfError('invalid') };
+
+  const pdfjs = await loadPdfJs();
+  try {
+    return { ok: true, pdf: await pdfjs.getDocument({ data: bytes }).promise };
+  } catch (e) {
+    // PDFs with only an owner password open fine; a user password is needed to read the pages.
+    if ((e as { name?: unknown } | null)?.name === 'PasswordException') return { ok: false, error: pdfError('encrypted') };
+    console.error('Failed to open PDF', e);
+    return { ok: false, error: pdfError('invalid') };
+  }
+}
+
+// Page numbers are 1-based, as in pdf.js.
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, scale: number = PDF_ANALYSIS_SCALE, quality = 0.9): Promise<string> {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported.');
+    // Transparent page backgrounds would otherwise turn black in the JPEG.
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas.toDataURL('image/jpeg', quality);
+  } finally {
+    page.cleanup();
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Bundled weight-based dosing table for children's OTC medicines, used by
+ * `@/lib/pediatric-dosing`.
+ *
+ * Entries are keyed by the drug id used in `@/lib/drug-interactions-data`. Doses follow standard
+ * paediatric references for oral liquid formulations; only drugs listed here get a calculated dose.
+ */
+
+export const PEDIATRIC_DOSING_TABLE_VERSION = '2026.10.1';
+
+export interface PediatricDosingEntry {
+  drugId: string;
+  mgPerKgMin: number;
+  mgPerKgMax: number;
+  // Never exceeded regardless of weight
+  maxSingleDoseMg: number;
+  maxMgPerKgPerDay: number;
+  maxDailyMg: number;
+  maxDosesPerDay: number;
+  interval: string;
+  liquid: {
+    label: string;
+    mgPerMl: number;
+  };
+  // Children lighter than this should be dosed by a doctor
+  minimumWeightKg: number;
+}
+
+export const PEDIATRIC_DOSING_TABLE: PediatricDosingEntry[] = [
+  {
+    drugId: 'acetaminophen',
+    mgPerKgMin: 10,
+    mgPerKgMax: 15,
+    maxSingleDoseMg: 1000,
+    maxMgPerKgPerDay: 75,
+    maxDailyMg: 4000,
+    maxDosesPerDay: 5,
+    interval: 'every 4-6 hours',
+    liquid: { label: '160 mg/5 mL', mgPerMl: 32 },
+    minimumWeightKg: 4,
+  },
+  {
+    drugId: 'ibuprofen',
+    mgPerKgMin: 5,
+    mgPerKgMax: 10,
+    maxSingleDoseMg: 400,
+    maxMgPerKgPerDay: 40,
+    maxDailyMg: 1200,
+    maxDosesPerDay: 4,
+    interval: 'every 6-8 hours',
+    liquid: { label: '100 mg/5 mL', mgPerMl: 20 },
+    minimumWeightKg: 5,
+  },
+];
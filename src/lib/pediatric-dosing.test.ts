@@ -0,0 +1,67 @@
+import { applyPediatricDosing, calculatePediatricDose, isPediatric } from './pediatric-dosing';
+import { PEDIATRIC_DOSING_TABLE, PEDIATRIC_DOSING_TABLE_VERSION } from './pediatric-dosing-data';
+
+test('applies pediatric mode under 12 only', () => {
+  expect(isPediatric(3)).toBe(true);
+  expect(isPediatric(11)).toBe(true);
+  expect(isPediatric(12)).toBe(false);
+  expect(isPediatric(undefined)).toBe(false);
+});
+
+test('calculates weight-based acetaminophen and ibuprofen doses', () => {
+  expect(calculatePediatricDose('acetaminophen', 14)).toEqual(expect.objectContaining({
+    singleDoseMinMg: 140,
+    singleDoseMaxMg: 210,
+    liquidMinMl: 4.5,
+    liquidMaxMl: 6.5,
+    maxDailyMg: 1050,
+  }));
+  expect(calculatePediatricDose('ibuprofen', 14)).toEqual(expect.objectContaining({
+    singleDoseMinMg: 70,
+    singleDoseMaxMg: 140,
+    maxDailyMg: 560,
+  }));
+});
+
+test('never gives a liquid volume above the maximum single dose', () => {
+  for (const drugId of ['acetaminophen', 'ibuprofen']) {
+    const entry = PEDIATRIC_DOSING_TABLE.find(candidate => candidate.drugId === drugId)!;
+    for (let weightKg = 5; weightKg <= 60; weightKg += 0.5) {
+      const dose = calculatePediatricDose(drugId, weightKg)!;
+      expect(dose.liquidMaxMl * entry.liquid.mgPerMl).toBeLessThanOrEqual(dose.singleDoseMaxMg);
+      expect(dose.liquidMinMl).toBeLessThanOrEqual(dose.liquidMaxMl);
+    }
+  }
+  // 7 kg: 105 mg max is 3.28 mL, which must not round up to 3.5 mL (112 mg)
+  expect(calculatePediatricDose('acetaminophen', 7)).toEqual(expect.objectContaining({ singleDoseMaxMg: 105, liquidMaxMl: 3 }));
+});
+
+test('caps doses at the adult maximum and refuses unknown drugs or very low weights', () => {
+  expect(calculatePediatricDose('ibuprofen', 60)).toEqual(expect.objectContaining({ singleDoseMaxMg: 400, maxDailyMg: 1200 }));
+  expect(calculatePediatricDose('loratadine', 14)).toBeNull();
+  expect(calculatePediatricDose('ibuprofen', 4)).toBeNull();
+});
+
+test('replaces model doses and reports which were calculated', () => {
+  const suggestions = [
+    { activeIngredient: 'Ibuprofen', doseRange: '200-400 mg every 4-6 hours', maxDailyDose: '1200 mg' },
+    { activeIngredient: 'Saline nasal drops', doseRange: '2 drops per nostril' },
+  ];
+  const { medicines, summary } = applyPediatricDosing(suggestions, 14);
+  expect(medicines[0].doseRange).toBe('70-140 mg (3.5-7 mL of 100 mg/5 mL liquid) every 6-8 hours');
+  expect(medicines[0].maxDailyDose).toBe('4 doses or 560 mg in 24 hours');
+  expect(medicines[1].doseRange).toMatch(/ask a pharmacist/);
+  expect(summary).toEqual({ tableVersion: PEDIATRIC_DOSING_TABLE_VERSION, weightKg: 14, calculatedFor: ['Ibuprofen'] });
+
+  expect(applyPediatricDosing(suggestions, undefined).medicines[0].doseRange).toMatch(/Add their weight/);
+});
+
+test('does not calculate a dose for combination products', () => {
+  const { medicines, summary } = applyPediatricDosing(
+    [{ activeIngredient: 'Ibuprofen and pseudoephedrine', doseRange: '200 mg / 30 mg every 4-6 hours', maxDailyDose: '1200 mg' }],
+    14
+  );
+  expect(medicines[0].doseRange).toMatch(/Combination product: ask a pharmacist/);
+  expect(medicines[0].maxDailyDose).toBeUndefined();
+  expect(summary.calculatedFor).toEqual([]);
+});
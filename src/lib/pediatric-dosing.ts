@@ -0,0 +1,106 @@
+/**
+ * @fileOverview Pediatric mode for medicine suggestions. Profiles under 12 get weight-based doses
+ * for acetaminophen and ibuprofen from the bundled table in `@/lib/pediatric-dosing-data`, in place
+ * of the adult dose ranges the model tends to give.
+ *
+ * - isPediatric - Whether pediatric mode applies to an age.
+ * - calculatePediatricDose - Weight-based dose range for a drug in the table.
+ * - applyPediatricDosing - Replaces model-generated doses with calculated or "ask a pharmacist" guidance.
+ */
+
+import { findKnownDrugsInText } from '@/lib/drug-interactions';
+import { PEDIATRIC_DOSING_TABLE, PEDIATRIC_DOSING_TABLE_VERSION } from '@/lib/pediatric-dosing-data';
+
+export const PEDIATRIC_AGE_LIMIT = 12;
+
+export interface PediatricDose {
+  drugId: string;
+  singleDoseMinMg: number;
+  singleDoseMaxMg: number;
+  // Volume of the standard children's liquid in 0.5 mL steps; the maximum is rounded down so it never exceeds singleDoseMaxMg
+  liquidMinMl: number;
+  liquidMaxMl: number;
+  liquidLabel: string;
+  interval: string;
+  maxDosesPerDay: number;
+  maxDailyMg: number;
+}
+
+export interface PediatricDosingSummary {
+  tableVersion: string;
+  weightKg?: number;
+  // Active ingredients whose dose was calculated from weight
+  calculatedFor: string[];
+}
+
+export function isPediatric(age: number | undefined): boolean {
+  return age !== undefined && age < PEDIATRIC_AGE_LIMIT;
+}
+
+const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+const floorToHalf = (value: number) => Math.floor(value * 2) / 2;
+
+/**
+ * Returns null when the drug is not in the table or the child is below its minimum weight.
+ */
+export function calculatePediatricDose(drugId: string, weightKg: number): PediatricDose | null {
+  const entry = PEDIATRIC_DOSING_TABLE.find(candidate => candidate.drugId === drugId);
+  if (!entry || weightKg < entry.minimumWeightKg) return null;
+  const singleDoseMaxMg = Math.min(Math.round(entry.mgPerKgMax * weightKg), entry.maxSingleDoseMg);
+  const singleDoseMinMg = Math.min(Math.round(entry.mgPerKgMin * weightKg), singleDoseMaxMg);
+  return {
+    drugId,
+    singleDoseMinMg,
+    singleDoseMaxMg,
+    liquidMinMl: Math.min(roundToHalf(singleDoseMinMg / entry.liquid.mgPerMl), floorToHalf(singleDoseMaxMg / entry.liquid.mgPerMl)),
+    liquidMaxMl: floorToHalf(singleDoseMaxMg / entry.liquid.mgPerMl),
+    liquidLabel: entry.liquid.label,
+    interval: entry.interval,
+    maxDosesPerDay: entry.maxDosesPerDay,
+    maxDailyMg: Math.min(Math.round(entry.maxMgPerKgPerDay * weightKg), entry.maxDailyMg),
+  };
+}
+
+export function formatPediatricDose(dose: PediatricDose): string {
+  return `${dose.singleDoseMinMg}-${dose.singleDoseMaxMg} mg (${dose.liquidMinMl}-${dose.liquidMaxMl} mL of ${dose.liquidLabel} liquid) ${dose.interval}`;
+}
+
+/**
+ * Replaces the dose ranges of suggestions for a child. Single-ingredient drugs in the table get a
+ * weight-based dose; combination products, everything else, and every drug when the weight is
+ * unknown are marked as needing a pharmacist's dose, since an adult range is never safe to show for a child.
+ */
+export function applyPediatricDosing<T extends { activeIngredient: string; doseRange: string; maxDailyDose?: string }>(
+  medicines: T[],
+  weightKg: number | undefined
+): { medicines: T[]; summary: PediatricDosingSummary } {
+  const calculatedFor: string[] = [];
+  const dosed = medicines.map(medicine => {
+    const drugs = findKnownDrugsInText(medicine.activeIngredient);
+    // A combination product's dose is set by all of its ingredients, not just the one in the table.
+    if (drugs.length > 1) {
+      return {
+        ...medicine,
+        doseRange: 'Combination product: ask a pharmacist for the dose for this age and weight.',
+        maxDailyDose: undefined,
+      };
+    }
+    const dose = drugs.length === 1 && weightKg ? calculatePediatricDose(drugs[0].id, weightKg) : null;
+    if (!dose) {
+      return {
+        ...medicine,
+        doseRange: weightKg
+          ? 'Use the children\'s product and ask a pharmacist for the dose for this age and weight.'
+          : 'Dose depends on the child\'s weight. Add their weight to the profile or ask a pharmacist.',
+        maxDailyDose: undefined,
+      };
+    }
+    calculatedFor.push(medicine.activeIngredient);
+    return {
+      ...medicine,
+      doseRange: formatPediatricDose(dose),
+      maxDailyDose: `${dose.maxDosesPerDay} doses or ${dose.maxDailyMg} mg in 24 hours`,
+    };
+  });
+  return { medicines: dosed, summary: { tableVersion: PEDIATRIC_DOSING_TABLE_VERSION, weightKg, calculatedFor } };
+}
@@ -0,0 +1,20 @@
+import { legibilityLevel, lowConfidenceFields, needsConfirmation } from './prescription-confidence';
+
+const medication = { name: 'Amlodipine 5mg', dosage: '1 tablet', frequency: 'Once daily' };
+
+test('lists the extracted fields scored below the threshold', () => {
+  expect(lowConfidenceFields({ ...medication, confidence: { name: 0.5, dosage: 0.9, frequency: 0.7 } })).toEqual(['name']);
+});
+
+test('treats an extracted field without a score as doubtful, and ignores fields that were not extracted', () => {
+  expect(lowConfidenceFields({ ...medication, confidence: { name: 1, dosage: 1, duration: 0.1 } })).toEqual(['frequency']);
+});
+
+test('does not ask to confirm medications saved before extraction was scored', () => {
+  expect(needsConfirmation(medication)).toBe(false);
+  expect(needsConfirmation({ ...medication, confidence: { name: 1, dosage: 1, frequency: 1 }, uncertain: true })).toBe(true);
+});
+
+test('rates legibility', () => {
+  expect([0.95, 0.8, 0.6, 0.2].map(legibilityLevel)).toEqual(['good', 'good', 'fair', 'poor']);
+});
@@ -0,0 +1,43 @@
+/**
+ * @fileOverview How much to trust what was read off a prescription. The model scores each field of
+ * each medication; anything below the threshold, or a medication the model flagged as uncertain,
+ * is shown for the user to confirm against the paper.
+ *
+ * - lowConfidenceFields - The extracted fields of a medication that may be misread.
+ * - needsConfirmation - Whether the user should check a medication against the prescription.
+ * - legibilityLevel - A coarse rating of a page legibility score, for display.
+ * - LOW_CONFIDENCE_THRESHOLD - Field confidence below which a reading is treated as doubtful.
+ */
+
+import type { MedicationFieldConfidence, PageMedication } from '@/ai/schemas/analyze-prescription';
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export type MedicationField = keyof MedicationFieldConfidence;
+
+export const MEDICATION_FIELDS: MedicationField[] = ['name', 'dosage', 'frequency', 'duration', 'notes'];
+
+export type LegibilityLevel = 'good' | 'fair' | 'poor';
+
+type ScoredMedication = Pick<PageMedication, MedicationField> & {
+  // Missing on medications saved before extraction was scored
+  confidence?: Partial<MedicationFieldConfidence>;
+  uncertain?: boolean;
+};
+
+// A field that was extracted without a score counts as doubtful; fields left out are not scored.
+export function lowConfidenceFields(medication: ScoredMedication): MedicationField[] {
+  if (!medication.confidence) return [];
+  const { confidence } = medication;
+  return MEDICATION_FIELDS.filter(field => medication[field] !== undefined && (confidence[field] ?? 0) < LOW_CONFIDENCE_THRESHOLD);
+}
+
+export function needsConfirmation(medication: ScoredMedication): boolean {
+  return !!medication.uncertain || lowConfidenceFields(medication).length > 0;
+}
+
+export function legibilityLevel(score: number): LegibilityLevel {
+  if (score >= 0.8) return 'good';
+  if (score >= 0.5) return 'fair';
+  return 'poor';
+}
@@ -0,0 +1,86 @@
+import type { PageMedication } from '@/ai/schemas/analyze-prescription';
+import { mergePrescriptionPages, UNREADABLE_PAGE_SUMMARY } from './prescription-pages';
+
+type MedicationReading = Omit<PageMedication, 'confidence' | 'uncertain'> & Partial<Pick<PageMedication, 'confidence' | 'uncertain'>>;
+
+// Medications read with full confidence unless a test says otherwise
+const clearly = ({ confidence, uncertain = false, ...medication }: MedicationReading): PageMedication => ({
+  ...medication,
+  confidence: confidence ?? { name: 1, dosage: 1, ...(medication.frequency && { frequency: 1 }), ...(medication.notes && { notes: 1 }) },
+  uncertain,
+});
+
+const page = (medications: MedicationReading[], summary = 'Prescription analyzed.', legibility = 1) => ({
+  medications: medications.map(clearly),
+  legibility,
+  summary,
+  disclaimer: 'Disclaimer',
+});
+
+const withoutScores = ({ name, dosage, frequency, duration, notes, pages }: PageMedication & { pages: number[] }) => ({ name, dosage, frequency, duration, notes, pages });
+
+test('keeps a single page as it is, recording page 1', () => {
+  const result = mergePrescriptionPages([page([{ name: 'Amoxicillin 500mg', dosage: '1 capsule' }])]);
+  expect(result).toEqual({
+    medications: [{ name: 'Amoxicillin 500mg', dosage: '1 capsule', confidence: { name: 1, dosage: 1 }, uncertain: false, pages: [1] }],
+    overall_instructions: undefined,
+    legibility: 1,
+    summary: 'Prescription analyzed.',
+    disclaimer: 'Disclaimer',
+  });
+});
+
+test('merges a medication repeated on several pages and fills in missing details', () => {
+  const result = mergePrescriptionPages([
+    page([{ name: 'Amoxicillin 500mg', dosage: '1 capsule' }, { name: 'Pantoprazole 40mg', dosage: '1 tablet' }]),
+    page([{ name: 'amoxicillin  500MG', dosage: '1 Capsule', frequency: 'Three times a day' }, { name: 'Amoxicillin 500mg', dosage: '2 capsules' }]),
+  ]);
+  expect(result.medications.map(withoutScores)).toEqual([
+    { name: 'Amoxicillin 500mg', dosage: '1 capsule', frequency: 'Three times a day', pages: [1, 2] },
+    { name: 'Pantoprazole 40mg', dosage: '1 tablet', pages: [1] },
+    { name: 'Amoxicillin 500mg', dosage: '2 capsules', pages: [2] },
+  ]);
+});
+
+test('explains the pages nothing could be read from', () => {
+  const result = mergePrescriptionPages([
+    page([{ name: 'Metformin 500mg', dosage: '1 tablet' }]),
+    page([], 'Analysis failed: Image is unclear.'),
+    null,
+  ]);
+  expect(result.summary).toBe(`Analyzed 3 pages. Page 2: Analysis failed: Image is unclear. Page 3: ${UNREADABLE_PAGE_SUMMARY}`);
+});
+
+test('combines the distinct overall instructions of every page', () => {
+  const result = mergePrescriptionPages([
+    { ...page([]), overall_instructions: 'Follow up in 2 weeks.' },
+    { ...page([]), overall_instructions: 'Follow up in 2 weeks.' },
+    { ...page([]), overall_instructions: 'Avoid alcohol.' },
+  ]);
+  expect(result.overall_instructions).toBe('Follow up in 2 weeks.\nAvoid alcohol.');
+});
+
+test('keeps the doubt of every reading of a repeated medication', () => {
+  const result = mergePrescriptionPages([
+    page([{ name: 'Amoxicillin 500mg', dosage: '1 capsule', confidence: { name: 0.9, dosage: 0.95 } }]),
+    page([{ name: 'Amoxicillin 500mg', dosage: '1 capsule', frequency: 'TDS', confidence: { name: 0.6, dosage: 1, frequency: 0.8 }, uncertain: true }]),
+  ]);
+  expect(result.medications).toEqual([{
+    name: 'Amoxicillin 500mg',
+    dosage: '1 capsule',
+    frequency: 'TDS',
+    confidence: { name: 0.6, dosage: 0.95, frequency: 0.8 },
+    uncertain: true,
+    pages: [1, 2],
+  }]);
+});
+
+test('flags a medication with a low-confidence field even when the model did not', () => {
+  const result = mergePrescriptionPages([page([{ name: 'Metformin 500mg', dosage: '1 tablet', confidence: { name: 0.4, dosage: 0.9 } }])]);
+  expect(result.medications[0].uncertain).toBe(true);
+});
+
+test('rates the document by its least legible page', () => {
+  expect(mergePrescriptionPages([page([], 'Prescription analyzed.', 0.9), page([], 'Prescription analyzed.', 0.4)]).legibility).toBe(0.4);
+  expect(mergePrescriptionPages([page([]), null]).legibility).toBe(0);
+});
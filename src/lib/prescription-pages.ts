@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Merges the prescription analyses of the pages of one document into a single
+ * result. Discharge sheets often repeat a medication on several pages (e.g. in the ward orders and
+ * the discharge list), so every medication appears once and records the pages it was found on.
+ * Doubt is never merged away: a medication is uncertain if any page's reading of it was, and the
+ * whole document is only as legible as its worst page.
+ *
+ * - mergePrescriptionPages - One analysis for the whole document, from the per-page analyses in page order.
+ * - MergedPrescriptionAnalysis - The merged result, before the flow adds its default disclaimer.
+ */
+
+import type {
+  AnalyzePrescriptionOutput,
+  AnalyzePrescriptionPageOutput,
+  PageMedication,
+  PrescriptionMedication,
+} from '@/ai/schemas/analyze-prescription';
+import { lowConfidenceFields } from '@/lib/prescription-confidence';
+
+export type MergedPrescriptionAnalysis = Omit<AnalyzePrescriptionOutput, 'disclaimer'> & { disclaimer?: string };
+
+// Summary of a page the model returned nothing for
+export const UNREADABLE_PAGE_SUMMARY = 'Could not analyze the prescription. The image might be unclear or not a valid prescription.';
+
+function normalize(text: string | undefined): string {
+  return (text ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+const OPTIONAL_FIELDS = ['frequency', 'duration', 'notes'] as const;
+
+// "Amoxicillin 500mg" at "1 capsule" is the same medication whichever page lists it.
+function medicationKey(medication: PageMedication): string {
+  return `${normalize(medication.name)}|${normalize(medication.dosage)}`;
+}
+
+// Page numbers are 1-based, in the order the pages were given.
+export function mergePrescriptionPages(pages: (AnalyzePrescriptionPageOutput | null | undefined)[]): MergedPrescriptionAnalysis {
+  const medications = new Map<string, PrescriptionMedication>();
+  pages.forEach((page, index) => {
+    const pageNumber = index + 1;
+    for (const medication of page?.medications ?? []) {
+      const key = medicationKey(medication);
+      const existing = medications.get(key);
+      if (!existing) {
+        medications.set(key, { ...medication, uncertain: medication.uncertain || lowConfidenceFields(medication).length > 0, pages: [pageNumber] });
+        continue;
+      }
+      // The first mention wins; later pages only fill in details it left out, with their scores.
+      const merged: PrescriptionMedication = {
+        ...existing,
+        confidence: {
+          ...existing.confidence,
+          name: Math.min(existing.confidence.name, medication.confidence.name),
+          dosage: Math.min(existing.confidence.dosage, medication.confidence.dosage),
+        },
+        pages: existing.pages.includes(pageNumber) ? existing.pages : [...existing.pages, pageNumber],
+      };
+      for (const field of OPTIONAL_FIELDS) {
+        if (existing[field] !== undefined || medication[field] === undefined) continue;
+        merged[field] = medication[field];
+        merged.confidence[field] = medication.confidence[field];
+      }
+      merged.uncertain = existing.uncertain || medication.uncertain || lowConfidenceFields(merged).length > 0;
+      medications.set(key, merged);
+    }
+  });
+
+  const instructions = Array.from(new Set(pages.map(page => page?.overall_instructions?.trim()).filter((text): text is string => !!text)));
+  const summaries = pages.map(page => page?.summary || UNREADABLE_PAGE_SUMMARY);
+  // With several pages, only the ones that yielded nothing need their own explanation.
+  const summary = pages.length === 1
+    ? summaries[0]
+    : [
+        `Analyzed ${pages.length} pages.`,
+        ...pages.flatMap((page, index) => (page?.medications.length ? [] : [`Page ${index + 1}: ${summaries[index]}`])),
+      ].join(' ');
+
+  return {
+    medications: Array.from(medications.values()),
+    overall_instructions: instructions.length > 0 ? instructions.join('\n') : undefined,
+    // A page the model returned nothing for counts as unreadable
+    legibility: Math.min(1, ...pages.map(page => page?.legibility ?? 0)),
+    summary,
+    disclaimer: pages.find(page => page?.disclaimer)?.disclaimer,
+  };
+}
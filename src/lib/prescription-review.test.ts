@@ -0,0 +1,92 @@
+import type { PrescriptionMedication } from '@/ai/flows/analyze-prescription-flow';
+import {
+  addReviewedMedication,
+  confirmReviewedMedication,
+  createPrescriptionReview,
+  editedFields,
+  removeReviewedMedication,
+  reviewProblems,
+  toSavedMedications,
+  updateReviewedField,
+  verifyPrescriptionReview,
+} from './prescription-review';
+
+const amoxicillin: PrescriptionMedication = {
+  name: 'Amoxicillin 500mg',
+  dosage: '1 capsule',
+  frequency: 'Three times a day',
+  confidence: { name: 0.95, dosage: 0.9, frequency: 0.9 },
+  uncertain: false,
+  pages: [1],
+};
+
+const doubtful: PrescriptionMedication = {
+  name: 'Metoprolol 25mg',
+  dosage: '1 tablet',
+  confidence: { name: 0.4, dosage: 0.9 },
+  uncertain: false,
+  pages: [2],
+};
+
+test('tracks edits against the extracted values', () => {
+  let review = createPrescriptionReview([amoxicillin]);
+  const [{ id }] = review.medications;
+  review = updateReviewedField(review, id, 'frequency', 'Twice a day');
+  review = updateReviewedField(review, id, 'name', ' Amoxicillin 500mg ');
+  expect(editedFields(review.medications[0])).toEqual(['frequency']);
+
+  review = updateReviewedField(review, id, 'frequency', '');
+  expect(review.medications[0].frequency).toBeUndefined();
+  expect(editedFields(review.medications[0])).toEqual(['frequency']);
+});
+
+test('cannot be verified while a doubtful reading is unchecked or a medication is incomplete', () => {
+  let review = addReviewedMedication(createPrescriptionReview([amoxicillin, doubtful]));
+  expect(reviewProblems(review)).toEqual([
+    'Check Metoprolol 25mg against the prescription and confirm it.',
+    'Medication 3 needs a name.',
+    'Medication 3 needs a dosage.',
+  ]);
+
+  const [, { id: doubtfulId }, { id: addedId }] = review.medications;
+  review = confirmReviewedMedication(review, doubtfulId);
+  review = removeReviewedMedication(review, addedId);
+  const result = verifyPrescriptionReview(review, 1000);
+  expect(result).toEqual({ ok: true, review: { ...review, verifiedAt: 1000 } });
+});
+
+test('accepts a retyped doubtful field as checked', () => {
+  let review = createPrescriptionReview([doubtful]);
+  review = updateReviewedField(review, review.medications[0].id, 'name', 'Metformin 500mg');
+  expect(reviewProblems(review)).toEqual([]);
+});
+
+test('withdraws the verification on any edit', () => {
+  const result = verifyPrescriptionReview(createPrescriptionReview([amoxicillin]));
+  if (!result.ok) throw new Error(result.problems.join(' '));
+  expect(result.review.verifiedAt).not.toBeNull();
+  expect(updateReviewedField(result.review, result.review.medications[0].id, 'dosage', '2 capsules').verifiedAt).toBeNull();
+  expect(addReviewedMedication(result.review).verifiedAt).toBeNull();
+});
+
+test('saves the extracted values of the edited fields and marks added medications', () => {
+  let review = addReviewedMedication(createPrescriptionReview([amoxicillin]));
+  const [{ id }, { id: addedId }] = review.medications;
+  review = updateReviewedField(review, id, 'dosage', '2 capsules');
+  review = updateReviewedField(review, id, 'duration', '5 days');
+  review = updateReviewedField(review, addedId, 'name', 'Cetirizine 10mg');
+  review = updateReviewedField(review, addedId, 'dosage', '1 tablet');
+  expect(toSavedMedications(review)).toEqual([
+    {
+      name: 'Amoxicillin 500mg',
+      dosage: '2 capsules',
+      frequency: 'Three times a day',
+      duration: '5 days',
+      pages: [1],
+      confidence: amoxicillin.confidence,
+      uncertain: false,
+      extractedValues: { dosage: '1 capsule', duration: '' },
+    },
+    { name: 'Cetirizine 10mg', dosage: '1 tablet', pages: [], addedByUser: true },
+  ]);
+});
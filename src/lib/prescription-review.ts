@@ -0,0 +1,149 @@
+/**
+ * @fileOverview The user's review of the medications read from a prescription. Extraction mistakes
+ * are corrected in place, each medication remembers what the model read so edits can be told apart
+ * from it, and the list is only saved, scheduled or checked for interactions once the user has
+ * verified it against the paper.
+ *
+ * - createPrescriptionReview - An unverified review of freshly extracted medications.
+ * - updateReviewedField / addReviewedMedication / removeReviewedMedication / confirmReviewedMedication - Edits; each one withdraws the verification.
+ * - editedFields - The fields of a medication the user changed from what was read.
+ * - isAwaitingConfirmation - Whether a doubtful reading still has to be checked by the user.
+ * - reviewProblems - What stops the list from being verified.
+ * - verifyPrescriptionReview - Marks the list as checked by the user, unless something stops it.
+ * - toSavedMedications - The reviewed list as saved, with the model's values for the edited fields.
+ */
+
+import type { PrescriptionMedication } from '@/ai/flows/analyze-prescription-flow';
+import type { PageMedication } from '@/ai/schemas/analyze-prescription';
+import { MEDICATION_FIELDS, lowConfidenceFields, needsConfirmation, type MedicationField } from '@/lib/prescription-confidence';
+import type { SavedPrescriptionMedication } from '@/lib/saved-items';
+
+export type MedicationValues = Pick<PageMedication, MedicationField>;
+
+export interface ReviewedMedication extends MedicationValues {
+  id: string;
+  pages: number[];
+  // As extracted, with its confidence; null for medications the user added
+  extracted: PrescriptionMedication | null;
+  // The user checked a doubtful reading against the prescription
+  confirmed: boolean;
+}
+
+export interface PrescriptionReview {
+  medications: ReviewedMedication[];
+  // When the user verified the list; null until then, and again after any later edit
+  verifiedAt: number | null;
+}
+
+export type VerifyReviewResult =
+  | { ok: true; review: PrescriptionReview }
+  | { ok: false; problems: string[] };
+
+const REQUIRED_FIELDS: MedicationField[] = ['name', 'dosage'];
+
+function createRowId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createPrescriptionReview(medications: PrescriptionMedication[]): PrescriptionReview {
+  return {
+    medications: medications.map(medication => ({
+      id: createRowId(),
+      name: medication.name,
+      dosage: medication.dosage,
+      frequency: medication.frequency,
+      duration: medication.duration,
+      notes: medication.notes,
+      pages: medication.pages,
+      extracted: medication,
+      confirmed: false,
+    })),
+    verifiedAt: null,
+  };
+}
+
+function updateMedications(review: PrescriptionReview, update: (medications: ReviewedMedication[]) => ReviewedMedication[]): PrescriptionReview {
+  return { medications: update(review.medications), verifiedAt: null };
+}
+
+// Clearing an optional field removes it; name and dosage are kept, even empty, so the problem can be shown.
+export function updateReviewedField(review: PrescriptionReview, id: string, field: MedicationField, value: string): PrescriptionReview {
+  const cleared = value.trim() === '' && !REQUIRED_FIELDS.includes(field);
+  return updateMedications(review, medications =>
+    medications.map(medication => (medication.id === id ? { ...medication, [field]: cleared ? undefined : value } : medication))
+  );
+}
+
+export function addReviewedMedication(review: PrescriptionReview): PrescriptionReview {
+  return updateMedications(review, medications => [
+    ...medications,
+    { id: createRowId(), name: '', dosage: '', pages: [], extracted: null, confirmed: true },
+  ]);
+}
+
+export function removeReviewedMedication(review: PrescriptionReview, id: string): PrescriptionReview {
+  return updateMedications(review, medications => medications.filter(medication => medication.id !== id));
+}
+
+export function confirmReviewedMedication(review: PrescriptionReview, id: string): PrescriptionReview {
+  return updateMedications(review, medications =>
+    medications.map(medication => (medication.id === id ? { ...medication, confirmed: true } : medication))
+  );
+}
+
+// Surrounding whitespace is not an edit. Medications the user added have no extracted values to differ from.
+export function editedFields(medication: ReviewedMedication): MedicationField[] {
+  const { extracted } = medication;
+  if (!extracted) return [];
+  return MEDICATION_FIELDS.filter(field => (medication[field] ?? '').trim() !== (extracted[field] ?? '').trim());
+}
+
+// Retyping every doubtful field counts as checking them; a medication the model flagged as a whole must be confirmed.
+export function isAwaitingConfirmation(medication: ReviewedMedication): boolean {
+  const { extracted } = medication;
+  if (!extracted || medication.confirmed || !needsConfirmation(extracted)) return false;
+  const edited = editedFields(medication);
+  return extracted.uncertain || lowConfidenceFields(extracted).some(field => !edited.includes(field));
+}
+
+export function reviewProblems(review: PrescriptionReview): string[] {
+  if (review.medications.length === 0) return ['Add at least one medication.'];
+  return review.medications.flatMap((medication, index) => {
+    const label = medication.name.trim() || `Medication ${index + 1}`;
+    return [
+      ...(medication.name.trim() ? [] : [`${label} needs a name.`]),
+      ...(medication.dosage.trim() ? [] : [`${label} needs a dosage.`]),
+      ...(isAwaitingConfirmation(medication) ? [`Check ${label} against the prescription and confirm it.`] : []),
+    ];
+  });
+}
+
+export function verifyPrescriptionReview(review: PrescriptionReview, now: number = Date.now()): VerifyReviewResult {
+  const problems = reviewProblems(review);
+  if (problems.length > 0) return { ok: false, problems };
+  return { ok: true, review: { ...review, verifiedAt: now } };
+}
+
+export function toSavedMedications(review: PrescriptionReview): SavedPrescriptionMedication[] {
+  return review.medications.map(medication => {
+    const { extracted } = medication;
+    const values: SavedPrescriptionMedication = {
+      name: medication.name.trim(),
+      dosage: medication.dosage.trim(),
+      frequency: medication.frequency?.trim(),
+      duration: medication.duration?.trim(),
+      notes: medication.notes?.trim(),
+      pages: medication.pages,
+    };
+    if (!extracted) return { ...values, addedByUser: true };
+    const edited = editedFields(medication);
+    return {
+      ...values,
+      confidence: extracted.confidence,
+      uncertain: extracted.uncertain,
+      ...(edited.length > 0 && {
+        extractedValues: Object.fromEntries(edited.map(field => [field, extracted[field] ?? ''])),
+      }),
+    };
+  });
+}
@@ -0,0 +1,68 @@
+import { detectRedFlags, detectRedFlagsForAge, getRedFlagRules, RED_FLAG_RULES } from './red-flags';
+
+const ruleIds = (description: string) => detectRedFlags(description).map((match) => match.ruleId);
+
+test('flags chest pain and radiating arm pain', () => {
+  expect(ruleIds('Crushing chest pain since an hour')).toEqual(['chest_pain']);
+  expect(ruleIds('pain radiating to my left arm and sweating')).toEqual(['chest_pain']);
+});
+
+test('flags stroke signs', () => {
+  expect(ruleIds('my face is drooping and I have slurred speech')).toEqual(['stroke_signs']);
+  expect(ruleIds('sudden weakness on one side of the body')).toEqual(['stroke_signs']);
+});
+
+test('flags breathing difficulty, anaphylaxis and self-harm', () => {
+  expect(ruleIds("I can't breathe properly")).toContain('breathing_difficulty');
+  expect(ruleIds('ate peanuts and my throat is swelling')).toContain('anaphylaxis');
+  expect(ruleIds('I have been having suicidal thoughts')).toEqual(['self_harm']);
+});
+
+test('reports each matching rule once, in rule order', () => {
+  const matches = detectRedFlags('chest pain, chest tightness and I fainted');
+  expect(matches.map((match) => match.ruleId)).toEqual(['chest_pain', 'loss_of_consciousness']);
+  expect(matches[0].matchedText.toLowerCase()).toBe('chest pain');
+  expect(matches[0].guidance).toBe(RED_FLAG_RULES[0].guidance);
+});
+
+test('ignores negated mentions', () => {
+  expect(ruleIds('runny nose, no chest pain, did not faint')).toEqual([]);
+  expect(ruleIds('cough without difficulty breathing')).toEqual([]);
+  expect(ruleIds("I haven't fainted and there is no sign of chest pain")).toEqual([]);
+});
+
+test('limits a negation to the phrase it governs', () => {
+  expect(ruleIds('Could not sleep and have chest pain')).toEqual(['chest_pain']);
+  expect(ruleIds('No fever, but chest pain since this morning')).toEqual(['chest_pain']);
+});
+
+test('checks every mention, not only the first', () => {
+  expect(ruleIds('No chest pain yesterday but now chest pain')).toEqual(['chest_pain']);
+});
+
+test('does not flag everyday symptoms', () => {
+  expect(ruleIds('sore throat, mild headache and a runny nose for two days')).toEqual([]);
+});
+
+test('accepts a custom rule set', () => {
+  const rules = [{ id: 'custom', label: 'Custom', patterns: [/dizzy/i], guidance: 'Sit down.' }];
+  expect(detectRedFlags('feeling dizzy', rules)).toEqual([
+    { ruleId: 'custom', label: 'Custom', guidance: 'Sit down.', matchedText: 'dizzy' },
+  ]);
+});
+
+test('adds child-specific rules in pediatric mode', () => {
+  const ruleIdsFor = (description: string, age: number) =>
+    detectRedFlags(description, getRedFlagRules(age)).map((match) => match.ruleId);
+  expect(ruleIdsFor('she is floppy and has had no wet diapers since morning', 2)).toEqual(['child_lethargy', 'child_dehydration']);
+  expect(ruleIdsFor('fever of 40.2 C and grunting when breathing', 4)).toEqual(['child_breathing', 'child_high_fever']);
+  expect(ruleIdsFor('I think he swallowed a button battery', 3)).toEqual(['child_ingestion']);
+  expect(ruleIdsFor('she is floppy and has had no wet diapers since morning', 30)).toEqual([]);
+});
+
+test("checks a parent's interview replies against the pediatric rules for a child profile", () => {
+  const replies = ["He's been really floppy since lunch", "we can't wake him properly", 'she has a runny nose'];
+  expect(replies.map(reply => detectRedFlagsForAge(reply, 2).map(match => match.ruleId))).toEqual([['child_lethargy'], ['child_lethargy'], []]);
+  expect(detectRedFlagsForAge("He's been really floppy since lunch", 35)).toEqual([]);
+  expect(detectRedFlagsForAge("He's been really floppy since lunch")).toEqual([]);
+});
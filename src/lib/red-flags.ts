@@ -0,0 +1,224 @@
+/**
+ * @fileOverview Deterministic, rule-based red-flag detection for symptom descriptions.
+ * Runs before any model call so that emergency presentations (chest pain, stroke signs, etc.)
+ * are caught even when the AI is unavailable or misclassifies them.
+ *
+ * - detectRedFlags - Returns every red-flag rule matched by a symptom description.
+ * - getRedFlagRules - The rules that apply to a person of the given age.
+ * - detectRedFlagsForAge - detectRedFlags with the rules for the person's age; used on every symptom text.
+ * - RedFlagRule - A single red-flag rule definition.
+ * - RedFlagMatch - A rule matched against a description.
+ */
+
+import { PEDIATRIC_AGE_LIMIT } from '@/lib/pediatric-dosing';
+
+export interface RedFlagRule {
+  id: string;
+  label: string;
+  // Any one pattern matching is enough to fire the rule.
+  patterns: RegExp[];
+  guidance: string;
+}
+
+export interface RedFlagMatch {
+  ruleId: string;
+  label: string;
+  guidance: string;
+  matchedText: string;
+}
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'chest_pain',
+    label: 'Chest pain or pressure',
+    patterns: [
+      /chest\s+(pain|pressure|tightness|tight|heaviness|discomfort)/i,
+      /(pain|pressure|tightness|heaviness)\s+(in|on|across)\s+(my\s+|the\s+)?chest/i,
+      /pain\s+(spreading|radiating)\s+(to|down|into)\s+(my\s+|the\s+)?(left\s+)?(arm|jaw)/i,
+    ],
+    guidance: 'Chest pain can be a sign of a heart attack. Call emergency services now; do not drive yourself.',
+  },
+  {
+    id: 'stroke_signs',
+    label: 'Possible stroke signs',
+    patterns: [
+      /face\s+(is\s+)?(drooping|droops|droopy|numb)/i,
+      /(drooping|droopy)\s+(face|mouth|eyelid)/i,
+      /slurred\s+speech|speech\s+(is\s+)?slurred|trouble\s+(speaking|talking)|can'?t\s+speak/i,
+      /(sudden\s+)?(weakness|numbness)\s+(in|on)\s+(one|the\s+(left|right))\s+(side|arm|leg)/i,
+      /one[-\s]sided\s+(weakness|numbness)/i,
+      /sudden\s+(loss\s+of\s+vision|vision\s+loss|blindness|confusion)/i,
+    ],
+    guidance: 'These may be signs of a stroke. Note the time symptoms started and call emergency services immediately.',
+  },
+  {
+    id: 'breathing_difficulty',
+    label: 'Severe difficulty breathing',
+    patterns: [
+      /(can'?t|cannot|unable\s+to|struggling\s+to|hard\s+to|difficulty)\s+breath(e|ing)/i,
+      /short(ness)?\s+of\s+breath\s+at\s+rest/i,
+      /(gasping|choking)/i,
+      /(lips|face)\s+(turning|turned|are|is)\s+blue|blue\s+lips/i,
+    ],
+    guidance: 'Severe breathing difficulty needs emergency care. Call emergency services now.',
+  },
+  {
+    id: 'anaphylaxis',
+    label: 'Possible severe allergic reaction',
+    patterns: [
+      /(throat|tongue|lips?)\s+(is\s+|are\s+)?(swelling|swollen|closing)/i,
+      /swelling\s+of\s+(the\s+|my\s+)?(throat|tongue|lips|face)/i,
+      /anaphyla/i,
+    ],
+    guidance: 'Swelling of the face or throat can be anaphylaxis. Use an epinephrine auto-injector if prescribed and call emergency services.',
+  },
+  {
+    id: 'severe_bleeding',
+    label: 'Severe or uncontrolled bleeding',
+    patterns: [
+      /(heavy|severe|uncontrolled|won'?t\s+stop|not\s+stopping)\s+bleeding/i,
+      /bleeding\s+(that\s+)?(won'?t|will\s+not|doesn'?t)\s+stop/i,
+      /(vomiting|coughing\s+up|throwing\s+up)\s+blood/i,
+      /black\s+(tarry\s+)?stools?/i,
+    ],
+    guidance: 'Heavy or internal bleeding is a medical emergency. Apply firm pressure to any wound and call emergency services.',
+  },
+  {
+    id: 'loss_of_consciousness',
+    label: 'Fainting, seizure or unresponsiveness',
+    patterns: [
+      /(passed|passing)\s+out|fainted|fainting|lost\s+consciousness|loss\s+of\s+consciousness|unconscious|unresponsive/i,
+      /seizure|convulsion/i,
+    ],
+    guidance: 'Loss of consciousness or a seizure needs urgent assessment. Call emergency services.',
+  },
+  {
+    id: 'thunderclap_headache',
+    label: 'Sudden, severe headache',
+    patterns: [
+      /worst\s+headache/i,
+      /(sudden|thunderclap)\s+(severe\s+|intense\s+)?headache/i,
+    ],
+    guidance: 'A sudden, severe headache can indicate bleeding in the brain. Seek emergency care now.',
+  },
+  {
+    id: 'meningitis_signs',
+    label: 'Fever with stiff neck or rash',
+    patterns: [
+      /stiff\s+neck.*fever|fever.*stiff\s+neck/i,
+      /rash\s+(that\s+)?(doesn'?t|does\s+not|won'?t)\s+fade/i,
+    ],
+    guidance: 'Fever with a stiff neck or a non-fading rash can be meningitis. Seek emergency care now.',
+  },
+  {
+    id: 'self_harm',
+    label: 'Thoughts of self-harm or suicide',
+    patterns: [
+      /suicid/i,
+      /(kill|hurt|harm)\s+my\s*self/i,
+      /self[-\s]harm/i,
+      /(want|wanting)\s+to\s+die|end\s+my\s+life/i,
+    ],
+    guidance: 'You deserve support right now. Contact emergency services or a crisis line, and reach out to someone you trust.',
+  },
+];
+
+// Checked in addition to the general rules when the person is a child (pediatric mode).
+export const PEDIATRIC_RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'child_lethargy',
+    label: 'Floppy, unusually drowsy or hard to wake',
+    patterns: [
+      /\b(floppy|limp)\b/i,
+      /(hard|difficult|difficulty|trouble)\s+(to\s+)?wak(e|ing)|won'?t\s+wake|can'?t\s+wake/i,
+      /(unusually|very|extremely)\s+(drowsy|sleepy|lethargic)|lethargic/i,
+    ],
+    guidance: 'A child who is floppy or hard to wake needs emergency care. Call emergency services now.',
+  },
+  {
+    id: 'child_dehydration',
+    label: 'Signs of dehydration',
+    patterns: [
+      /no\s+(wet\s+)?(diapers?|nappies|nappy)|(diapers?|nappies|nappy)\s+(are\s+|is\s+)?(dry|not\s+wet)/i,
+      /(hasn'?t|has\s+not|not)\s+(peed|urinated|wee'?d)/i,
+      /no\s+tears|sunken\s+(eyes|soft\s+spot|fontanel+e?)/i,
+      /(can'?t|cannot|won'?t|refus(es|ing))\s+(keep\s+(any\s+)?(fluids|liquids|water)\s+down|drink)/i,
+    ],
+    guidance: 'Young children dehydrate quickly. Seek urgent medical care today, or emergency care if they are very drowsy.',
+  },
+  {
+    id: 'child_breathing',
+    label: 'Laboured breathing in a child',
+    patterns: [
+      /grunting/i,
+      /ribs?\s+(are\s+)?(sucking|pulling|caving)\s+in|(sucking|pulling)\s+in\s+(between|under)\s+(the\s+)?ribs/i,
+      /(nostrils?|nose)\s+(is\s+|are\s+)?flaring/i,
+      /(breathing|breathes)\s+(very\s+)?(fast|rapidly)/i,
+    ],
+    guidance: 'Grunting or visibly working hard to breathe needs emergency care. Call emergency services now.',
+  },
+  {
+    id: 'child_high_fever',
+    label: 'Very high or prolonged fever',
+    patterns: [
+      /(fever|temperature)\s+(of\s+)?(40(\.\d)?|4[1-2](\.\d)?)\s*(°\s*)?c\b|(fever|temperature)\s+(of\s+)?(104|105|106)(\.\d)?\s*(°\s*)?f\b/i,
+      /fever\s+(for\s+)?(more\s+than\s+)?(5|6|7|five|six|seven)\s+days/i,
+      /(high[-\s]pitched|inconsolable|non[-\s]stop)\s+(cry|crying)/i,
+    ],
+    guidance: 'A very high or long-lasting fever, or inconsolable crying, in a child should be seen by a doctor today.',
+  },
+  {
+    id: 'child_ingestion',
+    label: 'Swallowed medicine, chemicals or a battery',
+    patterns: [
+      /(swallowed|ate|drank|ingested)\s+(a\s+|some\s+|the\s+)?(button\s+battery|battery|batteries|pills?|tablets?|medicine|bleach|detergent|chemicals?|poison)/i,
+      /poison(ed|ing)/i,
+    ],
+    guidance: 'Call your poison control centre or emergency services now. Do not wait for symptoms, and do not make the child vomit.',
+  },
+];
+
+export function getRedFlagRules(age?: number): RedFlagRule[] {
+  return age !== undefined && age < PEDIATRIC_AGE_LIMIT ? [...RED_FLAG_RULES, ...PEDIATRIC_RED_FLAG_RULES] : RED_FLAG_RULES;
+}
+
+/**
+ * A negation only suppresses the phrase it directly governs ("no chest pain", "denies fainting",
+ * "did not faint"). Determiners may come between them; any other word or punctuation ends its
+ * scope, so "could not sleep and have chest pain" is still flagged. Missing a red flag is worse
+ * than a false alarm, so anything less clear-cut counts as not negated.
+ */
+const NEGATION_PATTERN = /(?:\b(?:no|not|without|denies|denied|never)|n't)\s+(?:(?:any|a|an|the|some|more|further|signs?\s+of)\s+)*$/i;
+
+function isNegated(description: string, matchIndex: number): boolean {
+  return NEGATION_PATTERN.test(description.slice(0, matchIndex));
+}
+
+function globalPattern(pattern: RegExp): RegExp {
+  return pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/**
+ * Returns every red-flag rule matched by the description, in rule order.
+ * Matching is purely pattern-based and never calls the model.
+ */
+export function detectRedFlags(description: string, rules: RedFlagRule[] = RED_FLAG_RULES): RedFlagMatch[] {
+  const matches: RedFlagMatch[] = [];
+  for (const rule of rules) {
+    for (const pattern of rule.patterns) {
+      // Every occurrence counts: "no chest pain yesterday but now chest pain" is flagged.
+      const match = [...description.matchAll(globalPattern(pattern))].find(occurrence => !isNegated(description, occurrence.index ?? 0));
+      if (match) {
+        matches.push({ ruleId: rule.id, label: rule.label, guidance: rule.guidance, matchedText: match[0] });
+        break;
+      }
+    }
+  }
+  return matches;
+}
+
+// Each interview reply and the final summary are checked the same way, so a child's raw reply gets the
+// pediatric rules even if the model would paraphrase it away.
+export function detectRedFlagsForAge(description: string, age?: number): RedFlagMatch[] {
+  return detectRedFlags(description, getRedFlagRules(age));
+}
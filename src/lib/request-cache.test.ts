@@ -0,0 +1,41 @@
+import { createRequestCache, requestCacheKey } from './request-cache';
+
+test('keys ignore condition case and spacing but not the profile', () => {
+  expect(requestCacheKey(' Common  Cold', { age: 30 })).toBe(requestCacheKey('common cold', { age: 30 }));
+  expect(requestCacheKey('Common Cold', { age: 30 })).not.toBe(requestCacheKey('Common Cold', { age: 31 }));
+});
+
+test('expires entries after the TTL', () => {
+  const cache = createRequestCache<string>({ ttlMs: 1000 });
+  cache.set('a', 'value', 0);
+  expect(cache.get('a', 999)).toBe('value');
+  expect(cache.get('a', 1000)).toBeUndefined();
+});
+
+test('shares in-flight loads and skips values that should not be cached', async () => {
+  const cache = createRequestCache<{ ok: boolean }>({ ttlMs: 1000, shouldCache: value => value.ok });
+  let loads = 0;
+  const load = async () => ({ ok: ++loads > 1 });
+
+  const [first, second] = await Promise.all([cache.getOrLoad('a', load), cache.getOrLoad('a', load)]);
+  expect(first).toBe(second);
+  expect(loads).toBe(1);
+  expect(first.ok).toBe(false);
+
+  expect(await cache.getOrLoad('a', load)).toEqual({ ok: true });
+  expect(await cache.getOrLoad('a', load)).toEqual({ ok: true });
+  expect(loads).toBe(2);
+});
+
+test('invalidates by key prefix', async () => {
+  const cache = createRequestCache<string>({ ttlMs: 1000 });
+  cache.set('cold:1', 'a');
+  cache.set('cold:2', 'b');
+  cache.set('flu:1', 'c');
+  cache.invalidate('cold:');
+  expect(cache.get('cold:1')).toBeUndefined();
+  expect(cache.get('cold:2')).toBeUndefined();
+  expect(cache.get('flu:1')).toBe('c');
+  cache.invalidate();
+  expect(cache.get('flu:1')).toBeUndefined();
+});
@@ -0,0 +1,107 @@
+/**
+ * @fileOverview In-memory cache of flow results in the browser, so switching views or picking the
+ * same condition again reuses the answer instead of calling the model. Entries are keyed by the
+ * normalized condition and a hash of the profile the flow was given, and expire after a TTL.
+ *
+ * - createRequestCache - A cache with a given TTL; concurrent loads of the same key share one request.
+ * - requestCacheKey - The key for a condition and profile.
+ * - FLOW_CACHE_TTL_MS - How long flow results are reused.
+ */
+
+export const FLOW_CACHE_TTL_MS = 30 * 60 * 1000;
+
+export interface RequestCache<T> {
+  get(key: string, now?: number): T | undefined;
+  set(key: string, value: T, now?: number): void;
+  getOrLoad(key: string, load: () => Promise<T>, now?: number): Promise<T>;
+  // Drops every entry whose key starts with the prefix, or all entries without one
+  invalidate(keyPrefix?: string): void;
+}
+
+export interface RequestCacheOptions<T> {
+  ttlMs: number;
+  maxEntries?: number;
+  // Values that fail this check (e.g. failed flow results) are returned but not kept
+  shouldCache?: (value: T) => boolean;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// "Common cold " and "common  Cold" are the same request.
+function normalizeCondition(condition: string): string {
+  return condition.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// FNV-1a over the JSON form; only needs to tell profiles apart, not be secure.
+function hashProfile(profile: unknown): string {
+  const text = JSON.stringify(profile ?? null);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function requestCacheKey(condition: string, profile: unknown): string {
+  return `${normalizeCondition(condition)}:${hashProfile(profile)}`;
+}
+
+export function createRequestCache<T>({ ttlMs, maxEntries = 100, shouldCache = () => true }: RequestCacheOptions<T>): RequestCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+  const pending = new Map<string, Promise<T>>();
+
+  const cache: RequestCache<T> = {
+    get(key, now = Date.now()) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set(key, value, now = Date.now()) {
+      if (!shouldCache(value)) return;
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now + ttlMs });
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    getOrLoad(key, load, now = Date.now()) {
+      const cached = cache.get(key, now);
+      if (cached !== undefined) return Promise.resolve(cached);
+      const inFlight = pending.get(key);
+      if (inFlight) return inFlight;
+
+      const request = load().then(
+        value => {
+          // Invalidated while loading: hand the value to the caller but do not keep it.
+          if (pending.get(key) === request) {
+            pending.delete(key);
+            cache.set(key, value);
+          }
+          return value;
+        },
+        error => {
+          if (pending.get(key) === request) pending.delete(key);
+          throw error;
+        }
+      );
+      pending.set(key, request);
+      return request;
+    },
+    invalidate(keyPrefix = '') {
+      for (const map of [entries, pending]) {
+        Array.from(map.keys())
+          .filter(key => key.startsWith(keyPrefix))
+          .forEach(key => map.delete(key));
+      }
+    },
+  };
+  return cache;
+}
@@ -0,0 +1,22 @@
+import { normalizeSavedItem } from './saved-items';
+
+test('keeps current items and upgrades items saved before the type field', () => {
+  const scan = { type: 'prescription_scan', id: 'a', timestamp: 2, summary: 'Rx', medications: [{ name: 'Amoxicillin' }], verifiedAt: 3 };
+  expect(normalizeSavedItem(scan)).toEqual(scan);
+  expect(normalizeSavedItem({ id: 7, timestamp: 1, condition: 'Cold', remedies: 'Rest' })).toEqual({
+    type: 'symptom_check',
+    id: '7',
+    timestamp: 1,
+    condition: 'Cold',
+    remedies: 'Rest',
+    diet: undefined,
+  });
+});
+
+test('rejects records that are not saved items', () => {
+  expect(normalizeSavedItem(null)).toBeNull();
+  expect(normalizeSavedItem('Cold')).toBeNull();
+  expect(normalizeSavedItem({ id: 'a', timestamp: 1 })).toBeNull();
+  expect(normalizeSavedItem({ type: 'medicine_suggestion', id: 'a', timestamp: 1, condition: 'Cold' })).toBeNull();
+  expect(normalizeSavedItem({ type: 'prescription_scan', id: 'a', timestamp: 1, summary: 'Rx', medications: 'none' })).toBeNull();
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileOverview Types for items saved to the Saved view: symptom checks, prescription scans and
+ * medicine suggestions, plus migration of items saved before the type field existed.
+ *
+ * - SavedItem - Discriminated union of every saved item type (keyed by `type`).
+ * - normalizeSavedItem - Validates a stored item and upgrades it to the current shape.
+ * - getScanImageIds - The stored page images of a prescription scan.
+ */
+
+import { z } from 'zod';
+import type { PrescriptionMedication } from '@/ai/flows/analyze-prescription-flow';
+import type { DietPlan, HomeRemedy } from '@/ai/flows/suggest-remedies-and-diet';
+import type { SuggestedMedicine } from '@/ai/flows/suggest-medicines';
+import type { ExcludedMedicine } from '@/lib/medicine-safety';
+import type { MedicationField } from '@/lib/prescription-confidence';
+import type { PediatricDosingSummary } from '@/lib/pediatric-dosing';
+
+interface SavedItemBase {
+  id: string;
+  // Household profile the item belongs to. Missing on items saved before household profiles.
+  profileId?: string;
+  timestamp: number;
+}
+
+export interface SymptomCheckSavedItem extends SavedItemBase {
+  type: 'symptom_check';
+  condition: string;
+  homeRemedies?: HomeRemedy[];
+  dietPlan?: DietPlan;
+  // Free-text remedies and diet suggestions of items saved before they became structured
+  remedies?: string;
+  diet?: string;
+}
+
+// Medications saved before multi-page scans have no `pages`, and those saved before extraction was scored
+// have no `confidence` or `uncertain`.
+export type SavedPrescriptionMedication = Omit<PrescriptionMedication, 'pages' | 'confidence' | 'uncertain'>
+  & Partial<Pick<PrescriptionMedication, 'pages' | 'confidence' | 'uncertain'>>
+  & {
+    // What was read for each field the user corrected; an empty string when nothing was read
+    extractedValues?: Partial<Record<MedicationField, string>>;
+    // Missed by the extraction and added by the user
+    addedByUser?: boolean;
+  };
+
+export interface PrescriptionScanSavedItem extends SavedItemBase {
+  type: 'prescription_scan';
+  // Small JPEG data URI of the first page
+  thumbnail?: string;
+  // Full-resolution pages in order, stored as Blobs in the scan image store
+  imageIds?: string[];
+  // The single page of scans saved before multi-page scans
+  imageId?: string;
+  summary: string;
+  medications: SavedPrescriptionMedication[];
+  overallInstructions?: string;
+  // When the user verified the medications. Missing on scans saved before verification was required.
+  verifiedAt?: number;
+}
+
+export interface MedicineSuggestionSavedItem extends SavedItemBase {
+  type: 'medicine_suggestion';
+  condition: string;
+  // Missing on items saved before suggestions became structured; those only have `suggestions`.
+  medicines?: SuggestedMedicine[];
+  excludedMedicines?: ExcludedMedicine[];
+  notes?: string;
+  pediatricDosing?: PediatricDosingSummary;
+  suggestions?: string;
+  disclaimer: string;
+}
+
+export type SavedItem = SymptomCheckSavedItem | PrescriptionScanSavedItem | MedicineSuggestionSavedItem;
+export type SavedItemType = SavedItem['type'];
+
+export const SAVED_ITEM_TYPE_LABELS: Record<SavedItemType, string> = {
+  symptom_check: 'Symptom Check',
+  prescription_scan: 'Prescription Scan',
+  medicine_suggestion: 'Medicine Suggestion',
+};
+
+// The fields every saved item of a type must have; the rest of the record is kept as stored.
+const StoredSavedItemSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('symptom_check'), id: z.string(), timestamp: z.number(), condition: z.string() }).passthrough(),
+  z.object({
+    type: z.literal('prescription_scan'),
+    id: z.string(),
+    timestamp: z.number(),
+    summary: z.string(),
+    medications: z.array(z.object({ name: z.string() }).passthrough()),
+  }).passthrough(),
+  z.object({ type: z.literal('medicine_suggestion'), id: z.string(), timestamp: z.number(), condition: z.string(), disclaimer: z.string() }).passthrough(),
+]);
+
+const LegacySymptomCheckSchema = z.object({
+  type: z.undefined(),
+  id: z.union([z.string(), z.number()]),
+  timestamp: z.number(),
+  condition: z.string(),
+  remedies: z.string().optional(),
+  diet: z.string().optional(),
+});
+
+/**
+ * Items saved before saved items became a union have no `type` and are always symptom checks.
+ * Returns null for records that are neither, so one corrupt record does not hide the others.
+ */
+export function normalizeSavedItem(item: unknown): SavedItem | null {
+  const stored = StoredSavedItemSchema.safeParse(item);
+  if (stored.success) return stored.data as SavedItem;
+  const legacy = LegacySymptomCheckSchema.safeParse(item);
+  if (!legacy.success) return null;
+  return {
+    type: 'symptom_check',
+    id: String(legacy.data.id),
+    timestamp: legacy.data.timestamp,
+    condition: legacy.data.condition,
+    remedies: legacy.data.remedies,
+    diet: legacy.data.diet,
+  };
+}
+
+// Every stored page image of a prescription scan, old or new
+export function getScanImageIds(item: PrescriptionScanSavedItem): string[] {
+  return item.imageIds ?? (item.imageId ? [item.imageId] : []);
+}
+
+export function getSavedItemTitle(item: SavedItem): string {
+  switch (item.type) {
+    case 'symptom_check':
+    case 'medicine_suggestion':
+      return item.condition;
+    case 'prescription_scan':
+      return item.medications.length > 0
+        ? item.medications.map(med => med.name).join(', ')
+        : 'Prescription scan';
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * @jest-environment node
+ */
+import { webcrypto } from 'crypto';
+import { decryptJson, deriveKey, encryptJson, generateSalt } from './crypto';
+
+// The test environment does not expose WebCrypto globally.
+beforeAll(() => {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+});
+
+// Few iterations keep the tests fast; production keys use PBKDF2_ITERATIONS.
+const ITERATIONS = 1000;
+
+test('round-trips JSON values with a fresh IV each time', async () => {
+  const key = await deriveKey('correct horse', generateSalt(), ITERATIONS);
+  const value = { condition: 'Migraine', conditions: ['asthma'] };
+  const first = await encryptJson(key, value);
+  const second = await encryptJson(key, value);
+
+  expect(first.iv).not.toEqual(second.iv);
+  expect(await decryptJson(key, first)).toEqual(value);
+});
+
+test('rejects a key derived from another passphrase or salt', async () => {
+  const salt = generateSalt();
+  const key = await deriveKey('correct horse', salt, ITERATIONS);
+  const payload = await encryptJson(key, 'secret');
+
+  await expect(decryptJson(await deriveKey('wrong horse', salt, ITERATIONS), payload)).rejects.toThrow();
+  await expect(decryptJson(await deriveKey('correct horse', generateSalt(), ITERATIONS), payload)).rejects.toThrow();
+});
@@ -0,0 +1,52 @@
+/**
+ * @fileOverview WebCrypto helpers for at-rest encryption of stored records: AES-GCM with a key derived
+ * from the user's passphrase by PBKDF2. A fresh random IV is used for every encryption.
+ *
+ * - deriveKey - Derives an AES-GCM key from a passphrase and salt.
+ * - generateSalt - Random salt for a new passphrase.
+ * - encryptBytes / decryptBytes - Encrypts and decrypts raw bytes (used for scan images).
+ * - encryptJson / decryptJson - Encrypts and decrypts JSON-serializable values.
+ */
+
+export const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+export function generateSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptBytes(key: CryptoKey, data: ArrayBuffer | Uint8Array): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+  return { iv, ciphertext };
+}
+
+// Rejects if the key is wrong or the payload was tampered with.
+export function decryptBytes(key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.ciphertext);
+}
+
+export function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  return encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+}
+
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  return JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload)));
+}
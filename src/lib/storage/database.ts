@@ -0,0 +1,125 @@
+/**
+ * @fileOverview IndexedDB connection and schema for all persisted health data.
+ *
+ * The schema is versioned: each entry in SCHEMA_MIGRATIONS upgrades the database from the previous
+ * version, and they are applied in order inside the `upgradeneeded` transaction. To change the schema,
+ * append a migration and bump DB_VERSION — never edit an existing migration.
+ *
+ * - openDatabase - Opens (and upgrades, if needed) the database. The connection is shared.
+ * - runTransaction - Runs a callback in a transaction and resolves once it completes.
+ * - requestToPromise - Wraps an IDBRequest in a promise.
+ * - deleteDatabase - Closes the connection and deletes every stored record.
+ */
+
+export const DB_NAME = 'medibot-ai';
+export const DB_VERSION = 2;
+
+export const STORES = {
+  savedItems: 'savedItems',
+  profiles: 'profiles',
+  medicationSchedules: 'medicationSchedules',
+  scanImages: 'scanImages',
+  meta: 'meta',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Meta key holding the id of the profile the app is used for
+export const ACTIVE_PROFILE_META_KEY = 'activeProfileId';
+
+// Version 1 stored a single profile in its own store
+const LEGACY_PROFILE_STORE = 'profile';
+const LEGACY_PROFILE_KEY = 'current';
+
+type SchemaMigration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// Index i upgrades the database from version i to version i + 1.
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  (db) => {
+    db.createObjectStore(STORES.savedItems, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+    db.createObjectStore(LEGACY_PROFILE_STORE);
+    db.createObjectStore(STORES.medicationSchedules, { keyPath: 'id' });
+    db.createObjectStore(STORES.scanImages, { keyPath: 'id' });
+    db.createObjectStore(STORES.meta);
+  },
+  // Household profiles: the single profile moves to a store keyed by profile id and becomes the active one.
+  (db, transaction) => {
+    const profiles = db.createObjectStore(STORES.profiles);
+    const request = transaction.objectStore(LEGACY_PROFILE_STORE).get(LEGACY_PROFILE_KEY);
+    request.onsuccess = () => {
+      if (request.result !== undefined) {
+        const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+        profiles.put(request.result, id);
+        transaction.objectStore(STORES.meta).put(id, ACTIVE_PROFILE_META_KEY);
+      }
+      db.deleteObjectStore(LEGACY_PROFILE_STORE);
+    };
+  },
+];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser.'));
+  }
+
+  databasePromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        SCHEMA_MIGRATIONS[version](request.result, transaction);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop this connection so the next call reopens it.
+      db.onversionchange = () => {
+        db.close();
+        databasePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn('Database upgrade is blocked by another open tab.');
+  });
+  return databasePromise;
+}
+
+export async function runTransaction<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  callback: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted.'));
+  });
+  const result = await callback(transaction);
+  await completed;
+  return result;
+}
+
+export async function deleteDatabase(): Promise<void> {
+  if (databasePromise) {
+    const db = await databasePromise.catch(() => null);
+    db?.close();
+    databasePromise = null;
+  }
+  await requestToPromise(indexedDB.deleteDatabase(DB_NAME));
+}
@@ -0,0 +1,237 @@
+/**
+ * @fileOverview Optional passphrase encryption of every persisted record. When enabled, records are
+ * stored as AES-GCM ciphertext and can only be read after the storage is unlocked for the session.
+ * The passphrase itself is never stored; a known value encrypted with the key verifies it on unlock.
+ *
+ * - loadEncryptionSettings - Reads whether encryption is enabled. Must run before the repositories are used.
+ * - unlock / lock - Derives the session key from the passphrase, or forgets it.
+ * - enableEncryption / changePassphrase / disableEncryption - Re-encrypt every stored record.
+ * - setAutoLockMinutes - Idle time before the app locks itself.
+ * - getSessionKey - Key for encoding records; throws while encrypted storage is locked.
+ * - encodeRecord / decodeRecord - Encrypt and decrypt JSON records with the session key.
+ */
+
+import { requestToPromise, runTransaction, STORES } from '@/lib/storage/database';
+import {
+  decryptBytes,
+  decryptJson,
+  deriveKey,
+  encryptBytes,
+  encryptJson,
+  generateSalt,
+  PBKDF2_ITERATIONS,
+  type EncryptedPayload,
+} from '@/lib/storage/crypto';
+
+const ENCRYPTION_META_KEY = 'encryption';
+const VERIFIER_TEXT = 'medibot-ai';
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+export const MIN_PASSPHRASE_LENGTH = 4;
+
+export interface EncryptionSettings {
+  enabled: boolean;
+  // 0 means never lock automatically
+  autoLockMinutes: number;
+}
+
+interface EncryptionConfig {
+  salt: Uint8Array;
+  iterations: number;
+  verifier: EncryptedPayload;
+  autoLockMinutes: number;
+}
+
+export interface EncryptedRecord {
+  id?: string;
+  encrypted: EncryptedPayload;
+}
+
+// Scan images keep their Blob type next to the encrypted bytes.
+interface EncryptedScanImage {
+  id: string;
+  createdAt: number;
+  mimeType: string;
+  encrypted: EncryptedPayload;
+}
+
+export interface ScanImageRecord {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+// null until loadEncryptionSettings has run
+let encryptionEnabled: boolean | null = null;
+let sessionKey: CryptoKey | null = null;
+
+function isEncryptedRecord(value: unknown): value is EncryptedRecord {
+  return typeof value === 'object' && value !== null && 'encrypted' in value;
+}
+
+async function readConfig(): Promise<EncryptionConfig | undefined> {
+  return runTransaction(STORES.meta, 'readonly', transaction =>
+    requestToPromise(transaction.objectStore(STORES.meta).get(ENCRYPTION_META_KEY))
+  );
+}
+
+async function isCorrectKey(key: CryptoKey, config: EncryptionConfig): Promise<boolean> {
+  try {
+    return (await decryptJson<string>(key, config.verifier)) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+}
+
+async function verifyPassphrase(passphrase: string): Promise<{ key: CryptoKey; config: EncryptionConfig } | null> {
+  const config = await readConfig();
+  if (!config) return null;
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  return (await isCorrectKey(key, config)) ? { key, config } : null;
+}
+
+async function createConfig(passphrase: string, autoLockMinutes: number): Promise<{ key: CryptoKey; config: EncryptionConfig }> {
+  const salt = generateSalt();
+  const key = await deriveKey(passphrase, salt);
+  const verifier = await encryptJson(key, VERIFIER_TEXT);
+  return { key, config: { salt, iterations: PBKDF2_ITERATIONS, verifier, autoLockMinutes } };
+}
+
+export function getSessionKey(): CryptoKey | null {
+  if (encryptionEnabled === null) throw new Error('Encryption settings have not been loaded.');
+  if (encryptionEnabled && !sessionKey) throw new Error('Storage is locked.');
+  return sessionKey;
+}
+
+export async function encodeRecord<T>(key: CryptoKey | null, value: T, id?: string): Promise<T | EncryptedRecord> {
+  if (!key) return value;
+  return { ...(id !== undefined && { id }), encrypted: await encryptJson(key, value) };
+}
+
+export async function decodeRecord<T>(key: CryptoKey | null, stored: T | EncryptedRecord): Promise<T> {
+  if (!isEncryptedRecord(stored)) return stored;
+  if (!key) throw new Error('Storage is locked.');
+  return decryptJson<T>(key, stored.encrypted);
+}
+
+export async function encodeScanImage(key: CryptoKey | null, image: ScanImageRecord): Promise<ScanImageRecord | EncryptedScanImage> {
+  if (!key) return image;
+  return {
+    id: image.id,
+    createdAt: image.createdAt,
+    mimeType: image.blob.type,
+    encrypted: await encryptBytes(key, await image.blob.arrayBuffer()),
+  };
+}
+
+export async function decodeScanImage(key: CryptoKey | null, stored: ScanImageRecord | EncryptedScanImage): Promise<ScanImageRecord> {
+  if (!('encrypted' in stored)) return stored;
+  if (!key) throw new Error('Storage is locked.');
+  const bytes = await decryptBytes(key, stored.encrypted);
+  return { id: stored.id, createdAt: stored.createdAt, blob: new Blob([bytes], { type: stored.mimeType }) };
+}
+
+export async function loadEncryptionSettings(): Promise<EncryptionSettings> {
+  const config = await readConfig();
+  encryptionEnabled = !!config;
+  return { enabled: !!config, autoLockMinutes: config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES };
+}
+
+export function isLocked(): boolean {
+  return !!encryptionEnabled && !sessionKey;
+}
+
+export async function unlock(passphrase: string): Promise<boolean> {
+  const verified = await verifyPassphrase(passphrase);
+  if (!verified) return false;
+  sessionKey = verified.key;
+  encryptionEnabled = true;
+  return true;
+}
+
+export function lock() {
+  sessionKey = null;
+}
+
+/**
+ * Decrypts every stored record with `fromKey` and writes it back encrypted with `toKey` (or in
+ * plaintext when `toKey` is null), together with the new config, in a single transaction.
+ */
+async function reencryptAll(fromKey: CryptoKey | null, toKey: CryptoKey | null, config: EncryptionConfig | null) {
+  const [savedItems, schedules, scanImages, profileIds, profiles] = await runTransaction(
+    [STORES.savedItems, STORES.medicationSchedules, STORES.scanImages, STORES.profiles],
+    'readonly',
+    transaction => Promise.all([
+      requestToPromise(transaction.objectStore(STORES.savedItems).getAll()),
+      requestToPromise(transaction.objectStore(STORES.medicationSchedules).getAll()),
+      requestToPromise(transaction.objectStore(STORES.scanImages).getAll()),
+      requestToPromise(transaction.objectStore(STORES.profiles).getAllKeys()),
+      requestToPromise(transaction.objectStore(STORES.profiles).getAll()),
+    ])
+  );
+
+  // WebCrypto calls would let an open transaction commit, so everything is re-encoded up front.
+  // Records in these stores are keyed by their own `id`
+  const reencode = async (stored: { id: string } | EncryptedRecord) => {
+    const value = await decodeRecord<{ id: string }>(fromKey, stored);
+    return encodeRecord(toKey, value, value.id);
+  };
+  const [nextSavedItems, nextSchedules, nextScanImages, nextProfiles] = await Promise.all([
+    Promise.all(savedItems.map(reencode)),
+    Promise.all(schedules.map(reencode)),
+    Promise.all(scanImages.map(async stored => encodeScanImage(toKey, await decodeScanImage(fromKey, stored)))),
+    // Profile ids are the out-of-line keys, not part of the record
+    Promise.all(profiles.map(async stored => encodeRecord(toKey, await decodeRecord(fromKey, stored)))),
+  ]);
+
+  await runTransaction(
+    [STORES.savedItems, STORES.medicationSchedules, STORES.scanImages, STORES.profiles, STORES.meta],
+    'readwrite',
+    transaction => {
+      nextSavedItems.forEach(record => transaction.objectStore(STORES.savedItems).put(record));
+      nextSchedules.forEach(record => transaction.objectStore(STORES.medicationSchedules).put(record));
+      nextScanImages.forEach(record => transaction.objectStore(STORES.scanImages).put(record));
+      nextProfiles.forEach((record, index) => transaction.objectStore(STORES.profiles).put(record, profileIds[index]));
+      if (config) {
+        transaction.objectStore(STORES.meta).put(config, ENCRYPTION_META_KEY);
+      } else {
+        transaction.objectStore(STORES.meta).delete(ENCRYPTION_META_KEY);
+      }
+    }
+  );
+}
+
+export async function enableEncryption(passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> {
+  if (await readConfig()) throw new Error('Encryption is already enabled.');
+  const { key, config } = await createConfig(passphrase, autoLockMinutes);
+  await reencryptAll(null, key, config);
+  encryptionEnabled = true;
+  sessionKey = key;
+}
+
+// Returns false if the current passphrase is wrong.
+export async function changePassphrase(currentPassphrase: string, nextPassphrase: string): Promise<boolean> {
+  const verified = await verifyPassphrase(currentPassphrase);
+  if (!verified) return false;
+  const { key, config } = await createConfig(nextPassphrase, verified.config.autoLockMinutes);
+  await reencryptAll(verified.key, key, config);
+  sessionKey = key;
+  return true;
+}
+
+// Returns false if the passphrase is wrong.
+export async function disableEncryption(passphrase: string): Promise<boolean> {
+  const verified = await verifyPassphrase(passphrase);
+  if (!verified) return false;
+  await reencryptAll(verified.key, null, null);
+  encryptionEnabled = false;
+  sessionKey = null;
+  return true;
+}
+
+export async function setAutoLockMinutes(autoLockMinutes: number): Promise<void> {
+  const config = await readConfig();
+  if (!config) throw new Error('Encryption is not enabled.');
+  await runTransaction(STORES.meta, 'readwrite', transaction => {
+    transaction.objectStore(STORES.meta).put({ ...config, autoLockMinutes }, ENCRYPTION_META_KEY);
+  });
+}
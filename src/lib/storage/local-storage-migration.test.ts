@@ -0,0 +1,64 @@
+import { LEGACY_STORAGE_KEYS, readLegacyLocalStorage } from './local-storage-migration';
+
+beforeEach(() => localStorage.clear());
+
+test('reads nothing when no legacy keys exist', () => {
+  expect(readLegacyLocalStorage(localStorage)).toEqual({
+    savedItems: [],
+    profile: null,
+    medicationSchedules: [],
+    migratedKeys: [],
+  });
+});
+
+test('reads legacy data and upgrades untyped saved items', () => {
+  localStorage.setItem(LEGACY_STORAGE_KEYS.savedItems, JSON.stringify([
+    { id: 1, condition: 'Common cold', remedies: 'Rest', diet: 'Soup', timestamp: 100 },
+  ]));
+  localStorage.setItem(LEGACY_STORAGE_KEYS.profile, JSON.stringify({ name: 'Asha', age: 34, gender: 'female' }));
+
+  const legacy = readLegacyLocalStorage(localStorage);
+  expect(legacy.savedItems).toEqual([
+    { type: 'symptom_check', id: '1', condition: 'Common cold', remedies: 'Rest', diet: 'Soup', timestamp: 100 },
+  ]);
+  expect(legacy.profile).toEqual({ name: 'Asha', age: 34, gender: 'female' });
+  expect(legacy.migratedKeys).toEqual([LEGACY_STORAGE_KEYS.savedItems, LEGACY_STORAGE_KEYS.profile]);
+});
+
+test('leaves unparseable keys out of the migration', () => {
+  const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  localStorage.setItem(LEGACY_STORAGE_KEYS.savedItems, '{not json');
+  localStorage.setItem(LEGACY_STORAGE_KEYS.medicationSchedules, JSON.stringify([]));
+
+  const legacy = readLegacyLocalStorage(localStorage);
+  expect(legacy.savedItems).toEqual([]);
+  expect(legacy.migratedKeys).toEqual([LEGACY_STORAGE_KEYS.medicationSchedules]);
+  consoleError.mockRestore();
+});
+
+test('leaves keys with malformed legacy data out of the migration', () => {
+  const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  localStorage.setItem(LEGACY_STORAGE_KEYS.savedItems, JSON.stringify({ id: 1 }));
+  localStorage.setItem(LEGACY_STORAGE_KEYS.profile, JSON.stringify('Asha'));
+  localStorage.setItem(LEGACY_STORAGE_KEYS.medicationSchedules, JSON.stringify([null]));
+
+  expect(readLegacyLocalStorage(localStorage)).toEqual({
+    savedItems: [],
+    profile: null,
+    medicationSchedules: [],
+    migratedKeys: [],
+  });
+  expect(consoleError).toHaveBeenCalledTimes(3);
+  consoleError.mockRestore();
+});
+
+test('skips unreadable saved items', () => {
+  localStorage.setItem(LEGACY_STORAGE_KEYS.savedItems, JSON.stringify([
+    { id: 1, condition: 'Common cold', timestamp: 100 },
+    { id: 2 },
+  ]));
+
+  const legacy = readLegacyLocalStorage(localStorage);
+  expect(legacy.savedItems.map(item => item.id)).toEqual(['1']);
+  expect(legacy.migratedKeys).toEqual([LEGACY_STORAGE_KEYS.savedItems]);
+});
@@ -0,0 +1,113 @@
+/**
+ * @fileOverview One-time migration of data persisted in localStorage before the IndexedDB storage
+ * layer existed. Keys are only removed once their data has been written to IndexedDB; keys that
+ * cannot be parsed or do not have the expected shape are left in place.
+ *
+ * - LEGACY_STORAGE_KEYS - The localStorage keys the app used to write.
+ * - readLegacyLocalStorage - Parses whatever legacy data is present.
+ * - migrateFromLocalStorage - Copies legacy data into IndexedDB once and clears the migrated keys.
+ */
+
+import { z } from 'zod';
+import { ACTIVE_PROFILE_META_KEY, runTransaction, requestToPromise, STORES } from '@/lib/storage/database';
+import { normalizeSavedItem, type SavedItem } from '@/lib/saved-items';
+import type { MedicationSchedule } from '@/lib/medication-schedule';
+import { createProfileId, type UserProfile } from '@/lib/user-profile';
+
+export const LEGACY_STORAGE_KEYS = {
+  savedItems: 'healthWiseSavedItems',
+  profile: 'healthWiseUserProfile',
+  medicationSchedules: 'healthWiseMedicationSchedules',
+} as const;
+
+const MIGRATION_META_KEY = 'localStorageMigratedAt';
+
+export interface LegacyData {
+  savedItems: SavedItem[];
+  profile: UserProfile | null;
+  medicationSchedules: MedicationSchedule[];
+  // Keys that were present and parsed, and can be removed after migration
+  migratedKeys: string[];
+}
+
+// Saved items that are not readable are skipped; profiles are upgraded when they are read from IndexedDB.
+const LegacySavedItemsSchema = z.array(z.unknown()).transform(items =>
+  items.map(normalizeSavedItem).filter((item): item is SavedItem => item !== null)
+);
+const LegacyProfileSchema = z.object({ name: z.string() }).passthrough();
+const LegacyMedicationSchedulesSchema = z.array(
+  z.object({
+    id: z.string(),
+    medicationName: z.string(),
+    dosage: z.string(),
+    schedule: z.object({ timesOfDay: z.array(z.string()), asNeeded: z.boolean(), recognized: z.boolean() }).passthrough(),
+    startDate: z.number(),
+    createdAt: z.number(),
+    doseLog: z.array(z.object({ doseId: z.string(), status: z.enum(['taken', 'skipped']), loggedAt: z.number() })),
+  }).passthrough()
+);
+
+function readKey<T>(storage: Storage, key: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T | undefined {
+  const stored = storage.getItem(key);
+  if (stored === null) return undefined;
+  try {
+    const parsed = schema.safeParse(JSON.parse(stored));
+    if (parsed.success) return parsed.data;
+    console.error(`Failed to read legacy ${key}`, parsed.error);
+  } catch (e) {
+    console.error(`Failed to read legacy ${key}`, e);
+  }
+  return undefined;
+}
+
+export function readLegacyLocalStorage(storage: Storage): LegacyData {
+  const data: LegacyData = { savedItems: [], profile: null, medicationSchedules: [], migratedKeys: [] };
+
+  const savedItems = readKey(storage, LEGACY_STORAGE_KEYS.savedItems, LegacySavedItemsSchema);
+  if (savedItems) {
+    data.savedItems = savedItems;
+    data.migratedKeys.push(LEGACY_STORAGE_KEYS.savedItems);
+  }
+
+  const profile = readKey(storage, LEGACY_STORAGE_KEYS.profile, LegacyProfileSchema);
+  if (profile) {
+    data.profile = profile as UserProfile;
+    data.migratedKeys.push(LEGACY_STORAGE_KEYS.profile);
+  }
+
+  const medicationSchedules = readKey(storage, LEGACY_STORAGE_KEYS.medicationSchedules, LegacyMedicationSchedulesSchema);
+  if (medicationSchedules) {
+    data.medicationSchedules = medicationSchedules as MedicationSchedule[];
+    data.migratedKeys.push(LEGACY_STORAGE_KEYS.medicationSchedules);
+  }
+
+  return data;
+}
+
+/**
+ * Returns whether a migration ran. Later calls are no-ops, even if localStorage is written again.
+ */
+export async function migrateFromLocalStorage(storage: Storage = localStorage): Promise<boolean> {
+  const migratedAt = await runTransaction(STORES.meta, 'readonly', transaction =>
+    requestToPromise(transaction.objectStore(STORES.meta).get(MIGRATION_META_KEY))
+  );
+  if (migratedAt) return false;
+
+  const legacy = readLegacyLocalStorage(storage);
+  await runTransaction(
+    [STORES.savedItems, STORES.profiles, STORES.medicationSchedules, STORES.meta],
+    'readwrite',
+    transaction => {
+      legacy.savedItems.forEach(item => transaction.objectStore(STORES.savedItems).put(item));
+      legacy.medicationSchedules.forEach(schedule => transaction.objectStore(STORES.medicationSchedules).put(schedule));
+      if (legacy.profile) {
+        const profileId = createProfileId();
+        transaction.objectStore(STORES.profiles).put(legacy.profile, profileId);
+        transaction.objectStore(STORES.meta).put(profileId, ACTIVE_PROFILE_META_KEY);
+      }
+      transaction.objectStore(STORES.meta).put(Date.now(), MIGRATION_META_KEY);
+    }
+  );
+  legacy.migratedKeys.forEach(key => storage.removeItem(key));
+  return true;
+}
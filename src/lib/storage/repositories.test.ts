@@ -0,0 +1,44 @@
+import { createLatestWriter } from './repositories';
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('writes in call order and skips writes superseded while waiting', async () => {
+  const written: string[] = [];
+  const releases: (() => void)[] = [];
+  const write = createLatestWriter(
+    (value: string) =>
+      new Promise<void>(resolve => {
+        releases.push(() => {
+          written.push(value);
+          resolve();
+        });
+      })
+  );
+
+  const first = write('first');
+  await flushPromises();
+  const second = write('second');
+  const third = write('third');
+  await flushPromises();
+  // The second write waits for the first one and is superseded before its turn.
+  expect(releases).toHaveLength(1);
+  releases[0]();
+  await first;
+  await second;
+  await flushPromises();
+  expect(releases).toHaveLength(2);
+  releases[1]();
+  await third;
+  expect(written).toEqual(['first', 'third']);
+});
+
+test('keeps writing after a failed write', async () => {
+  const written: string[] = [];
+  const write = createLatestWriter(async (value: string) => {
+    if (value === 'bad') throw new Error('Quota exceeded');
+    written.push(value);
+  });
+  await expect(write('bad')).rejects.toThrow('Quota exceeded');
+  await write('good');
+  expect(written).toEqual(['good']);
+});
@@ -0,0 +1,181 @@
+/**
+ * @fileOverview Typed repositories over the IndexedDB stores. Collections are written as a whole,
+ * mirroring the page state they persist. Records are encrypted with the session key when encryption
+ * is enabled; encoding happens before a transaction opens, as WebCrypto calls would let it commit.
+ *
+ * - savedItemsRepository - Saved symptom checks, prescription scans and medicine suggestions.
+ * - profilesRepository - Household profiles and which one is active.
+ * - medicationSchedulesRepository - Medication schedules and their dose logs.
+ * - scanImagesRepository - Full-resolution scan images, stored as Blobs.
+ * - getStorageUsage - Bytes used by the app and record counts per store.
+ * - createLatestWriter - Runs whole-collection writes one at a time, skipping superseded ones.
+ */
+
+import { ACTIVE_PROFILE_META_KEY, requestToPromise, runTransaction, STORES } from '@/lib/storage/database';
+import {
+  decodeRecord,
+  decodeScanImage,
+  encodeRecord,
+  encodeScanImage,
+  getSessionKey,
+  type ScanImageRecord,
+} from '@/lib/storage/encryption';
+import { normalizeSavedItem, type SavedItem } from '@/lib/saved-items';
+import type { MedicationSchedule } from '@/lib/medication-schedule';
+import { normalizeUserProfile, type HouseholdProfile, type UserProfile } from '@/lib/user-profile';
+
+export interface StorageUsage {
+  // Bytes used by and available to this origin, when the browser reports them
+  usage?: number;
+  quota?: number;
+  savedItemCount: number;
+  scanImageCount: number;
+  medicationScheduleCount: number;
+}
+
+/**
+ * Encoding is async, so two saves of the same store could otherwise reach IndexedDB out of order
+ * and leave an older snapshot on disk. Writes run one after another in call order, and a write
+ * still waiting when a newer one arrives is skipped; its promise resolves once it is superseded.
+ */
+export function createLatestWriter<T>(write: (values: T) => Promise<void>): (values: T) => Promise<void> {
+  let queue: Promise<void> = Promise.resolve();
+  let latest = 0;
+  return values => {
+    const version = ++latest;
+    const run = queue.then(() => (version === latest ? write(values) : undefined));
+    queue = run.catch(() => undefined);
+    return run;
+  };
+}
+
+export const savedItemsRepository = {
+  // Newest first, matching the order of the Saved view
+  async getAll(): Promise<SavedItem[]> {
+    const key = getSessionKey();
+    const records = await runTransaction(STORES.savedItems, 'readonly', transaction =>
+      requestToPromise(transaction.objectStore(STORES.savedItems).getAll())
+    );
+    const items = await Promise.all(records.map(record => decodeRecord(key, record)));
+    const normalized = items.map(normalizeSavedItem).filter((item): item is SavedItem => item !== null);
+    if (normalized.length < items.length) {
+      console.error(`Skipped ${items.length - normalized.length} unreadable saved item(s)`);
+    }
+    return normalized.sort((a, b) => b.timestamp - a.timestamp);
+  },
+
+  replaceAll: createLatestWriter(async (items: SavedItem[]): Promise<void> => {
+    const key = getSessionKey();
+    const records = await Promise.all(items.map(item => encodeRecord(key, item, item.id)));
+    await runTransaction(STORES.savedItems, 'readwrite', transaction => {
+      const store = transaction.objectStore(STORES.savedItems);
+      store.clear();
+      records.forEach(record => store.put(record));
+    });
+  }),
+};
+
+// Profiles are keyed by id outside the record, so version 1 profiles could move here still encrypted.
+export const profilesRepository = {
+  async getAll(): Promise<HouseholdProfile[]> {
+    const key = getSessionKey();
+    const [ids, records] = await runTransaction(STORES.profiles, 'readonly', transaction => Promise.all([
+      requestToPromise(transaction.objectStore(STORES.profiles).getAllKeys()),
+      requestToPromise(transaction.objectStore(STORES.profiles).getAll()),
+    ]));
+    return Promise.all(records.map(async (record, index) => normalizeUserProfile<HouseholdProfile>({
+      ...(await decodeRecord<UserProfile>(key, record)),
+      id: String(ids[index]),
+    })));
+  },
+
+  replaceAll: createLatestWriter(async (profiles: HouseholdProfile[]): Promise<void> => {
+    const key = getSessionKey();
+    const records = await Promise.all(profiles.map(profile => encodeRecord(key, profile)));
+    await runTransaction(STORES.profiles, 'readwrite', transaction => {
+      const store = transaction.objectStore(STORES.profiles);
+      store.clear();
+      records.forEach((record, index) => store.put(record, profiles[index].id));
+    });
+  }),
+
+  async getActiveId(): Promise<string | null> {
+    const id = await runTransaction(STORES.meta, 'readonly', transaction =>
+      requestToPromise(transaction.objectStore(STORES.meta).get(ACTIVE_PROFILE_META_KEY))
+    );
+    return id ?? null;
+  },
+
+  setActiveId(id: string | null): Promise<void> {
+    return runTransaction(STORES.meta, 'readwrite', transaction => {
+      const store = transaction.objectStore(STORES.meta);
+      if (id) {
+        store.put(id, ACTIVE_PROFILE_META_KEY);
+      } else {
+        store.delete(ACTIVE_PROFILE_META_KEY);
+      }
+    });
+  },
+};
+
+export const medicationSchedulesRepository = {
+  async getAll(): Promise<MedicationSchedule[]> {
+    const key = getSessionKey();
+    const records = await runTransaction(STORES.medicationSchedules, 'readonly', transaction =>
+      requestToPromise(transaction.objectStore(STORES.medicationSchedules).getAll())
+    );
+    return Promise.all(records.map(record => decodeRecord<MedicationSchedule>(key, record)));
+  },
+
+  replaceAll: createLatestWriter(async (schedules: MedicationSchedule[]): Promise<void> => {
+    const key = getSessionKey();
+    const records = await Promise.all(schedules.map(schedule => encodeRecord(key, schedule, schedule.id)));
+    await runTransaction(STORES.medicationSchedules, 'readwrite', transaction => {
+      const store = transaction.objectStore(STORES.medicationSchedules);
+      store.clear();
+      records.forEach(record => store.put(record));
+    });
+  }),
+};
+
+export const scanImagesRepository = {
+  // Returns the id to reference the image by
+  async put(blob: Blob, now: number = Date.now()): Promise<string> {
+    const image: ScanImageRecord = { id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, blob, createdAt: now };
+    const record = await encodeScanImage(getSessionKey(), image);
+    await runTransaction(STORES.scanImages, 'readwrite', transaction => {
+      transaction.objectStore(STORES.scanImages).put(record);
+    });
+    return image.id;
+  },
+
+  async get(id: string): Promise<Blob | undefined> {
+    const key = getSessionKey();
+    const record = await runTransaction(STORES.scanImages, 'readonly', transaction =>
+      requestToPromise(transaction.objectStore(STORES.scanImages).get(id))
+    );
+    return record === undefined ? undefined : (await decodeScanImage(key, record)).blob;
+  },
+
+  delete(id: string): Promise<void> {
+    return runTransaction(STORES.scanImages, 'readwrite', transaction => {
+      transaction.objectStore(STORES.scanImages).delete(id);
+    });
+  },
+};
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const [savedItemCount, scanImageCount, medicationScheduleCount] = await runTransaction(
+    [STORES.savedItems, STORES.scanImages, STORES.medicationSchedules],
+    'readonly',
+    transaction => Promise.all([
+      requestToPromise(transaction.objectStore(STORES.savedItems).count()),
+      requestToPromise(transaction.objectStore(STORES.scanImages).count()),
+      requestToPromise(transaction.objectStore(STORES.medicationSchedules).count()),
+    ])
+  );
+  const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+    ? await navigator.storage.estimate()
+    : {};
+  return { usage: estimate.usage, quota: estimate.quota, savedItemCount, scanImageCount, medicationScheduleCount };
+}
@@ -0,0 +1,56 @@
+import { buildProfileContext, calculateBmi, getActiveProfile, getBmiCategory, normalizeUserProfile, UserProfileSchema } from './user-profile';
+
+const baseProfile = UserProfileSchema.parse({ name: 'Asha', age: 34, gender: 'female' });
+
+test('calculates BMI only when height and weight are known', () => {
+  expect(calculateBmi(170, 65)).toBe(22.5);
+  expect(calculateBmi(undefined, 65)).toBeUndefined();
+  expect(getBmiCategory(22.5)).toBe('healthy');
+  expect(getBmiCategory(31)).toBe('obese');
+});
+
+test('leaves empty number inputs unset', () => {
+  const profile = UserProfileSchema.parse({ name: 'Asha', age: '34', gender: 'female', heightCm: '', weightKg: '62' });
+  expect(profile.heightCm).toBeUndefined();
+  expect(profile.weightKg).toBe(62);
+  expect(profile.drugAllergies).toEqual([]);
+});
+
+test('upgrades the legacy comma-separated medication string', () => {
+  const profile = normalizeUserProfile({ name: 'Ravi', age: 70, gender: 'male', currentMedications: 'Warfarin 5mg, Metformin' });
+  expect(profile.currentMedications).toEqual([{ name: 'Warfarin 5mg' }, { name: 'Metformin' }]);
+  expect(profile.drugAllergies).toEqual([]);
+});
+
+test('summarizes the clinical fields for prompts', () => {
+  const context = buildProfileContext({
+    ...baseProfile,
+    conditions: 'Asthma',
+    drugAllergies: [{ substance: 'Penicillin', reaction: 'rash' }],
+    currentMedications: [{ name: 'Sertraline', dose: '50mg', frequency: 'once daily' }],
+    pregnancyStatus: 'breastfeeding',
+    heightCm: 160,
+    weightKg: 70,
+    smoking: 'former',
+  });
+  expect(context).toBe(
+    'Age 34, Gender female. Pre-existing conditions: Asthma. Drug allergies: Penicillin (rash). ' +
+    'Current medications: Sertraline 50mg once daily. Breastfeeding. Height 160 cm, Weight 70 kg, BMI 27.3 (overweight). Former smoker'
+  );
+  expect(buildProfileContext(baseProfile)).toBe('Age 34, Gender female');
+});
+
+test('includes dietary preferences and defaults them for older profiles', () => {
+  expect(buildProfileContext({ ...baseProfile, dietaryPreferences: ['vegan', 'halal'] })).toBe('Age 34, Gender female. Dietary preferences: Vegan, Halal');
+  expect(normalizeUserProfile({ name: 'Ravi', age: 70, gender: 'male' }).dietaryPreferences).toEqual([]);
+});
+
+test('switching the active profile changes the context given to the flows', () => {
+  const parent = { ...baseProfile, id: 'parent' };
+  const child = { ...UserProfileSchema.parse({ name: 'Mira', age: 4, gender: 'female', weightKg: '16' }), id: 'child' };
+  const profiles = [parent, child];
+
+  expect(getActiveProfile(profiles, 'parent')).toEqual({ profile: parent, profileContext: 'Age 34, Gender female' });
+  expect(getActiveProfile(profiles, 'child')).toEqual({ profile: child, profileContext: 'Age 4, Gender female. Weight 16 kg' });
+  expect(getActiveProfile(profiles, null)).toEqual({ profile: null, profileContext: undefined });
+});
@@ -0,0 +1,158 @@
+/**
+ * @fileOverview Health profiles of the household members the app is used for, as entered in the
+ * Profile view and persisted locally.
+ *
+ * - UserProfileSchema - Validation schema for the profile form.
+ * - UserProfile - The profile details, including the structured clinical fields and dietary preferences.
+ * - HouseholdProfile - A stored profile, identified by id.
+ * - createProfileId - Generates an id for a new profile.
+ * - normalizeUserProfile - Upgrades a stored profile to the current shape.
+ * - calculateBmi / getBmiCategory - Body mass index from height and weight.
+ * - buildProfileContext - Summarizes a profile for the AI prompts.
+ * - getActiveProfile - The household member the app is acting for, with their prompt context.
+ */
+
+import { z } from 'zod';
+
+// Empty number inputs arrive as '' and should leave the field unset rather than fail validation.
+const optionalNumber = (schema: z.ZodNumber) =>
+  z.preprocess(value => (value === '' || value === null ? undefined : value), z.coerce.number().pipe(schema).optional());
+
+export const DrugAllergySchema = z.object({
+  substance: z.string().min(1, { message: "Enter the drug or ingredient."}),
+  reaction: z.string().optional(),
+});
+export type DrugAllergy = z.infer<typeof DrugAllergySchema>;
+
+export const CurrentMedicationSchema = z.object({
+  name: z.string().min(1, { message: "Enter the medication name."}),
+  dose: z.string().optional(),
+  frequency: z.string().optional(),
+});
+export type CurrentMedication = z.infer<typeof CurrentMedicationSchema>;
+
+export const DIETARY_PREFERENCES = ['vegetarian', 'vegan', 'halal', 'lactose_free'] as const;
+export type DietaryPreference = typeof DIETARY_PREFERENCES[number];
+
+export const UserProfileSchema = z.object({
+  name: z.string().min(1, { message: "Name is required."}),
+  age: z.coerce.number().min(1, { message: "Age must be positive."}).max(120, { message: "Age seems unlikely."}),
+  gender: z.enum(["male", "female", "other", "prefer_not_to_say"], {
+      required_error: "Please select a gender option."
+  }),
+  conditions: z.string().optional(),
+  drugAllergies: z.array(DrugAllergySchema).default([]),
+  currentMedications: z.array(CurrentMedicationSchema).default([]),
+  pregnancyStatus: z.enum(["not_pregnant", "pregnant", "breastfeeding"]).optional(),
+  heightCm: optionalNumber(z.number().min(30, { message: "Height seems too low."}).max(250, { message: "Height seems unlikely."})),
+  weightKg: optionalNumber(z.number().min(1, { message: "Weight must be positive."}).max(350, { message: "Weight seems unlikely."})),
+  smoking: z.enum(["never", "former", "current"]).optional(),
+  alcohol: z.enum(["none", "occasional", "regular", "heavy"]).optional(),
+  dietaryPreferences: z.array(z.enum(DIETARY_PREFERENCES)).default([]),
+});
+
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+// Saved items and medication schedules reference their profile by id.
+export interface HouseholdProfile extends UserProfile {
+  id: string;
+}
+
+export type BmiCategory = 'underweight' | 'healthy' | 'overweight' | 'obese';
+
+export const PREGNANCY_STATUS_LABELS: Record<NonNullable<UserProfile['pregnancyStatus']>, string> = {
+  not_pregnant: 'Not pregnant',
+  pregnant: 'Pregnant',
+  breastfeeding: 'Breastfeeding',
+};
+
+export const SMOKING_LABELS: Record<NonNullable<UserProfile['smoking']>, string> = {
+  never: 'Never smoked',
+  former: 'Former smoker',
+  current: 'Current smoker',
+};
+
+export const ALCOHOL_LABELS: Record<NonNullable<UserProfile['alcohol']>, string> = {
+  none: 'No alcohol',
+  occasional: 'Occasional alcohol',
+  regular: 'Regular alcohol',
+  heavy: 'Heavy alcohol use',
+};
+
+export const DIETARY_PREFERENCE_LABELS: Record<DietaryPreference, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  halal: 'Halal',
+  lactose_free: 'Lactose-free',
+};
+
+export function createProfileId(now: number = Date.now()): string {
+  return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Profiles saved before the clinical fields existed kept current medications as one
+ * comma-separated string and have no allergy list; older profiles also lack dietary preferences.
+ */
+export function normalizeUserProfile<T extends UserProfile>(profile: any): T {
+  const currentMedications: CurrentMedication[] = typeof profile.currentMedications === 'string'
+    ? profile.currentMedications
+        .split(/[,;\n]/)
+        .map((name: string) => name.trim())
+        .filter(Boolean)
+        .map((name: string) => ({ name }))
+    : profile.currentMedications ?? [];
+  return { ...profile, drugAllergies: profile.drugAllergies ?? [], currentMedications, dietaryPreferences: profile.dietaryPreferences ?? [] };
+}
+
+export function calculateBmi(heightCm?: number, weightKg?: number): number | undefined {
+  if (!heightCm || !weightKg) return undefined;
+  const heightM = heightCm / 100;
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10;
+}
+
+// Adult WHO cut-offs; not meaningful for children.
+export function getBmiCategory(bmi: number): BmiCategory {
+  if (bmi < 18.5) return 'underweight';
+  if (bmi < 25) return 'healthy';
+  if (bmi < 30) return 'overweight';
+  return 'obese';
+}
+
+function formatMedication(medication: CurrentMedication): string {
+  return [medication.name, medication.dose, medication.frequency].filter(Boolean).join(' ');
+}
+
+export function buildProfileContext(profile: UserProfile): string {
+  const parts = [`Age ${profile.age}, Gender ${profile.gender}`];
+  if (profile.conditions) parts.push(`Pre-existing conditions: ${profile.conditions}`);
+  if (profile.drugAllergies.length > 0) {
+    parts.push(`Drug allergies: ${profile.drugAllergies
+      .map(allergy => allergy.reaction ? `${allergy.substance} (${allergy.reaction})` : allergy.substance)
+      .join(', ')}`);
+  }
+  if (profile.currentMedications.length > 0) {
+    parts.push(`Current medications: ${profile.currentMedications.map(formatMedication).join(', ')}`);
+  }
+  if (profile.pregnancyStatus && profile.pregnancyStatus !== 'not_pregnant') {
+    parts.push(PREGNANCY_STATUS_LABELS[profile.pregnancyStatus]);
+  }
+  const bmi = calculateBmi(profile.heightCm, profile.weightKg);
+  if (bmi !== undefined) {
+    parts.push(`Height ${profile.heightCm} cm, Weight ${profile.weightKg} kg${profile.age >= 18 ? `, BMI ${bmi} (${getBmiCategory(bmi)})` : ''}`);
+  } else if (profile.weightKg) {
+    parts.push(`Weight ${profile.weightKg} kg`);
+  }
+  if (profile.smoking) parts.push(SMOKING_LABELS[profile.smoking]);
+  if (profile.alcohol) parts.push(ALCOHOL_LABELS[profile.alcohol]);
+  if (profile.dietaryPreferences.length > 0) {
+    parts.push(`Dietary preferences: ${profile.dietaryPreferences.map(preference => DIETARY_PREFERENCE_LABELS[preference]).join(', ')}`);
+  }
+  return parts.join('. ');
+}
+
+// The AI flows are given the active member's context, so switching profiles changes what they are told.
+export function getActiveProfile(profiles: HouseholdProfile[], activeProfileId: string | null): { profile: HouseholdProfile | null; profileContext?: string } {
+  const profile = profiles.find(item => item.id === activeProfileId) ?? null;
+  return { profile, profileContext: profile ? buildProfileContext(profile) : undefined };
+}
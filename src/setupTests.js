@@ -3,3 +3,12 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// Flows run against the fixture-backed mock model, so tests never need network access or an API key.
+process.env.AI_PROVIDER = 'mock';
+
+// Genkit streams through web streams, which Node has but Jest's environments do not expose.
+if (typeof global.ReadableStream === 'undefined') {
+  const { ReadableStream, TransformStream, WritableStream } = require('stream/web');
+  Object.assign(global, { ReadableStream, TransformStream, WritableStream });
+}